@@ -0,0 +1,76 @@
+import {
+  CacheStorage,
+  ConditionalEntry,
+  ConditionalRequestOptions,
+  FetcherResponse,
+} from '../types';
+
+/**
+ * Sends a request with the given conditional headers
+ */
+export type ConditionalRequestSender<T> = (
+  headers: Record<string, string>
+) => Promise<FetcherResponse<T>>;
+
+/**
+ * HTTP conditional requests: the `ETag` and `Last-Modified` of responses are
+ * stored per URL and sent back as `If-None-Match` and `If-Modified-Since`,
+ * so unchanged resources are answered with an empty `304 Not Modified`
+ */
+export class ConditionalRequests {
+  private readonly storage: CacheStorage<ConditionalEntry>;
+
+  constructor(options: ConditionalRequestOptions = {}) {
+    this.storage = options.storage ?? new Map();
+  }
+
+  /**
+   * Sends a request, conditional when validators are stored for the URL.
+   * A `304` resolves with the stored response, with the status it had and
+   * the headers of the `304`.
+   */
+  async execute<T>(
+    url: string,
+    send: ConditionalRequestSender<T>
+  ): Promise<FetcherResponse<T>> {
+    const entry = (await this.storage.get(url)) as
+      | ConditionalEntry<T>
+      | undefined;
+    const response = await send(
+      entry ? ConditionalRequests.conditions(entry) : {}
+    );
+    const { meta } = response;
+
+    if (meta?.status === 304) {
+      if (!entry) return response;
+      const stored = entry.response;
+      return {
+        ...stored,
+        meta: {
+          ...meta,
+          status: stored.meta?.status ?? 200,
+          headers: { ...stored.meta?.headers, ...meta.headers },
+        },
+      };
+    }
+
+    if (response.errors?.length || !meta || meta.status >= 300) {
+      return response;
+    }
+
+    const { etag, 'last-modified': lastModified } = meta.headers;
+    if (etag || lastModified) {
+      await this.storage.set(url, { response, etag, lastModified });
+    } else if (entry) {
+      await this.storage.delete(url);
+    }
+    return response;
+  }
+
+  private static conditions(entry: ConditionalEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+}
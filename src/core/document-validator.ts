@@ -0,0 +1,400 @@
+import { IErrors } from '../types';
+import { GraphQLParser } from '../utils';
+import {
+  DirectiveNode,
+  FragmentNode,
+  OperationNode,
+  SelectionNode,
+  ValueNode,
+} from '../utils/graphql-parser';
+import { GraphQLSchema, SchemaType } from './graphql-schema';
+
+type ResponsePath = Array<string | number>;
+
+/**
+ * Validates an executable document against a schema: unknown fields,
+ * unknown or missing arguments, argument and variable types, and leaf or
+ * composite selections. Errors use the GraphQL error shape, with the
+ * response path of the field they belong to.
+ */
+export class DocumentValidator {
+  static readonly VALIDATION_FAILED = 'GRAPHQL_VALIDATION_FAILED';
+  static readonly PARSE_FAILED = 'GRAPHQL_PARSE_FAILED';
+
+  private static readonly BUILT_IN_DIRECTIVES: Record<string, string> = {
+    include: 'Boolean!',
+    skip: 'Boolean!',
+  };
+
+  private readonly errors: IErrors[] = [];
+  private fragments = new Map<string, FragmentNode>();
+  private variables = new Map<string, string>();
+
+  constructor(private readonly schema: GraphQLSchema) {}
+
+  /**
+   * Returns the errors of a document, empty when it is valid
+   */
+  validate(document: string): IErrors[] {
+    let operations: OperationNode[];
+    try {
+      ({ operations, fragments: this.fragments } = GraphQLParser.parse(
+        document
+      ));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [
+        {
+          message,
+          extensions: { code: DocumentValidator.PARSE_FAILED, message },
+        },
+      ];
+    }
+
+    operations.forEach(({ operation, variables, directives, selections }) => {
+      this.variables = variables;
+      const root = this.schema.getRootType(operation);
+      if (!root) {
+        this.report(`Schema is not configured for ${operation}s.`);
+        return;
+      }
+      this.checkDirectives(directives);
+      this.checkSelections(selections, root, [], new Set());
+    });
+
+    return this.errors;
+  }
+
+  private checkSelections(
+    selections: SelectionNode[],
+    parent: SchemaType,
+    path: ResponsePath,
+    visited: Set<string>
+  ): void {
+    selections.forEach(selection => {
+      this.checkDirectives(
+        selection.directives,
+        selection.kind === 'Field'
+          ? [...path, selection.alias ?? selection.name]
+          : path
+      );
+
+      if (selection.kind === 'FragmentSpread') {
+        const fragment = this.fragments.get(selection.name);
+        if (!fragment) {
+          this.report(`Unknown fragment "${selection.name}".`, path);
+        } else if (!visited.has(selection.name)) {
+          this.checkTypeCondition(
+            fragment.typeCondition,
+            fragment.selections,
+            path,
+            new Set(visited).add(selection.name)
+          );
+        }
+        return;
+      }
+
+      if (selection.kind === 'InlineFragment') {
+        if (selection.typeCondition === undefined) {
+          this.checkSelections(selection.selections, parent, path, visited);
+        } else {
+          this.checkTypeCondition(
+            selection.typeCondition,
+            selection.selections,
+            path,
+            visited
+          );
+        }
+        return;
+      }
+
+      const fieldPath = [...path, selection.alias ?? selection.name];
+      const { name, args, selections: subselections } = selection;
+
+      if (name === '__typename') {
+        if (subselections) {
+          this.report(
+            `Field "${name}" must not have a selection since type "String!" has no subfields.`,
+            fieldPath
+          );
+        }
+        return;
+      }
+      // Introspection fields are answered by every server
+      if (
+        (name === '__schema' || name === '__type') &&
+        parent === this.schema.getRootType('query')
+      ) {
+        return;
+      }
+
+      const field = parent.fields.get(name);
+      if (!field) {
+        this.report(
+          `Cannot query field "${name}" on type "${parent.name}".`,
+          fieldPath
+        );
+        return;
+      }
+
+      args.forEach(arg => {
+        const definition = field.args.get(arg.name);
+        if (!definition) {
+          this.report(
+            `Unknown argument "${arg.name}" on field "${parent.name}.${name}".`,
+            fieldPath
+          );
+        } else {
+          this.checkValue(arg.value, definition.type, fieldPath);
+        }
+      });
+      field.args.forEach(definition => {
+        if (
+          definition.type.endsWith('!') &&
+          !definition.hasDefault &&
+          !args.some(arg => arg.name === definition.name)
+        ) {
+          this.report(
+            `Field "${parent.name}.${name}" argument "${definition.name}" of type "${definition.type}" is required, but it was not provided.`,
+            fieldPath
+          );
+        }
+      });
+
+      const type = this.schema.getType(field.type);
+      if (!type) return;
+
+      const composite = ['OBJECT', 'INTERFACE', 'UNION'].includes(type.kind);
+      if (composite && !subselections) {
+        this.report(
+          `Field "${name}" of type "${field.type}" must have a selection of subfields.`,
+          fieldPath
+        );
+      } else if (!composite && subselections) {
+        this.report(
+          `Field "${name}" must not have a selection since type "${field.type}" has no subfields.`,
+          fieldPath
+        );
+      } else if (subselections) {
+        this.checkSelections(subselections, type, fieldPath, visited);
+      }
+    });
+  }
+
+  private checkTypeCondition(
+    typeCondition: string,
+    selections: SelectionNode[],
+    path: ResponsePath,
+    visited: Set<string>
+  ): void {
+    const type = this.schema.getType(typeCondition);
+    if (!type) {
+      this.report(`Unknown type "${typeCondition}".`, path);
+      return;
+    }
+    this.checkSelections(selections, type, path, visited);
+  }
+
+  /**
+   * Checks `@include` and `@skip` arguments; other directives are not part
+   * of the schema model, so only their variables are checked
+   */
+  private checkDirectives(
+    directives: DirectiveNode[],
+    path?: ResponsePath
+  ): void {
+    directives.forEach(({ name, args }) => {
+      const type = DocumentValidator.BUILT_IN_DIRECTIVES[name];
+      args.forEach(arg => {
+        if (type && arg.name === 'if') {
+          this.checkValue(arg.value, type, path);
+        } else {
+          this.checkVariables(arg.value, path);
+        }
+      });
+      if (type && !args.some(arg => arg.name === 'if')) {
+        this.report(
+          `Directive "@${name}" argument "if" of type "${type}" is required, but it was not provided.`,
+          path
+        );
+      }
+    });
+  }
+
+  private checkValue(
+    value: ValueNode,
+    type: string,
+    path?: ResponsePath
+  ): void {
+    if (value.kind === 'Variable') {
+      const declared = this.variables.get(value.name);
+      if (declared === undefined) {
+        this.report(`Variable "$${value.name}" is not defined.`, path);
+      } else if (!DocumentValidator.isCompatible(declared, type)) {
+        this.report(
+          `Variable "$${value.name}" of type "${declared}" used in position expecting type "${type}".`,
+          path
+        );
+      }
+      return;
+    }
+
+    if (value.kind === 'Null') {
+      if (type.endsWith('!')) {
+        this.report(`Expected value of type "${type}", found null.`, path);
+      }
+      return;
+    }
+
+    const nullable = type.endsWith('!') ? type.slice(0, -1) : type;
+    if (nullable.startsWith('[')) {
+      const itemType = nullable.slice(1, -1);
+      // A single value is accepted where a list is expected
+      if (value.kind === 'List') {
+        value.values.forEach(item => this.checkValue(item, itemType, path));
+      } else {
+        this.checkValue(value, itemType, path);
+      }
+      return;
+    }
+
+    const named = this.schema.getType(nullable);
+    if (!named) return;
+
+    const mismatch = () =>
+      this.report(
+        `Expected value of type "${type}", found ${DocumentValidator.print(
+          value
+        )}.`,
+        path
+      );
+
+    switch (named.kind) {
+      case 'ENUM':
+        if (value.kind !== 'Enum') {
+          mismatch();
+        } else if (!named.enumValues.has(value.value)) {
+          this.report(
+            `Value "${value.value}" does not exist in "${named.name}" enum.`,
+            path
+          );
+        }
+        return;
+
+      case 'INPUT_OBJECT':
+        if (value.kind !== 'Object') {
+          mismatch();
+          return;
+        }
+        value.fields.forEach(field => {
+          const definition = named.inputFields.get(field.name);
+          if (!definition) {
+            this.report(
+              `Field "${field.name}" is not defined by type "${named.name}".`,
+              path
+            );
+          } else {
+            this.checkValue(field.value, definition.type, path);
+          }
+        });
+        named.inputFields.forEach(definition => {
+          if (
+            definition.type.endsWith('!') &&
+            !definition.hasDefault &&
+            !value.fields.some(field => field.name === definition.name)
+          ) {
+            this.report(
+              `Field "${named.name}.${definition.name}" of required type "${definition.type}" was not provided.`,
+              path
+            );
+          }
+        });
+        return;
+
+      case 'SCALAR': {
+        const accepted: Record<string, string[]> = {
+          Int: ['Int'],
+          Float: ['Int', 'Float'],
+          String: ['String'],
+          Boolean: ['Boolean'],
+          ID: ['Int', 'String'],
+        };
+        // Custom scalars accept any literal
+        const kinds = accepted[named.name];
+        if (kinds && !kinds.includes(value.kind)) mismatch();
+        return;
+      }
+
+      default:
+        mismatch();
+    }
+  }
+
+  private checkVariables(value: ValueNode, path?: ResponsePath): void {
+    if (value.kind === 'Variable' && !this.variables.has(value.name)) {
+      this.report(`Variable "$${value.name}" is not defined.`, path);
+    } else if (value.kind === 'List') {
+      value.values.forEach(item => this.checkVariables(item, path));
+    } else if (value.kind === 'Object') {
+      value.fields.forEach(field => this.checkVariables(field.value, path));
+    }
+  }
+
+  private report(message: string, path?: ResponsePath): void {
+    this.errors.push({
+      message,
+      extensions: { code: DocumentValidator.VALIDATION_FAILED, message },
+      ...(path && path.length > 0 ? { path } : {}),
+    });
+  }
+
+  /**
+   * Checks whether a variable of one type can be used where another is
+   * expected, e.g. `Int!` where `Int` is expected, but not the reverse
+   */
+  private static isCompatible(variable: string, location: string): boolean {
+    if (location.endsWith('!')) {
+      return (
+        variable.endsWith('!') &&
+        DocumentValidator.isCompatible(
+          variable.slice(0, -1),
+          location.slice(0, -1)
+        )
+      );
+    }
+    if (variable.endsWith('!')) {
+      return DocumentValidator.isCompatible(variable.slice(0, -1), location);
+    }
+    if (location.startsWith('[')) {
+      return (
+        variable.startsWith('[') &&
+        DocumentValidator.isCompatible(
+          variable.slice(1, -1),
+          location.slice(1, -1)
+        )
+      );
+    }
+    return variable === location;
+  }
+
+  private static print(value: ValueNode): string {
+    switch (value.kind) {
+      case 'Variable':
+        return `$${value.name}`;
+      case 'Null':
+        return 'null';
+      case 'String':
+        return JSON.stringify(value.value);
+      case 'List':
+        return `[${value.values.map(DocumentValidator.print).join(', ')}]`;
+      case 'Object':
+        return `{${value.fields
+          .map(
+            field => `${field.name}: ${DocumentValidator.print(field.value)}`
+          )
+          .join(', ')}}`;
+      default:
+        return value.value;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { StreamObserver, Subscribable, Unsubscribable } from '../types';
+
+export type StreamSink<T> = Required<StreamObserver<T>>;
+
+/**
+ * Starts producing values into the sink and returns a teardown function
+ */
+export type StreamProducer<T> = (sink: StreamSink<T>) => (() => void) | void;
+
+/**
+ * Cold push stream: every subscriber (or async iterator) starts its own
+ * producer, and the producer is torn down on completion or unsubscribe
+ */
+export class EventStream<T> implements Subscribable<T> {
+  constructor(private readonly producer: StreamProducer<T>) {}
+
+  subscribe(
+    observer: StreamObserver<T> | ((value: T) => void)
+  ): Unsubscribable {
+    const { next, error, complete }: StreamObserver<T> =
+      typeof observer === 'function' ? { next: observer } : observer;
+
+    let closed = false;
+    let teardown: (() => void) | void;
+
+    const close = () => {
+      if (closed) return false;
+      closed = true;
+      if (teardown) teardown();
+      return true;
+    };
+
+    teardown = this.producer({
+      next: value => {
+        if (!closed && next) next(value);
+      },
+      error: reason => {
+        if (close() && error) error(reason);
+      },
+      complete: () => {
+        if (close() && complete) complete();
+      },
+    });
+
+    // The producer may have completed synchronously, before teardown existed
+    if (closed && teardown) teardown();
+
+    return { unsubscribe: () => void close() };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const buffer: T[] = [];
+    const pending: Array<{
+      resolve: (result: IteratorResult<T>) => void;
+      reject: (reason: unknown) => void;
+    }> = [];
+    let subscription: Unsubscribable | undefined;
+    let done = false;
+    let failure: { reason: unknown } | undefined;
+
+    const finish = () => {
+      done = true;
+      pending
+        .splice(0)
+        .forEach(({ resolve }) => resolve({ value: undefined, done: true }));
+    };
+
+    const start = () => {
+      if (subscription) return;
+      subscription = this.subscribe({
+        next: value => {
+          const waiting = pending.shift();
+          if (waiting) waiting.resolve({ value, done: false });
+          else buffer.push(value);
+        },
+        error: reason => {
+          const waiting = pending.shift();
+          if (waiting) {
+            waiting.reject(reason);
+          } else {
+            failure = { reason };
+          }
+          finish();
+        },
+        complete: finish,
+      });
+    };
+
+    return {
+      next: () => {
+        start();
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift() as T, done: false });
+        }
+        // Buffered values are delivered before the error is thrown
+        if (failure) {
+          const { reason } = failure;
+          failure = undefined;
+          return Promise.reject(reason);
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) =>
+          pending.push({ resolve, reject })
+        );
+      },
+      return: () => {
+        buffer.length = 0;
+        failure = undefined;
+        if (subscription) subscription.unsubscribe();
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
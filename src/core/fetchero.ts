@@ -1,6 +1,13 @@
 // import { FetcheroOptions, RestProxy, GraphQLProxy } from '../types';
 import { Validators } from '../utils';
 import { HttpClient } from './http-client';
+import { InterceptorManager } from './interceptor-manager';
+import { FragmentRegistry } from './fragment-registry';
+import { GraphQLSchema } from './graphql-schema';
+import { ResponseCache } from './response-cache';
+import { ConditionalRequests } from './conditional-requests';
+import { NormalizedCache } from './normalized-cache';
+import { SchemaLoader } from './schema-loader';
 import { RestProxyFactory, GraphQLProxyFactory } from '../proxies';
 import { FetcheroOptions, GraphQLProxy, RestProxy } from '../types';
 
@@ -15,26 +22,138 @@ export class Fetchero {
   private readonly graphqlProxyFactory: GraphQLProxyFactory;
   // private readonly baseUrl: string;
   private readonly headers: Record<string, string>;
+  private readonly options: FetcheroOptions;
+  readonly interceptors: InterceptorManager;
+  readonly fragments: FragmentRegistry;
+  readonly schema?: SchemaLoader;
+  readonly cache?: ResponseCache;
+  private readonly conditionalRequests?: ConditionalRequests;
+  readonly normalizedCache?: NormalizedCache;
 
-  constructor({ baseUrl, headers = {}, interceptors }: FetcheroOptions) {
+  constructor(options: FetcheroOptions, parent?: Fetchero) {
+    const {
+      baseUrl,
+      headers = {},
+      interceptors,
+      retry,
+      subscriptions,
+      fetchImpl,
+      fragments,
+      batch,
+      persistedQueries,
+      useGet,
+      schema,
+      cache,
+      conditionalRequests,
+      normalizedCache,
+      dedupe,
+    } = options;
     Validators.validateConstructorArgs(baseUrl);
+    if (retry !== undefined) Validators.validateRetryOptions(retry);
+    if (subscriptions !== undefined) {
+      Validators.validateSubscriptionOptions(subscriptions);
+    }
+    if (batch !== undefined) Validators.validateBatchOptions(batch);
+    if (persistedQueries !== undefined) {
+      Validators.validatePersistedQueryOptions(persistedQueries);
+    }
+    if (useGet !== undefined) Validators.validateGetOptions(useGet);
+    if (schema !== undefined) Validators.validateSchemaOptions(schema);
+    if (cache !== undefined) Validators.validateCacheOptions(cache);
+    if (conditionalRequests !== undefined) {
+      Validators.validateConditionalRequestOptions(conditionalRequests);
+    }
+    if (normalizedCache !== undefined) {
+      Validators.validateNormalizedCacheOptions(normalizedCache);
+    }
+    if (dedupe !== undefined) Validators.validateDedupe(dedupe);
 
     // this.baseUrl = baseUrl;
+    this.options = options;
     this.headers = Object.freeze({ ...headers });
+    this.interceptors = InterceptorManager.from(
+      interceptors,
+      parent?.interceptors
+    );
+    this.fragments = FragmentRegistry.from(fragments, parent?.fragments);
 
     // Initialize HTTP client
-    this.httpClient = new HttpClient(baseUrl, this.headers, interceptors);
+    this.httpClient = new HttpClient(baseUrl, this.headers, this.interceptors, {
+      retry,
+      dedupe,
+    });
+
+    this.schema = schema
+      ? new SchemaLoader(schema, () =>
+          this.httpClient.makeRequest({
+            url: baseUrl,
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this.headers },
+            data: {
+              query: GraphQLSchema.INTROSPECTION_QUERY,
+              operationName: 'IntrospectionQuery',
+            },
+          })
+        )
+      : parent?.schema;
+    this.cache = cache
+      ? new ResponseCache(baseUrl, cache === true ? {} : cache)
+      : parent?.cache;
+    this.conditionalRequests = conditionalRequests
+      ? new ConditionalRequests(
+          conditionalRequests === true ? {} : conditionalRequests
+        )
+      : parent?.conditionalRequests;
+    this.normalizedCache = normalizedCache
+      ? new NormalizedCache(normalizedCache === true ? {} : normalizedCache)
+      : parent?.normalizedCache;
 
     // Initialize proxy factories
     this.restProxyFactory = new RestProxyFactory(
       this.httpClient,
       baseUrl,
-      this.headers
+      this.headers,
+      {
+        fetchImpl,
+        cache: this.cache,
+        conditionalRequests: this.conditionalRequests,
+      }
     );
     this.graphqlProxyFactory = new GraphQLProxyFactory(
       this.httpClient,
       baseUrl,
-      this.headers
+      this.headers,
+      {
+        subscriptions,
+        fragments: this.fragments,
+        batch,
+        persistedQueries,
+        useGet,
+        schema: this.schema,
+        normalizedCache: this.normalizedCache,
+      }
+    );
+  }
+
+  /**
+   * Creates a derived client that inherits this client's options,
+   * interceptors, fragments, schema and caches; interceptors and fragments
+   * added to the derived client stay local to it
+   */
+  public extend(overrides: Partial<FetcheroOptions> = {}): Fetchero {
+    return new Fetchero(
+      {
+        ...this.options,
+        ...overrides,
+        headers: { ...this.headers, ...overrides.headers },
+        interceptors: overrides.interceptors,
+        fragments: overrides.fragments,
+        schema: overrides.schema,
+        cache: overrides.cache,
+        conditionalRequests: overrides.conditionalRequests,
+        normalizedCache: overrides.normalizedCache,
+      },
+      this
     );
   }
 
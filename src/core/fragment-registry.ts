@@ -0,0 +1,177 @@
+import { GraphQLLexer } from '../utils';
+
+export interface FragmentDefinition {
+  name: string;
+  source: string;
+}
+
+/**
+ * Registry of named fragments that are appended to documents spreading them
+ */
+export class FragmentRegistry {
+  private readonly definitions = new Map<string, FragmentDefinition>();
+
+  /**
+   * A registry created with a parent can use the parent's fragments, while
+   * fragments registered on the child never reach the parent.
+   */
+  constructor(private readonly parent?: FragmentRegistry) {}
+
+  /**
+   * Builds a registry from the `fragments` constructor option
+   */
+  static from(
+    fragments: string[] = [],
+    parent?: FragmentRegistry
+  ): FragmentRegistry {
+    if (!Array.isArray(fragments)) {
+      throw new Error('Fragments must be an array of fragment definitions');
+    }
+    return new FragmentRegistry(parent).register(...fragments);
+  }
+
+  /**
+   * Registers `fragment Name on Type { ... }` definitions; one source may
+   * hold several definitions
+   */
+  register(...sources: string[]): this {
+    sources
+      .map(source => FragmentRegistry.parse(source))
+      .reduce((all, parsed) => all.concat(parsed), [])
+      .forEach(definition => {
+        if (this.has(definition.name)) {
+          throw new Error(
+            `Fragment "${definition.name}" is already registered`
+          );
+        }
+        this.definitions.set(definition.name, definition);
+      });
+    return this;
+  }
+
+  /**
+   * Checks whether a fragment is registered here or on a parent
+   */
+  has(name: string): boolean {
+    return this.definitions.has(name) || !!this.parent?.has(name);
+  }
+
+  /**
+   * Returns the definition of a registered fragment
+   */
+  get(name: string): string | undefined {
+    return this.definitions.get(name)?.source ?? this.parent?.get(name);
+  }
+
+  /**
+   * Appends the definitions of every fragment the document spreads,
+   * including fragments spread by those fragments
+   */
+  resolve(document: string): string {
+    const defined = new Set(FragmentRegistry.scan(document).definitions);
+    const appended: string[] = [];
+
+    const visit = (source: string) => {
+      FragmentRegistry.scan(source).spreads.forEach(name => {
+        if (defined.has(name)) return;
+
+        const definition = this.get(name);
+        if (definition === undefined) {
+          throw new Error(`Unknown fragment "${name}"`);
+        }
+
+        defined.add(name);
+        appended.push(definition);
+        visit(definition);
+      });
+    };
+    visit(document);
+
+    // Definitions go on their own lines, so a trailing comment in the
+    // document cannot swallow them
+    return appended.length > 0 ? [document, ...appended].join('\n') : document;
+  }
+
+  /**
+   * Splits a source into fragment definitions, each kept as written
+   */
+  static parse(source: string): FragmentDefinition[] {
+    if (typeof source !== 'string' || !source.trim()) {
+      throw new Error('Fragment definition must be a non-empty string');
+    }
+
+    const lexer = new GraphQLLexer(source);
+    const definitions: FragmentDefinition[] = [];
+
+    while (!lexer.atEnd()) {
+      const start = lexer.peek().position;
+      const invalid = () =>
+        new Error(
+          `Invalid fragment definition: "${source.slice(start).trim()}"`
+        );
+
+      if (!lexer.accept('fragment') || lexer.peek().kind !== 'name') {
+        throw invalid();
+      }
+      const name = lexer.next().value;
+      if (name === 'on') {
+        throw new Error('Fragment name must not be "on"');
+      }
+      if (!lexer.accept('on') || lexer.peek().kind !== 'name') {
+        throw invalid();
+      }
+
+      // Directives may precede the selection set
+      while (!lexer.is('{')) {
+        if (lexer.atEnd()) throw invalid();
+        lexer.next();
+      }
+
+      let depth = 0;
+      let end: number;
+      do {
+        if (lexer.atEnd()) throw invalid();
+        const token = lexer.next();
+        if (token.kind === 'punctuator' && token.value === '{') depth++;
+        if (token.kind === 'punctuator' && token.value === '}') depth--;
+        end = token.position + 1;
+      } while (depth > 0);
+
+      definitions.push({ name, source: source.slice(start, end) });
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Names of the fragments a source defines and spreads, excluding inline
+   * fragments. Tokens are scanned so comments and strings are skipped.
+   */
+  private static scan(
+    source: string
+  ): { definitions: string[]; spreads: string[] } {
+    const lexer = new GraphQLLexer(source);
+    const definitions: string[] = [];
+    const spreads: string[] = [];
+
+    while (!lexer.atEnd()) {
+      const { kind, value } = lexer.next();
+      const name = lexer.peek();
+
+      if (kind === 'punctuator' && value === '...') {
+        if (name.kind === 'name' && name.value !== 'on') {
+          spreads.push(name.value);
+        }
+      } else if (
+        kind === 'name' &&
+        value === 'fragment' &&
+        name.kind === 'name' &&
+        lexer.peek(1).value === 'on'
+      ) {
+        definitions.push(name.value);
+      }
+    }
+
+    return { definitions, spreads };
+  }
+}
@@ -0,0 +1,147 @@
+import { BatchOptions, GraphQLRequest, GraphQLResponse } from '../types';
+import { ErrorHandler } from '../utils';
+import { HttpClient } from './http-client';
+
+interface QueuedOperation {
+  request: GraphQLRequest;
+  idempotent: boolean;
+  signal?: AbortSignal;
+  resolve: (response: GraphQLResponse) => void;
+}
+
+interface PendingBatch {
+  url: string;
+  headers: Record<string, string>;
+  operations: QueuedOperation[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface BatchedOperationOptions {
+  idempotent: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Collects GraphQL operations issued within a short window and sends them
+ * as one array POST. Only operations sent to the same URL with the same
+ * headers can share a request, so batches are kept per URL and headers.
+ */
+export class GraphQLBatcher {
+  private readonly window: number;
+  private readonly maxSize: number;
+  private readonly pending = new Map<string, PendingBatch>();
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    { window = 0, maxSize = 10 }: BatchOptions = {}
+  ) {
+    this.window = window;
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Queues an operation and resolves with its own response once the batch
+   * it joined has been answered
+   */
+  enqueue(
+    url: string,
+    headers: Record<string, string>,
+    request: GraphQLRequest,
+    { idempotent, signal }: BatchedOperationOptions
+  ): Promise<GraphQLResponse> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve(GraphQLBatcher.cancelled());
+        return;
+      }
+
+      const key = JSON.stringify([url, Object.entries(headers).sort()]);
+      let batch = this.pending.get(key);
+      if (!batch) {
+        batch = {
+          url,
+          headers,
+          operations: [],
+          timer: setTimeout(() => this.flush(key), this.window),
+        };
+        this.pending.set(key, batch);
+      }
+
+      const queued = batch.operations;
+      const operation: QueuedOperation = {
+        request,
+        idempotent,
+        signal,
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+      };
+      // Aborted operations leave the queue, or stop waiting for the batch
+      const onAbort = () => {
+        const index = queued.indexOf(operation);
+        if (index !== -1 && this.pending.get(key)?.operations === queued) {
+          queued.splice(index, 1);
+        }
+        operation.resolve(GraphQLBatcher.cancelled());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      queued.push(operation);
+      if (queued.length >= this.maxSize) this.flush(key);
+    });
+  }
+
+  /**
+   * Sends a pending batch. A single operation is sent as a regular request.
+   */
+  private async flush(key: string): Promise<void> {
+    const batch = this.pending.get(key);
+    if (!batch) return;
+
+    this.pending.delete(key);
+    clearTimeout(batch.timer);
+
+    const { url, headers, operations } = batch;
+    if (operations.length === 0) return;
+
+    const idempotent = operations.every(operation => operation.idempotent);
+
+    if (operations.length === 1) {
+      const [{ request, signal, resolve }] = operations;
+      resolve(
+        await this.httpClient.makeRequest(
+          { url, method: 'POST', headers, data: request, signal },
+          { idempotent }
+        )
+      );
+      return;
+    }
+
+    const responses = await this.httpClient.makeBatchRequest(
+      {
+        url,
+        method: 'POST',
+        headers,
+        data: operations.map(operation => operation.request),
+      },
+      { idempotent }
+    );
+    operations.forEach((operation, index) =>
+      operation.resolve(responses[index])
+    );
+  }
+
+  private static cancelled(): GraphQLResponse {
+    return {
+      data: null,
+      errors: [
+        ErrorHandler.makeErrorResponse({
+          code: ErrorHandler.CANCELLED_CODE,
+          message: 'Request cancelled',
+        }),
+      ],
+      meta: { status: ErrorHandler.CANCELLED_CODE, headers: {}, duration: 0 },
+    };
+  }
+}
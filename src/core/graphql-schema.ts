@@ -0,0 +1,383 @@
+import { IErrors, OperationType } from '../types';
+import { GraphQLLexer } from '../utils';
+import { DocumentValidator } from './document-validator';
+
+export type SchemaTypeKind =
+  | 'SCALAR'
+  | 'OBJECT'
+  | 'INTERFACE'
+  | 'UNION'
+  | 'ENUM'
+  | 'INPUT_OBJECT';
+
+/**
+ * Argument or input object field. `type` is written as in SDL, e.g. `[ID!]!`.
+ */
+export interface SchemaInputValue {
+  name: string;
+  type: string;
+  hasDefault: boolean;
+}
+
+export interface SchemaField {
+  name: string;
+  type: string;
+  args: Map<string, SchemaInputValue>;
+}
+
+export interface SchemaType {
+  name: string;
+  kind: SchemaTypeKind;
+  fields: Map<string, SchemaField>;
+  inputFields: Map<string, SchemaInputValue>;
+  enumValues: Set<string>;
+}
+
+interface IntrospectionTypeRef {
+  kind: string;
+  name?: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+interface IntrospectionInputValue {
+  name: string;
+  type: IntrospectionTypeRef;
+  defaultValue?: string | null;
+}
+
+interface IntrospectionType {
+  kind: SchemaTypeKind;
+  name: string;
+  fields?: Array<{
+    name: string;
+    args?: IntrospectionInputValue[];
+    type: IntrospectionTypeRef;
+  }> | null;
+  inputFields?: IntrospectionInputValue[] | null;
+  enumValues?: Array<{ name: string }> | null;
+}
+
+/**
+ * Result of an introspection query, with or without the `data` envelope
+ */
+export interface IntrospectionResult {
+  __schema: {
+    queryType?: { name: string } | null;
+    mutationType?: { name: string } | null;
+    subscriptionType?: { name: string } | null;
+    types: IntrospectionType[];
+  };
+}
+
+/**
+ * Type information of a GraphQL schema, as needed to validate documents:
+ * fields, arguments, input fields and enum values. Descriptions and
+ * directive definitions are ignored.
+ */
+export class GraphQLSchema {
+  /**
+   * Introspection query selecting what `fromIntrospection` reads
+   */
+  static readonly INTROSPECTION_QUERY =
+    'query IntrospectionQuery { __schema { queryType { name } mutationType { name } subscriptionType { name } types { kind name fields(includeDeprecated: true) { name args { ...InputValue } type { ...TypeRef } } inputFields { ...InputValue } enumValues(includeDeprecated: true) { name } } } } fragment InputValue on __InputValue { name defaultValue type { ...TypeRef } } fragment TypeRef on __Type { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } } } }';
+
+  private static readonly BUILT_IN_SCALARS = [
+    'Int',
+    'Float',
+    'String',
+    'Boolean',
+    'ID',
+  ];
+
+  private readonly types = new Map<string, SchemaType>();
+  private readonly roots: Partial<Record<OperationType, string>> = {};
+
+  private constructor() {
+    GraphQLSchema.BUILT_IN_SCALARS.forEach(name => this.define(name, 'SCALAR'));
+  }
+
+  /**
+   * Builds a schema from its SDL source
+   */
+  static fromSDL(sdl: string): GraphQLSchema {
+    if (typeof sdl !== 'string' || !sdl.trim()) {
+      throw new Error('Schema SDL must be a non-empty string');
+    }
+
+    const schema = new GraphQLSchema();
+    const lexer = new GraphQLLexer(sdl);
+    let explicitRoots = false;
+
+    while (!lexer.atEnd()) {
+      if (lexer.peek().kind === 'string') lexer.next();
+      lexer.accept('extend');
+
+      const keyword = lexer.expectName();
+      switch (keyword) {
+        case 'schema':
+          explicitRoots = true;
+          GraphQLSchema.skipDirectives(lexer);
+          if (lexer.accept('{')) {
+            while (!lexer.accept('}')) {
+              const operation = lexer.expectName() as OperationType;
+              lexer.expect(':');
+              schema.roots[operation] = lexer.expectName();
+            }
+          }
+          break;
+
+        case 'scalar':
+          schema.define(lexer.expectName(), 'SCALAR');
+          GraphQLSchema.skipDirectives(lexer);
+          break;
+
+        case 'type':
+        case 'interface': {
+          const type = schema.define(
+            lexer.expectName(),
+            keyword === 'type' ? 'OBJECT' : 'INTERFACE'
+          );
+          if (lexer.accept('implements')) {
+            lexer.accept('&');
+            do {
+              lexer.expectName();
+            } while (lexer.accept('&'));
+          }
+          GraphQLSchema.skipDirectives(lexer);
+          if (lexer.accept('{')) {
+            while (!lexer.accept('}')) {
+              const field = GraphQLSchema.parseField(lexer);
+              type.fields.set(field.name, field);
+            }
+          }
+          break;
+        }
+
+        case 'union':
+          schema.define(lexer.expectName(), 'UNION');
+          GraphQLSchema.skipDirectives(lexer);
+          if (lexer.accept('=')) {
+            lexer.accept('|');
+            do {
+              lexer.expectName();
+            } while (lexer.accept('|'));
+          }
+          break;
+
+        case 'enum': {
+          const type = schema.define(lexer.expectName(), 'ENUM');
+          GraphQLSchema.skipDirectives(lexer);
+          if (lexer.accept('{')) {
+            while (!lexer.accept('}')) {
+              if (lexer.peek().kind === 'string') lexer.next();
+              type.enumValues.add(lexer.expectName());
+              GraphQLSchema.skipDirectives(lexer);
+            }
+          }
+          break;
+        }
+
+        case 'input': {
+          const type = schema.define(lexer.expectName(), 'INPUT_OBJECT');
+          GraphQLSchema.skipDirectives(lexer);
+          if (lexer.accept('{')) {
+            while (!lexer.accept('}')) {
+              const field = GraphQLSchema.parseInputValue(lexer);
+              type.inputFields.set(field.name, field);
+            }
+          }
+          break;
+        }
+
+        case 'directive':
+          lexer.expect('@');
+          lexer.expectName();
+          GraphQLSchema.parseArguments(lexer);
+          lexer.accept('repeatable');
+          lexer.expect('on');
+          lexer.accept('|');
+          do {
+            lexer.expectName();
+          } while (lexer.accept('|'));
+          break;
+
+        default:
+          throw new Error(`Unsupported schema definition "${keyword}"`);
+      }
+    }
+
+    if (!explicitRoots) {
+      (['query', 'mutation', 'subscription'] as OperationType[]).forEach(
+        operation => {
+          const name = operation[0].toUpperCase() + operation.slice(1);
+          if (schema.types.has(name)) schema.roots[operation] = name;
+        }
+      );
+    }
+
+    return schema;
+  }
+
+  /**
+   * Builds a schema from the result of `INTROSPECTION_QUERY`
+   */
+  static fromIntrospection(
+    result: IntrospectionResult | { data: IntrospectionResult }
+  ): GraphQLSchema {
+    const introspection =
+      (result as { data?: IntrospectionResult })?.data ?? result;
+    const types = (introspection as IntrospectionResult)?.__schema?.types;
+    if (!Array.isArray(types)) {
+      throw new Error('Introspection result must contain "__schema.types"');
+    }
+
+    const schema = new GraphQLSchema();
+    const { __schema } = introspection as IntrospectionResult;
+    schema.roots.query = __schema.queryType?.name;
+    schema.roots.mutation = __schema.mutationType?.name;
+    schema.roots.subscription = __schema.subscriptionType?.name;
+
+    const toInputValue = (value: IntrospectionInputValue) => ({
+      name: value.name,
+      type: GraphQLSchema.printTypeRef(value.type),
+      hasDefault: value.defaultValue != null,
+    });
+
+    types.forEach(({ kind, name, fields, inputFields, enumValues }) => {
+      const type = schema.define(name, kind);
+      (fields || []).forEach(field =>
+        type.fields.set(field.name, {
+          name: field.name,
+          type: GraphQLSchema.printTypeRef(field.type),
+          args: new Map(
+            (field.args || []).map(arg => [arg.name, toInputValue(arg)])
+          ),
+        })
+      );
+      (inputFields || []).forEach(field =>
+        type.inputFields.set(field.name, toInputValue(field))
+      );
+      (enumValues || []).forEach(value => type.enumValues.add(value.name));
+    });
+
+    return schema;
+  }
+
+  /**
+   * Validates an executable document, returning its errors in the GraphQL
+   * error shape; empty when the document is valid
+   */
+  validate(document: string): IErrors[] {
+    return new DocumentValidator(this).validate(document);
+  }
+
+  /**
+   * Returns a named type, ignoring list and non-null wrappers
+   */
+  getType(type: string): SchemaType | undefined {
+    return this.types.get(GraphQLSchema.namedType(type));
+  }
+
+  /**
+   * Returns the root type of an operation, if the schema defines one
+   */
+  getRootType(operation: OperationType): SchemaType | undefined {
+    const name = this.roots[operation];
+    return name === undefined ? undefined : this.types.get(name);
+  }
+
+  /**
+   * Strips list and non-null wrappers, e.g. `[User!]!` becomes `User`
+   */
+  static namedType(type: string): string {
+    return type.replace(/[[\]!]/g, '');
+  }
+
+  private define(name: string, kind: SchemaTypeKind): SchemaType {
+    let type = this.types.get(name);
+    if (!type) {
+      type = {
+        name,
+        kind,
+        fields: new Map(),
+        inputFields: new Map(),
+        enumValues: new Set(),
+      };
+      this.types.set(name, type);
+    }
+    return type;
+  }
+
+  private static parseField(lexer: GraphQLLexer): SchemaField {
+    if (lexer.peek().kind === 'string') lexer.next();
+    const name = lexer.expectName();
+    const args = new Map(
+      GraphQLSchema.parseArguments(lexer).map(arg => [arg.name, arg])
+    );
+    lexer.expect(':');
+    const type = lexer.expectType();
+    GraphQLSchema.skipDirectives(lexer);
+    return { name, type, args };
+  }
+
+  private static parseArguments(lexer: GraphQLLexer): SchemaInputValue[] {
+    const args: SchemaInputValue[] = [];
+    if (lexer.accept('(')) {
+      while (!lexer.accept(')')) {
+        args.push(GraphQLSchema.parseInputValue(lexer));
+      }
+    }
+    return args;
+  }
+
+  private static parseInputValue(lexer: GraphQLLexer): SchemaInputValue {
+    if (lexer.peek().kind === 'string') lexer.next();
+    const name = lexer.expectName();
+    lexer.expect(':');
+    const type = lexer.expectType();
+    const hasDefault = lexer.accept('=');
+    if (hasDefault) GraphQLSchema.skipValue(lexer);
+    GraphQLSchema.skipDirectives(lexer);
+    return { name, type, hasDefault };
+  }
+
+  private static skipDirectives(lexer: GraphQLLexer): void {
+    while (lexer.accept('@')) {
+      lexer.expectName();
+      if (lexer.accept('(')) {
+        while (!lexer.accept(')')) {
+          lexer.expectName();
+          lexer.expect(':');
+          GraphQLSchema.skipValue(lexer);
+        }
+      }
+    }
+  }
+
+  private static skipValue(lexer: GraphQLLexer): void {
+    if (lexer.accept('[')) {
+      while (!lexer.accept(']')) GraphQLSchema.skipValue(lexer);
+    } else if (lexer.accept('{')) {
+      while (!lexer.accept('}')) {
+        lexer.expectName();
+        lexer.expect(':');
+        GraphQLSchema.skipValue(lexer);
+      }
+    } else {
+      lexer.accept('$');
+      if (lexer.atEnd()) throw lexer.error('Expected a value');
+      lexer.next();
+    }
+  }
+
+  private static printTypeRef(ref: IntrospectionTypeRef): string {
+    switch (ref.kind) {
+      case 'NON_NULL':
+        return `${GraphQLSchema.printTypeRef(ref.ofType!)}!`;
+      case 'LIST':
+        return `[${GraphQLSchema.printTypeRef(ref.ofType!)}]`;
+      default:
+        return ref.name as string;
+    }
+  }
+}
@@ -1,6 +1,31 @@
-import axios, { AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
-import { FetcherResponse, FetcheroOptions } from '../types';
-import { ErrorHandler } from '../utils';
+import axios, {
+  AxiosRequestConfig,
+  AxiosResponse,
+  AxiosError,
+  GenericAbortSignal,
+} from 'axios';
+import {
+  FetcherResponse,
+  FetcheroOptions,
+  HttpClientOptions,
+  HttpRequestOptions,
+  ResponseContext,
+  ResponseMeta,
+  RetryOptions,
+} from '../types';
+import {
+  ErrorHandler,
+  HeaderNormalizer,
+  RetryPolicy,
+  Validators,
+} from '../utils';
+import { ResolvedRetryOptions } from '../utils/retry-policy';
+import { InterceptorManager } from './interceptor-manager';
+
+interface GraphQLPayload<T> {
+  data?: T;
+  errors?: any[];
+}
 
 /**
  * Core HTTP client functionality
@@ -8,24 +33,76 @@ import { ErrorHandler } from '../utils';
 export class HttpClient {
   private readonly baseUrl: string;
   private readonly headers: Record<string, string>;
-  private readonly interceptors?: FetcheroOptions['interceptors'];
+  private readonly retry?: RetryOptions;
+  private readonly dedupe: boolean;
+  private readonly inFlight = new Map<string, Promise<FetcherResponse>>();
+  readonly interceptors: InterceptorManager;
 
   constructor(
     baseUrl: string,
     headers: Record<string, string>,
-    interceptors?: FetcheroOptions['interceptors']
+    interceptors?: FetcheroOptions['interceptors'] | InterceptorManager,
+    { retry, dedupe = true }: HttpClientOptions = {}
   ) {
     this.baseUrl = baseUrl;
     this.headers = headers;
-    this.interceptors = interceptors;
+    this.interceptors =
+      interceptors instanceof InterceptorManager
+        ? interceptors
+        : InterceptorManager.from(interceptors);
+    this.retry = retry;
+    this.dedupe = dedupe;
   }
 
   /**
-   * Enhanced HTTP request handler with better error handling and performance
+   * Enhanced HTTP request handler with better error handling and performance.
+   * Callers of an identical request still in flight share its response.
    */
-  async makeRequest<T = unknown>(
-    config: AxiosRequestConfig
+  makeRequest<T = unknown>(
+    config: AxiosRequestConfig,
+    options: HttpRequestOptions = {}
+  ): Promise<FetcherResponse<T>> {
+    return this.share(config, options, true);
+  }
+
+  /**
+   * Sends a request whose config already went through `prepareRequest`,
+   * for callers that need the final config first, e.g. to key a cache on
+   * headers set by interceptors
+   */
+  makePreparedRequest<T = unknown>(
+    config: AxiosRequestConfig,
+    options: HttpRequestOptions = {}
+  ): Promise<FetcherResponse<T>> {
+    return this.share(config, options, false);
+  }
+
+  private share<T>(
+    config: AxiosRequestConfig,
+    options: HttpRequestOptions,
+    prepare: boolean
   ): Promise<FetcherResponse<T>> {
+    const key = this.getDedupeKey(config, options);
+    if (key === undefined) return this.execute<T>(config, options, prepare);
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<FetcherResponse<T>>;
+
+    const request = this.execute<T>(config, options, prepare).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async execute<T>(
+    config: AxiosRequestConfig,
+    options: HttpRequestOptions,
+    prepare: boolean
+  ): Promise<FetcherResponse<T>> {
+    let finalConfig = config;
+    let startedAt = Date.now();
+
     try {
       // Validate config
       if (!config.url) {
@@ -36,52 +113,312 @@ export class HttpClient {
         // todo: will handle on next phase
       }
 
-      // Apply request interceptor
-      const finalConfig = this.interceptors?.request
-        ? await this.interceptors.request(config)
-        : config;
+      if (prepare) finalConfig = await this.prepareRequest(config);
 
       // Add timeout if not specified
       if (!finalConfig.timeout) {
         finalConfig.timeout = 30000; // 30 seconds default
       }
 
-      // Execute request
-      const result: AxiosResponse<{ data: T; errors?: any[] }> = await axios(
-        finalConfig
+      // Execute request, retrying transient failures
+      startedAt = Date.now();
+      const result = await this.send<GraphQLPayload<T>>(
+        finalConfig,
+        RetryPolicy.resolve(this.retry, options.retry),
+        options.idempotent ?? RetryPolicy.isIdempotent(finalConfig.method)
       );
 
-      // Safely extract response data
-      const { data: responseData, errors } = result.data || {};
-
-      // Build response object
-      const response: FetcherResponse<T> = {
-        data: responseData ?? null,
+      const meta: ResponseMeta = {
+        status: result.status,
+        headers: HeaderNormalizer.normalize(result.headers),
+        duration: Date.now() - startedAt,
       };
 
-      // Handle GraphQL errors with improved error processing
-      if (errors && Array.isArray(errors) && errors.length > 0) {
-        response.errors = errors.map(error => ErrorHandler.compose(error));
+      return await this.intercept(this.toResponse<T>(result.data, meta), {
+        ...meta,
+        config: finalConfig,
+        raw: result,
+      });
+    } catch (err) {
+      return this.recover<T>(err, finalConfig, startedAt);
+    }
+  }
+
+  /**
+   * Sends several GraphQL operations as one array POST and returns one
+   * response per operation. Request interceptors run once for the batch,
+   * response interceptors once per operation. A failed batch yields the
+   * same error response for every operation.
+   */
+  async makeBatchRequest<T = unknown>(
+    config: AxiosRequestConfig,
+    options: HttpRequestOptions = {}
+  ): Promise<FetcherResponse<T>[]> {
+    const count = (config.data as unknown[]).length;
+    let finalConfig = config;
+    let startedAt = Date.now();
+
+    try {
+      finalConfig = await this.prepareRequest(config);
+      if (!finalConfig.timeout) {
+        finalConfig.timeout = 30000;
       }
 
-      // Apply response interceptor
-      return this.interceptors?.response
-        ? await this.interceptors.response(result)
-        : response;
+      startedAt = Date.now();
+      const result = await this.send<GraphQLPayload<T>[]>(
+        finalConfig,
+        RetryPolicy.resolve(this.retry, options.retry),
+        options.idempotent ?? RetryPolicy.isIdempotent(finalConfig.method)
+      );
+
+      if (!Array.isArray(result.data) || result.data.length !== count) {
+        throw new Error(
+          'Batched response must be an array with one result per operation'
+        );
+      }
+
+      const meta: ResponseMeta = {
+        status: result.status,
+        headers: HeaderNormalizer.normalize(result.headers),
+        duration: Date.now() - startedAt,
+      };
+      const context: ResponseContext = {
+        ...meta,
+        config: finalConfig,
+        raw: result,
+      };
+
+      return await Promise.all(
+        result.data.map(payload =>
+          this.intercept(this.toResponse<T>(payload, meta), context)
+        )
+      );
     } catch (err) {
-      return this.handleRequestError(err);
+      const response = await this.recover<T>(err, finalConfig, startedAt);
+      return Array.from({ length: count }, () => response);
+    }
+  }
+
+  /**
+   * Applies request interceptors in priority order. Also used by requests
+   * that bypass axios, such as event streams.
+   */
+  async prepareRequest(
+    config: AxiosRequestConfig
+  ): Promise<AxiosRequestConfig> {
+    let finalConfig = config;
+    for (const interceptor of this.interceptors.request.handlers()) {
+      finalConfig = await interceptor(finalConfig);
+    }
+    return finalConfig;
+  }
+
+  /**
+   * Identifies a request that may share the response of an identical one:
+   * GET and HEAD requests, and others the caller marks as both idempotent
+   * and dedupable, like POSTed GraphQL queries. Requests with their own
+   * abort signal are never shared, as aborting would cancel them for all.
+   */
+  private getDedupeKey(
+    config: AxiosRequestConfig,
+    { dedupe, idempotent }: HttpRequestOptions
+  ): string | undefined {
+    if (!this.dedupe || dedupe === false || config.signal) return undefined;
+
+    const method = (config.method || 'GET').toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD' && !(dedupe && idempotent)) {
+      return undefined;
+    }
+
+    const headers = HeaderNormalizer.normalize(config.headers);
+    return JSON.stringify([
+      method,
+      config.url,
+      config.params ?? null,
+      config.data ?? null,
+      Object.keys(headers)
+        .sort()
+        .map(name => [name, headers[name]]),
+    ]);
+  }
+
+  /**
+   * Builds a response from a `{ data, errors }` payload
+   */
+  private toResponse<T>(
+    payload: GraphQLPayload<T> | undefined,
+    meta: ResponseMeta
+  ): FetcherResponse<T> {
+    // Safely extract response data
+    const { data: responseData, errors } = payload || {};
+
+    // Build response object
+    const response: FetcherResponse<T> = {
+      data: responseData ?? null,
+    };
+
+    // Handle GraphQL errors with improved error processing
+    if (errors && Array.isArray(errors) && errors.length > 0) {
+      response.errors = errors.map(error => ErrorHandler.compose(error));
+    }
+    response.meta = meta;
+    return response;
+  }
+
+  /**
+   * Applies response interceptors, each receiving the previous result
+   */
+  private async intercept<T>(
+    response: FetcherResponse<T>,
+    context: ResponseContext
+  ): Promise<FetcherResponse<T>> {
+    let intercepted = response;
+    for (const interceptor of this.interceptors.response.handlers()) {
+      intercepted = await interceptor(intercepted, context);
+      Validators.validateFetcherResponse(intercepted);
     }
+    return intercepted.meta
+      ? intercepted
+      : { ...intercepted, meta: response.meta };
+  }
+
+  /**
+   * Runs error interceptors, which may recover or rewrite the failure,
+   * before normalising whatever error remains
+   */
+  private async recover<T>(
+    err: unknown,
+    config: AxiosRequestConfig,
+    startedAt: number
+  ): Promise<FetcherResponse<T>> {
+    let error = err;
+
+    for (const interceptor of this.interceptors.error.handlers()) {
+      try {
+        const recovered = await interceptor(error, config);
+        if (recovered) {
+          return recovered.meta
+            ? recovered
+            : { ...recovered, meta: this.buildErrorMeta(error, startedAt) };
+        }
+      } catch (rewritten) {
+        error = rewritten;
+      }
+    }
+
+    return this.handleRequestError(error, startedAt);
+  }
+
+  /**
+   * Sends the request, repeating it with backoff while the policy allows
+   */
+  private async send<R>(
+    config: AxiosRequestConfig,
+    retry: ResolvedRetryOptions | null,
+    idempotent: boolean
+  ): Promise<AxiosResponse<R>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await axios(config);
+      } catch (err) {
+        const error = err as AxiosError;
+        const context = {
+          attempt,
+          method: (config.method || 'GET').toUpperCase(),
+          status: error.response?.status,
+          code: error.code,
+          error: err,
+        };
+
+        if (
+          !retry ||
+          this.isCancellation(err) ||
+          !RetryPolicy.shouldRetry(retry, context, idempotent)
+        ) {
+          throw err;
+        }
+
+        const retryAfter = error.response?.headers?.['retry-after'];
+        await this.wait(
+          RetryPolicy.getDelay(retry, attempt, retryAfter),
+          config.signal
+        );
+      }
+    }
+  }
+
+  /**
+   * Waits between attempts, bailing out early when the request is aborted
+   */
+  private wait(ms: number, signal?: GenericAbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cancelled = () =>
+        Object.assign(new Error('canceled'), {
+          name: 'CanceledError',
+          code: 'ERR_CANCELED',
+        });
+
+      if (signal?.aborted) {
+        reject(cancelled());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener?.('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener?.('abort', onAbort);
+    });
+  }
+
+  /**
+   * Checks whether a failure was caused by aborting the request
+   */
+  private isCancellation(err: unknown): boolean {
+    const error = err as { code?: string; name?: string } | null;
+    return (
+      error?.code === 'ERR_CANCELED' ||
+      error?.name === 'CanceledError' ||
+      error?.name === 'AbortError'
+    );
   }
 
   /**
    * Enhanced error handling with better error categorization
    */
-  private handleRequestError<T = unknown>(err: unknown): FetcherResponse<T> {
+  private handleRequestError<T = unknown>(
+    err: unknown,
+    startedAt: number
+  ): FetcherResponse<T> {
     const error = err as AxiosError<{ message?: string; error?: string }>;
+    const meta = this.buildErrorMeta(err, startedAt);
+
+    // Cancellation is reported distinctly so callers can ignore it
+    if (this.isCancellation(err)) {
+      return {
+        data: null,
+        errors: [
+          ErrorHandler.makeErrorResponse({
+            code: meta.status,
+            message: 'Request cancelled',
+          }),
+        ],
+        meta,
+      };
+    }
 
-    // Determine error status and message
-    const status =
-      error.response?.status ?? (error.code === 'ECONNABORTED' ? 408 : 500);
+    // GraphQL servers may answer failed operations with a 4xx status and a
+    // `{ data, errors }` body, e.g. PERSISTED_QUERY_NOT_FOUND, whose errors
+    // say more than the status does
+    const payload = error.response?.data as GraphQLPayload<T> | undefined;
+    if (Array.isArray(payload?.errors) && payload?.errors.length) {
+      return this.toResponse(payload, meta);
+    }
 
     let message: string;
     if (error.response?.data?.message) {
@@ -98,7 +435,29 @@ export class HttpClient {
 
     return {
       data: null,
-      errors: [ErrorHandler.makeErrorResponse({ code: status, message })],
+      errors: [ErrorHandler.makeErrorResponse({ code: meta.status, message })],
+      meta,
+    };
+  }
+
+  /**
+   * Derives response metadata from a failure
+   */
+  private buildErrorMeta(err: unknown, startedAt: number): ResponseMeta {
+    const error = err as AxiosError | null;
+
+    let status: number;
+    if (this.isCancellation(err)) {
+      status = ErrorHandler.CANCELLED_CODE;
+    } else {
+      status =
+        error?.response?.status ?? (error?.code === 'ECONNABORTED' ? 408 : 500);
+    }
+
+    return {
+      status,
+      headers: HeaderNormalizer.normalize(error?.response?.headers),
+      duration: Date.now() - startedAt,
     };
   }
 }
@@ -1,2 +1,13 @@
 export { Fetchero } from './fetchero';
 export { HttpClient } from './http-client';
+export { InterceptorManager, InterceptorStage } from './interceptor-manager';
+export { EventStream } from './event-stream';
+export { FragmentRegistry } from './fragment-registry';
+export { GraphQLBatcher } from './graphql-batcher';
+export { PersistedQueries } from './persisted-queries';
+export { GraphQLSchema } from './graphql-schema';
+export { SchemaLoader } from './schema-loader';
+export { ResponseCache } from './response-cache';
+export { ConditionalRequests } from './conditional-requests';
+export { NormalizedCache } from './normalized-cache';
+export { QueryWatcher } from './query-watcher';
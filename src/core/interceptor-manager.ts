@@ -0,0 +1,104 @@
+import {
+  ErrorInterceptor,
+  FetcheroOptions,
+  InterceptorOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+} from '../types';
+
+interface InterceptorEntry<H> {
+  id: number;
+  handler: H;
+  priority: number;
+}
+
+let nextInterceptorId = 0;
+
+/**
+ * Ordered registry of interceptors for a single pipeline stage
+ */
+export class InterceptorStage<H> {
+  private entries: InterceptorEntry<H>[] = [];
+
+  constructor(private readonly parent?: InterceptorStage<H>) {}
+
+  /**
+   * Registers an interceptor and returns its id for later removal.
+   * Higher priorities run first; equal priorities run in registration order.
+   */
+  use(handler: H, { priority = 0 }: InterceptorOptions = {}): number {
+    if (typeof handler !== 'function') {
+      throw new Error('Interceptor must be a function');
+    }
+
+    const id = ++nextInterceptorId;
+    this.entries.push({ id, handler, priority });
+    return id;
+  }
+
+  /**
+   * Removes an interceptor registered on this stage.
+   * Interceptors inherited from a parent client are left untouched.
+   */
+  eject(id: number): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    return this.entries.length !== before;
+  }
+
+  /**
+   * Removes every interceptor registered on this stage
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Returns inherited and own handlers in execution order
+   */
+  handlers(): H[] {
+    return this.collect()
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => b.entry.priority - a.entry.priority || a.index - b.index)
+      .map(({ entry }) => entry.handler);
+  }
+
+  private collect(): InterceptorEntry<H>[] {
+    return [...(this.parent?.collect() ?? []), ...this.entries];
+  }
+}
+
+/**
+ * Interceptor registry shared by the REST and GraphQL clients
+ */
+export class InterceptorManager {
+  readonly request: InterceptorStage<RequestInterceptor>;
+  readonly response: InterceptorStage<ResponseInterceptor>;
+  readonly error: InterceptorStage<ErrorInterceptor>;
+
+  /**
+   * A manager created with a parent inherits its interceptors, while
+   * interceptors added to the child never reach the parent.
+   */
+  constructor(parent?: InterceptorManager) {
+    this.request = new InterceptorStage(parent?.request);
+    this.response = new InterceptorStage(parent?.response);
+    this.error = new InterceptorStage(parent?.error);
+  }
+
+  /**
+   * Builds a manager from the `interceptors` constructor option
+   */
+  static from(
+    interceptors: FetcheroOptions['interceptors'] = {},
+    parent?: InterceptorManager
+  ): InterceptorManager {
+    const manager = new InterceptorManager(parent);
+
+    if (interceptors.request) manager.request.use(interceptors.request);
+    if (interceptors.response) manager.response.use(interceptors.response);
+    if (interceptors.error) manager.error.use(interceptors.error);
+
+    return manager;
+  }
+}
@@ -0,0 +1,486 @@
+import {
+  FetchPolicy,
+  GraphQLRequest,
+  GraphQLResponse,
+  NormalizedCacheOptions,
+} from '../types';
+import { GraphQLDocuments, GraphQLParser } from '../utils';
+import {
+  ArgumentNode,
+  DirectiveNode,
+  FragmentNode,
+  OperationNode,
+  ParsedDocument,
+  SelectionNode,
+  ValueNode,
+} from '../utils/graphql-parser';
+
+type StoreRecord = Record<string, unknown>;
+
+/**
+ * Reference to an entity stored in place of the object itself
+ */
+class EntityRef {
+  constructor(readonly id: string) {}
+}
+
+interface Execution {
+  variables: Record<string, unknown>;
+  fragments: Map<string, FragmentNode>;
+}
+
+/**
+ * Stores GraphQL results as entities keyed by `__typename` and `id`, so
+ * every query and mutation selecting an object updates the same record.
+ * Fields are stored under their name and arguments, which lets queries be
+ * answered from records written by other operations.
+ */
+export class NormalizedCache {
+  static readonly ROOT_QUERY = 'ROOT_QUERY';
+  static readonly CACHE_MISS = 'CACHE_MISS';
+  private static readonly MAX_DOCUMENTS = 100;
+
+  readonly fetchPolicy: FetchPolicy;
+  private readonly entities = new Map<string, StoreRecord>();
+  private readonly documents = new Map<string, ParsedDocument | null>();
+  private readonly watchers = new Set<() => void>();
+
+  constructor(private readonly options: NormalizedCacheOptions = {}) {
+    this.fetchPolicy = options.fetchPolicy ?? 'cache-first';
+  }
+
+  /**
+   * Returns the cache id of an object, or undefined when it cannot be
+   * identified and is stored inside its parent
+   */
+  identify(object: Record<string, unknown>): string | undefined {
+    if (this.options.dataId) return this.options.dataId(object);
+
+    const { __typename, id } = object;
+    return typeof __typename === 'string' && id != null
+      ? `${__typename}:${id}`
+      : undefined;
+  }
+
+  /**
+   * Prepares a document before it is sent, adding `__typename` to its
+   * selection sets unless `addTypename` is off
+   */
+  transform(query: string): string {
+    if (this.options.addTypename === false) return query;
+    try {
+      return GraphQLDocuments.addTypename(query);
+    } catch {
+      return query;
+    }
+  }
+
+  /**
+   * Answers a query from the cache, or returns undefined when any field it
+   * selects is missing
+   */
+  read(request: GraphQLRequest): GraphQLResponse | undefined {
+    const found = this.getOperation(request);
+    if (!found || found.operation.operation !== 'query') return undefined;
+
+    const root = this.entities.get(NormalizedCache.ROOT_QUERY);
+    if (!root) return undefined;
+
+    const data = this.readSelections(
+      found.operation.selections,
+      root,
+      found.execution
+    );
+    return data === undefined ? undefined : { data };
+  }
+
+  /**
+   * Stores the result of a query or mutation. Responses with errors are
+   * not stored, as their data may be partial.
+   */
+  write(request: GraphQLRequest, response: GraphQLResponse): void {
+    const { data, errors } = response;
+    if (errors?.length || !NormalizedCache.isObject(data)) return;
+
+    const found = this.getOperation(request);
+    if (!found || found.operation.operation === 'subscription') return;
+
+    // Mutation root fields are not stored, only the entities they return
+    let root: StoreRecord = {};
+    if (found.operation.operation === 'query') {
+      root = this.entities.get(NormalizedCache.ROOT_QUERY) ?? {};
+      this.entities.set(NormalizedCache.ROOT_QUERY, root);
+    }
+    this.writeSelections(
+      found.operation.selections,
+      data,
+      root,
+      found.execution
+    );
+    this.notify();
+  }
+
+  /**
+   * Removes an entity; queries selecting it miss until it is fetched again
+   */
+  evict(id: string): boolean {
+    const evicted = this.entities.delete(id);
+    if (evicted) this.notify();
+    return evicted;
+  }
+
+  /**
+   * Removes every entity
+   */
+  clear(): void {
+    this.entities.clear();
+    this.notify();
+  }
+
+  /**
+   * Calls `listener` whenever the answer to a query changes, with the new
+   * one, or without one when the query stops being answered from the
+   * cache. Returns a function removing the listener.
+   */
+  watch(
+    request: GraphQLRequest,
+    listener: (response?: GraphQLResponse) => void
+  ): () => void {
+    let snapshot = JSON.stringify(this.read(request) ?? null);
+    const check = () => {
+      const response = this.read(request);
+      const next = JSON.stringify(response ?? null);
+      if (next === snapshot) return;
+      snapshot = next;
+      listener(response);
+    };
+
+    this.watchers.add(check);
+    return () => {
+      this.watchers.delete(check);
+    };
+  }
+
+  /**
+   * Re-reads every watched query after the store changed
+   */
+  private notify(): void {
+    Array.from(this.watchers).forEach(check => check());
+  }
+
+  private readSelections(
+    selections: SelectionNode[],
+    record: StoreRecord,
+    execution: Execution
+  ): StoreRecord | undefined {
+    const result: StoreRecord = {};
+
+    for (const selection of selections) {
+      if (!NormalizedCache.isIncluded(selection.directives, execution)) {
+        continue;
+      }
+
+      if (selection.kind === 'Field') {
+        const key = NormalizedCache.storageKey(
+          selection.name,
+          selection.args,
+          execution
+        );
+        if (!(key in record)) return undefined;
+
+        const value = this.readValue(
+          record[key],
+          selection.selections,
+          execution
+        );
+        if (value === undefined) return undefined;
+        NormalizedCache.merge(result, selection.alias ?? selection.name, value);
+        continue;
+      }
+
+      const fragment =
+        selection.kind === 'FragmentSpread'
+          ? execution.fragments.get(selection.name)
+          : selection;
+      if (!fragment) return undefined;
+
+      const fields = this.readSelections(
+        fragment.selections,
+        record,
+        execution
+      );
+      // Without the schema, a fragment on another type may still apply
+      // through an interface or union, so it only has to be complete
+      // when its type matches
+      const matches =
+        fragment.typeCondition === undefined ||
+        fragment.typeCondition === record.__typename;
+      if (!fields && matches) return undefined;
+      if (fields) {
+        Object.keys(fields).forEach(key =>
+          NormalizedCache.merge(result, key, fields[key])
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private readValue(
+    value: unknown,
+    selections: SelectionNode[] | undefined,
+    execution: Execution
+  ): unknown {
+    if (Array.isArray(value)) {
+      const items = value.map(item =>
+        this.readValue(item, selections, execution)
+      );
+      return items.includes(undefined) ? undefined : items;
+    }
+    if (value instanceof EntityRef) {
+      const entity = this.entities.get(value.id);
+      return entity && selections
+        ? this.readSelections(selections, entity, execution)
+        : undefined;
+    }
+    if (selections && NormalizedCache.isObject(value)) {
+      return this.readSelections(selections, value, execution);
+    }
+    return value;
+  }
+
+  private writeSelections(
+    selections: SelectionNode[],
+    data: StoreRecord,
+    record: StoreRecord,
+    execution: Execution
+  ): void {
+    selections.forEach(selection => {
+      if (!NormalizedCache.isIncluded(selection.directives, execution)) {
+        return;
+      }
+
+      if (selection.kind === 'Field') {
+        const value = data[selection.alias ?? selection.name];
+        if (value === undefined) return;
+
+        const key = NormalizedCache.storageKey(
+          selection.name,
+          selection.args,
+          execution
+        );
+        record[key] = this.writeValue(
+          value,
+          selection.selections,
+          record[key],
+          execution
+        );
+        return;
+      }
+
+      // Fields of fragments on other types are absent from the data, so
+      // they are skipped like any unfetched field
+      const fragment =
+        selection.kind === 'FragmentSpread'
+          ? execution.fragments.get(selection.name)
+          : selection;
+      if (fragment) {
+        this.writeSelections(fragment.selections, data, record, execution);
+      }
+    });
+  }
+
+  private writeValue(
+    value: unknown,
+    selections: SelectionNode[] | undefined,
+    existing: unknown,
+    execution: Execution
+  ): unknown {
+    if (!selections) return value;
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.writeValue(
+          item,
+          selections,
+          Array.isArray(existing) ? existing[index] : undefined,
+          execution
+        )
+      );
+    }
+    if (!NormalizedCache.isObject(value)) return value;
+
+    const id = this.identify(value);
+    if (id !== undefined) {
+      const entity = this.entities.get(id) ?? {};
+      this.entities.set(id, entity);
+      this.writeSelections(selections, value, entity, execution);
+      return new EntityRef(id);
+    }
+
+    // Objects without an id are merged with the one previously stored
+    // at the same field
+    const record = NormalizedCache.isObject(existing) ? { ...existing } : {};
+    this.writeSelections(selections, value, record, execution);
+    return record;
+  }
+
+  /**
+   * Finds the operation of a request, with the variables its arguments
+   * resolve against; undefined when the document cannot be parsed
+   */
+  private getOperation(
+    request: GraphQLRequest
+  ): { operation: OperationNode; execution: Execution } | undefined {
+    const { query } = request;
+    if (!query) return undefined;
+
+    let document = this.documents.get(query);
+    if (document === undefined) {
+      try {
+        document = GraphQLParser.parse(query);
+      } catch {
+        document = null;
+      }
+      if (this.documents.size >= NormalizedCache.MAX_DOCUMENTS) {
+        this.documents.clear();
+      }
+      this.documents.set(query, document);
+    }
+    if (!document) return undefined;
+
+    const { operations, fragments } = document;
+    const operation =
+      request.operationName === undefined
+        ? operations.length === 1
+          ? operations[0]
+          : undefined
+        : operations.find(({ name }) => name === request.operationName);
+    if (!operation) return undefined;
+
+    const variables: Record<string, unknown> = {};
+    operation.defaultValues.forEach((value, name) => {
+      variables[name] = NormalizedCache.resolve(value, {});
+    });
+    Object.assign(variables, request.variables);
+    return { operation, execution: { variables, fragments } };
+  }
+
+  /**
+   * Key a field is stored under, e.g. `user({"id":"1"})`
+   */
+  private static storageKey(
+    name: string,
+    args: ArgumentNode[],
+    execution: Execution
+  ): string {
+    const values: StoreRecord = {};
+    args.forEach(arg => {
+      const value = NormalizedCache.resolve(arg.value, execution.variables);
+      if (value !== undefined) values[arg.name] = value;
+    });
+    return Object.keys(values).length > 0
+      ? `${name}(${NormalizedCache.stringify(values)})`
+      : name;
+  }
+
+  /**
+   * Evaluates `@skip` and `@include`
+   */
+  private static isIncluded(
+    directives: DirectiveNode[],
+    execution: Execution
+  ): boolean {
+    return directives.every(({ name, args }) => {
+      if (name !== 'skip' && name !== 'include') return true;
+      const condition = args.find(arg => arg.name === 'if');
+      const value = condition
+        ? NormalizedCache.resolve(condition.value, execution.variables)
+        : undefined;
+      return name === 'skip' ? value !== true : value !== false;
+    });
+  }
+
+  /**
+   * Turns an argument value into JSON; unset variables are undefined
+   */
+  private static resolve(
+    value: ValueNode,
+    variables: Record<string, unknown>
+  ): unknown {
+    switch (value.kind) {
+      case 'Variable':
+        return variables[value.name];
+      case 'Int':
+      case 'Float':
+        return Number(value.value);
+      case 'Boolean':
+        return value.value === 'true';
+      case 'Null':
+        return null;
+      case 'List':
+        return value.values.map(item =>
+          NormalizedCache.resolve(item, variables)
+        );
+      case 'Object':
+        return value.fields.reduce((object, field) => {
+          const resolved = NormalizedCache.resolve(field.value, variables);
+          if (resolved !== undefined) object[field.name] = resolved;
+          return object;
+        }, {} as StoreRecord);
+      default:
+        return value.value;
+    }
+  }
+
+  /**
+   * JSON with sorted object keys, so argument order does not matter
+   */
+  private static stringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(NormalizedCache.stringify).join(',')}]`;
+    }
+    if (NormalizedCache.isObject(value)) {
+      return `{${Object.keys(value)
+        .sort()
+        .map(
+          key =>
+            `${JSON.stringify(key)}:${NormalizedCache.stringify(value[key])}`
+        )
+        .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  /**
+   * Sets a response field, merging the objects of fields selected twice
+   */
+  private static merge(target: StoreRecord, key: string, value: unknown): void {
+    const current = target[key];
+    if (NormalizedCache.isObject(current) && NormalizedCache.isObject(value)) {
+      const merged = { ...current };
+      Object.keys(value).forEach(field =>
+        NormalizedCache.merge(merged, field, value[field])
+      );
+      target[key] = merged;
+    } else if (
+      Array.isArray(current) &&
+      Array.isArray(value) &&
+      current.length === value.length
+    ) {
+      target[key] = current.map((item, index) => {
+        const holder: StoreRecord = { item };
+        NormalizedCache.merge(holder, 'item', value[index]);
+        return holder.item;
+      });
+    } else {
+      target[key] = value;
+    }
+  }
+
+  private static isObject(value: unknown): value is StoreRecord {
+    return (
+      Object.prototype.toString.call(value) === '[object Object]' &&
+      !(value instanceof EntityRef)
+    );
+  }
+}
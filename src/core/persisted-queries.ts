@@ -0,0 +1,98 @@
+import {
+  GraphQLRequest,
+  GraphQLResponse,
+  PersistedQueryOptions,
+} from '../types';
+import { SHA256 } from '../utils';
+
+/**
+ * Sends a request; `useGet` asks for a GET request instead of a POST
+ */
+export type PersistedQuerySender = (
+  request: GraphQLRequest,
+  useGet: boolean
+) => Promise<GraphQLResponse>;
+
+/**
+ * Automatic Persisted Queries: documents are identified by their SHA-256
+ * hash, and only sent in full when the server does not know the hash yet
+ */
+export class PersistedQueries {
+  static readonly NOT_FOUND = 'PERSISTED_QUERY_NOT_FOUND';
+  static readonly NOT_SUPPORTED = 'PERSISTED_QUERY_NOT_SUPPORTED';
+
+  private readonly hashes = new Map<string, Promise<string>>();
+  // true: the server knows the hash, false: it reported the hash missing
+  private readonly registered = new Map<string, boolean>();
+  private supported = true;
+
+  constructor(private readonly options: PersistedQueryOptions = {}) {}
+
+  /**
+   * Sends the hash alone, then the full document if the server asks for
+   * it. Hashes the server reported missing are sent with their document
+   * right away until the server has registered them.
+   */
+  async execute(
+    request: GraphQLRequest,
+    allowGet: boolean,
+    send: PersistedQuerySender
+  ): Promise<GraphQLResponse> {
+    if (!this.supported || !request.query) return send(request, false);
+
+    const hash = await this.hash(request.query);
+    const extensions = {
+      ...request.extensions,
+      persistedQuery: { version: 1, sha256Hash: hash },
+    };
+
+    if (this.registered.get(hash) !== false) {
+      const { query, ...hashed } = request;
+      const response = await send(
+        { ...hashed, extensions },
+        allowGet && !!this.options.useGet
+      );
+
+      switch (PersistedQueries.errorCode(response)) {
+        case PersistedQueries.NOT_SUPPORTED:
+          this.supported = false;
+          return send(request, false);
+
+        case PersistedQueries.NOT_FOUND:
+          this.registered.set(hash, false);
+          break;
+
+        default:
+          if (response.data !== null) this.registered.set(hash, true);
+          return response;
+      }
+    }
+
+    // Full documents are sent with POST, they are too long for URLs
+    const response = await send({ ...request, extensions }, false);
+    if (response.data !== null) this.registered.set(hash, true);
+    return response;
+  }
+
+  private hash(query: string): Promise<string> {
+    let hash = this.hashes.get(query);
+    if (!hash) {
+      const { hash: digest = SHA256.hex } = this.options;
+      hash = Promise.resolve(digest(query));
+      this.hashes.set(query, hash);
+      // A failed digest is retried on the next request
+      hash.catch(() => this.hashes.delete(query));
+    }
+    return hash;
+  }
+
+  private static errorCode(response: GraphQLResponse): string | undefined {
+    return response.errors
+      ?.map(error => error.extensions?.code)
+      .find(
+        code =>
+          code === PersistedQueries.NOT_FOUND ||
+          code === PersistedQueries.NOT_SUPPORTED
+      );
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  FetcherResponse,
+  StreamObserver,
+  Unsubscribable,
+  WatchedQuery,
+  WatchOptions,
+} from '../types';
+import { Validators } from '../utils';
+import { EventStream, StreamSink } from './event-stream';
+
+/**
+ * Loads the watched result; `refetch` is true when it must not be answered
+ * from a cache
+ */
+export type WatchLoader<T> = (refetch: boolean) => Promise<FetcherResponse<T>>;
+
+/**
+ * Listens for changes of the cache entry a result depends on. `update` is
+ * called with the new result, or without one when it has to be refetched.
+ * Returns a function removing the listener.
+ */
+export type WatchSource<T> = (
+  update: (response?: FetcherResponse<T>) => void
+) => () => void;
+
+/**
+ * Result shared by every subscriber of a watched query. It is loaded when
+ * the first one subscribes, then refetched on `refetch()`, every
+ * `pollInterval` and when its cache entry changes. Polling and the cache
+ * listener stop when the last subscriber leaves.
+ */
+export class QueryWatcher<T = unknown> implements WatchedQuery<T> {
+  private readonly sinks = new Set<StreamSink<FetcherResponse<T>>>();
+  private readonly stream: EventStream<FetcherResponse<T>>;
+  private latest?: FetcherResponse<T>;
+  private pollInterval: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopListening?: () => void;
+  private loading = 0;
+  private started = 0;
+  private applied = 0;
+
+  constructor(
+    private readonly load: WatchLoader<T>,
+    options: WatchOptions = {},
+    private readonly source?: WatchSource<T>
+  ) {
+    Validators.validateWatchOptions(options);
+    this.pollInterval = options.pollInterval ?? 0;
+
+    this.stream = new EventStream(sink => {
+      this.sinks.add(sink);
+      if (this.latest) sink.next(this.latest);
+      if (this.sinks.size === 1) this.start();
+
+      return () => {
+        this.sinks.delete(sink);
+        if (this.sinks.size === 0) this.stop();
+      };
+    });
+  }
+
+  get current(): FetcherResponse<T> | undefined {
+    return this.latest;
+  }
+
+  subscribe(
+    observer:
+      | StreamObserver<FetcherResponse<T>>
+      | ((value: FetcherResponse<T>) => void)
+  ): Unsubscribable {
+    return this.stream.subscribe(observer);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<FetcherResponse<T>> {
+    return this.stream[Symbol.asyncIterator]();
+  }
+
+  refetch(): Promise<FetcherResponse<T>> {
+    return this.fetch(true);
+  }
+
+  setPollInterval(interval: number): void {
+    Validators.validateWatchOptions({ pollInterval: interval });
+    this.pollInterval = interval;
+    this.schedule();
+  }
+
+  private start(): void {
+    this.stopListening = this.source?.(response => {
+      // A load in flight emits its own result, which is usually the one
+      // that changed the cache
+      if (this.loading > 0) return;
+      if (response) {
+        this.emit(response, ++this.started);
+      } else {
+        this.fetch(true).catch(() => undefined);
+      }
+    });
+    this.fetch(false).catch(() => undefined);
+  }
+
+  private stop(): void {
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.stopListening?.();
+    this.stopListening = undefined;
+  }
+
+  /**
+   * Loads the result and emits it; a failed load errors every subscriber
+   */
+  private async fetch(refetch: boolean): Promise<FetcherResponse<T>> {
+    const sequence = ++this.started;
+    this.loading++;
+    try {
+      const response = await this.load(refetch);
+      this.emit(response, sequence);
+      return response;
+    } catch (error) {
+      if (sequence > this.applied) {
+        Array.from(this.sinks).forEach(sink => sink.error(error));
+      }
+      throw error;
+    } finally {
+      this.loading--;
+      this.schedule();
+    }
+  }
+
+  /**
+   * Polls again `pollInterval` after the latest load, while subscribed
+   */
+  private schedule(): void {
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.pollInterval <= 0 || this.sinks.size === 0 || this.loading > 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.fetch(true).catch(() => undefined);
+    }, this.pollInterval);
+  }
+
+  private emit(response: FetcherResponse<T>, sequence: number): void {
+    // Loads may settle out of order; an older one never replaces a newer one
+    if (sequence < this.applied) return;
+    this.applied = sequence;
+    if (this.latest && QueryWatcher.isSame(this.latest, response)) return;
+
+    this.latest = response;
+    Array.from(this.sinks).forEach(sink => sink.next(response));
+  }
+
+  private static isSame(a: FetcherResponse, b: FetcherResponse): boolean {
+    return (
+      JSON.stringify([a.data, a.errors ?? []]) ===
+      JSON.stringify([b.data, b.errors ?? []])
+    );
+  }
+}
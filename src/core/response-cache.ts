@@ -0,0 +1,187 @@
+import {
+  CacheOptions,
+  CacheStorage,
+  FetcherResponse,
+  RequestCacheOptions,
+} from '../types';
+import { SHA256, URLBuilder } from '../utils';
+
+/**
+ * Cache of successful responses keyed by method, URL and the values of the
+ * `vary` headers. Stale entries within `staleWhileRevalidate` are served
+ * while one background request refreshes them.
+ */
+export class ResponseCache {
+  static readonly DEFAULT_TTL = 60000;
+  static readonly DEFAULT_VARY = ['accept', 'authorization'];
+
+  private readonly storage: CacheStorage;
+  private readonly vary: string[];
+  private readonly revalidating = new Set<string>();
+  private readonly listeners = new Map<
+    string,
+    Set<(response?: FetcherResponse) => void>
+  >();
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly options: CacheOptions = {}
+  ) {
+    this.storage = options.storage ?? new Map();
+    this.vary = (options.vary ?? ResponseCache.DEFAULT_VARY).map(name =>
+      name.toLowerCase()
+    );
+  }
+
+  /**
+   * Builds the key of a request. Header values are hashed so credentials
+   * never end up in the storage.
+   */
+  key(method: string, url: string, headers: Record<string, string>): string {
+    const values: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+      if (this.vary.includes(name.toLowerCase())) {
+        values[name.toLowerCase()] = headers[name];
+      }
+    });
+
+    const names = Object.keys(values).sort();
+    const key = `${method.toUpperCase()} ${url}`;
+    return names.length > 0
+      ? `${key} ${SHA256.hex(
+          JSON.stringify(names.map(name => [name, values[name]]))
+        )}`
+      : key;
+  }
+
+  /**
+   * Serves a request from the cache, calling `send` when there is no usable
+   * entry or to refresh a stale one
+   */
+  async fetch<T>(
+    key: string,
+    send: () => Promise<FetcherResponse<T>>,
+    options: RequestCacheOptions = {}
+  ): Promise<FetcherResponse<T>> {
+    const entry = await this.storage.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry.response as FetcherResponse<T>;
+    }
+    if (entry && now < entry.staleUntil) {
+      this.revalidate(key, send, options);
+      return entry.response as FetcherResponse<T>;
+    }
+    return this.load(key, send, options);
+  }
+
+  /**
+   * Sends a request and stores its response, ignoring the current entry
+   */
+  refresh<T>(
+    key: string,
+    send: () => Promise<FetcherResponse<T>>,
+    options: RequestCacheOptions = {}
+  ): Promise<FetcherResponse<T>> {
+    return this.load(key, send, options);
+  }
+
+  /**
+   * Calls `listener` with the new response whenever the entry of a key is
+   * stored through this cache, and without one when it is removed. Returns
+   * a function removing the listener.
+   */
+  watch(
+    key: string,
+    listener: (response?: FetcherResponse) => void
+  ): () => void {
+    const listeners = this.listeners.get(key) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  /**
+   * Removes the entries whose URL starts with `prefix`. Relative prefixes
+   * are resolved against the base URL, and a trailing `*` is ignored, so
+   * `/users/*` removes `/users/1` and `/users/1/posts`.
+   */
+  async invalidate(prefix: string): Promise<void> {
+    const pattern = prefix.replace(/\*+$/, '');
+    const target = /^[a-z][a-z\d+.-]*:\/\//i.test(pattern)
+      ? pattern
+      : URLBuilder.build(this.baseUrl, [pattern.replace(/^\/+/, '')]);
+
+    const keys = Array.from(await this.storage.keys()).filter(key =>
+      key.split(' ')[1]?.startsWith(target)
+    );
+    await Promise.all(keys.map(key => this.storage.delete(key)));
+    keys.forEach(key => this.notify(key));
+  }
+
+  /**
+   * Removes every entry
+   */
+  async clear(): Promise<void> {
+    const keys = Array.from(await this.storage.keys());
+    await Promise.all(keys.map(key => this.storage.delete(key)));
+    keys.forEach(key => this.notify(key));
+  }
+
+  private async load<T>(
+    key: string,
+    send: () => Promise<FetcherResponse<T>>,
+    options: RequestCacheOptions
+  ): Promise<FetcherResponse<T>> {
+    const response = await send();
+    if (!ResponseCache.isCacheable(response)) return response;
+
+    const ttl = options.ttl ?? this.options.ttl ?? ResponseCache.DEFAULT_TTL;
+    const stale =
+      options.staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0;
+    const expiresAt = Date.now() + ttl;
+    if (ttl > 0 || stale > 0) {
+      await this.storage.set(key, {
+        response,
+        expiresAt,
+        staleUntil: expiresAt + stale,
+      });
+      this.notify(key, response);
+    }
+    return response;
+  }
+
+  /**
+   * Refreshes a stale entry in the background, once at a time per key
+   */
+  private revalidate<T>(
+    key: string,
+    send: () => Promise<FetcherResponse<T>>,
+    options: RequestCacheOptions
+  ): void {
+    if (this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    const done = () => {
+      this.revalidating.delete(key);
+    };
+    this.load(key, send, options).then(done, done);
+  }
+
+  private notify(key: string, response?: FetcherResponse): void {
+    const listeners = this.listeners.get(key);
+    if (listeners) {
+      Array.from(listeners).forEach(listener => listener(response));
+    }
+  }
+
+  private static isCacheable(response: FetcherResponse): boolean {
+    const status = response.meta?.status ?? 200;
+    return !response.errors?.length && status >= 200 && status < 300;
+  }
+}
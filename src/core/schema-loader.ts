@@ -0,0 +1,55 @@
+import { GraphQLResponse, SchemaOptions } from '../types';
+import { GraphQLSchema, IntrospectionResult } from './graphql-schema';
+
+/**
+ * Loads a schema once, from SDL or by introspection, and caches it for the
+ * client and its derived clients. A failed load is not cached, so the next
+ * operation tries again.
+ */
+export class SchemaLoader {
+  static readonly UNAVAILABLE = 'SCHEMA_UNAVAILABLE';
+
+  private schema?: Promise<GraphQLSchema>;
+
+  /**
+   * `introspect` sends `GraphQLSchema.INTROSPECTION_QUERY` to the endpoint
+   */
+  constructor(
+    private readonly options: SchemaOptions,
+    private readonly introspect: () => Promise<GraphQLResponse>
+  ) {}
+
+  /**
+   * Resolves with the cached schema, loading it on first use
+   */
+  load(): Promise<GraphQLSchema> {
+    if (!this.schema) {
+      const schema = this.fetch();
+      schema.catch(() => {
+        if (this.schema === schema) this.schema = undefined;
+      });
+      this.schema = schema;
+    }
+    return this.schema;
+  }
+
+  private async fetch(): Promise<GraphQLSchema> {
+    const { sdl } = this.options;
+    if (sdl !== undefined) {
+      return GraphQLSchema.fromSDL(
+        typeof sdl === 'function' ? await sdl() : sdl
+      );
+    }
+
+    const { data, errors } = await this.introspect();
+    if (errors?.length || !data) {
+      const [error] = errors || [];
+      throw new Error(
+        `Introspection failed: ${error?.extensions?.message ||
+          error?.message ||
+          'no data returned'}`
+      );
+    }
+    return GraphQLSchema.fromIntrospection(data as IntrospectionResult);
+  }
+}
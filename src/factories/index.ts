@@ -9,6 +9,11 @@ export const createFetchero = (options: FetcheroOptions) => {
   return Object.freeze({
     rest: instance.rest,
     gql: instance.gql,
+    interceptors: instance.interceptors,
+    fragments: instance.fragments,
+    schema: instance.schema,
+    cache: instance.cache,
+    normalizedCache: instance.normalizedCache,
   });
 };
 
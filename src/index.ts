@@ -1,4 +1,4 @@
-export { Fetchero } from './core';
+export { Fetchero, InterceptorManager } from './core';
 export { createFetchero, rest, gql } from './factories';
 
 // eslint-disable-next-line prettier/prettier
@@ -7,11 +7,53 @@ export type {
   RestProxy,
   GraphQLProxy,
   FetcherResponse,
+  ResponseMeta,
   GraphQLResponse,
   RestRequestOptions,
+  RestStreamOptions,
+  RestWatchOptions,
+  ServerSentEvent,
   GraphQLArgs,
+  GraphQLTypedArg,
+  GraphQLDirectives,
+  GraphQLRootField,
+  GraphQLComposedResponse,
+  GraphQLRequestOptions,
+  TypedDocument,
+  TypedDocumentNode,
+  TypedDocumentString,
   HttpMethod,
   OperationType,
+  GraphQLSubscription,
+  Subscribable,
+  StreamObserver,
+  Unsubscribable,
+  WatchOptions,
+  WatchedQuery,
+  SubscriptionOptions,
+  WebSocketTransportOptions,
+  WebSocketLike,
+  SSETransportOptions,
+  FetchLike,
+  RetryOptions,
+  RetryContext,
+  BatchOptions,
+  PersistedQueryOptions,
+  GetRequestOptions,
+  SchemaOptions,
+  CacheOptions,
+  CacheStorage,
+  CacheEntry,
+  RequestCacheOptions,
+  ConditionalEntry,
+  ConditionalRequestOptions,
+  FetchPolicy,
+  NormalizedCacheOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ResponseContext,
+  ErrorInterceptor,
+  InterceptorOptions,
 } from './types';
 
 // Export utilities for advanced usage
@@ -1,15 +1,73 @@
 import {
+  BatchOptions,
+  FetchPolicy,
   GraphQLProxy,
   GraphQLOperationProxy,
+  GraphQLRequest,
+  GraphQLRequestOptions,
   GraphQLQueryBuilder,
   GraphQLArgs,
+  GraphQLComposedBuilder,
+  GraphQLComposedResponse,
+  GraphQLDirectives,
+  IErrors,
+  GraphQLRootField,
   OperationType,
+  PersistedQueryOptions,
   ProxyContext,
   GraphQLResponse,
+  GraphQLSelection,
+  GraphQLSubscription,
+  GetRequestOptions,
+  RetryOptions,
+  SubscriptionOptions,
+  SubscriptionTransport,
+  TypedDocument,
+  WatchedQuery,
+  WatchOptions,
 } from '../types';
-import { Validators } from '../utils';
+import {
+  GraphQLDocuments,
+  GraphQLTypes,
+  SelectionBuilder,
+  URLBuilder,
+  Validators,
+} from '../utils';
 import { HttpClient } from '../core/http-client';
+import { EventStream } from '../core/event-stream';
+import { FragmentRegistry } from '../core/fragment-registry';
+import { GraphQLBatcher } from '../core/graphql-batcher';
+import { NormalizedCache } from '../core/normalized-cache';
+import { PersistedQueries } from '../core/persisted-queries';
+import { QueryWatcher } from '../core/query-watcher';
+import { SchemaLoader } from '../core/schema-loader';
+import { createSubscriptionTransport } from '../transports';
 import { buildQuery } from '../utils/build-query';
+import { SerializedSelection } from '../utils/selection-builder';
+
+interface OperationField {
+  field: string;
+  alias?: string;
+  args: GraphQLArgs;
+  selection?: GraphQLSelection;
+  directives?: GraphQLDirectives;
+}
+
+interface BuiltOperation {
+  query: string;
+  variables: Record<string, unknown>;
+  operationName?: string;
+}
+
+export interface GraphQLProxyOptions {
+  subscriptions?: SubscriptionOptions;
+  fragments?: FragmentRegistry;
+  batch?: boolean | BatchOptions;
+  persistedQueries?: boolean | PersistedQueryOptions;
+  useGet?: boolean | GetRequestOptions;
+  schema?: SchemaLoader;
+  normalizedCache?: NormalizedCache;
+}
 
 /**
  * GraphQL proxy implementation with enhanced error handling
@@ -21,11 +79,31 @@ export class GraphQLProxyFactory {
     'subscription',
   ]);
 
+  private static readonly MAX_URL_LENGTH = 2048;
+
+  private subscriptionTransport?: SubscriptionTransport;
+  private readonly batcher?: GraphQLBatcher;
+  private readonly persistedQueries?: PersistedQueries;
+
   constructor(
     private httpClient: HttpClient,
     private baseUrl: string,
-    private headers: Record<string, string>
-  ) {}
+    private headers: Record<string, string>,
+    private options: GraphQLProxyOptions = {}
+  ) {
+    const { batch, persistedQueries } = options;
+    if (batch) {
+      this.batcher = new GraphQLBatcher(
+        httpClient,
+        batch === true ? {} : batch
+      );
+    }
+    if (persistedQueries) {
+      this.persistedQueries = new PersistedQueries(
+        persistedQueries === true ? {} : persistedQueries
+      );
+    }
+  }
 
   /**
    * Creates GraphQL proxy
@@ -35,6 +113,34 @@ export class GraphQLProxyFactory {
       get: (_, operation: string | symbol): unknown => {
         if (typeof operation !== 'string') return undefined;
 
+        if (operation === 'compose') {
+          return (
+            type: OperationType,
+            fields: Record<string, GraphQLRootField>
+          ) => this.createComposedBuilder(type, fields, ctx);
+        }
+
+        if (operation === 'request') {
+          return (
+            document: TypedDocument,
+            variables?: Record<string, unknown>,
+            options?: GraphQLRequestOptions
+          ) => this.request(document, variables, options, ctx);
+        }
+
+        if (operation === 'raw') {
+          return (
+            query: string,
+            variables?: Record<string, unknown>,
+            options?: GraphQLRequestOptions
+          ) => {
+            if (typeof query !== 'string') {
+              throw new Error('GraphQL query must be a non-empty string');
+            }
+            return this.request(query, variables, options, ctx, true);
+          };
+        }
+
         const operationType = operation.toLowerCase() as OperationType;
         if (!this.isValidGraphQLOperation(operationType)) {
           throw new Error(
@@ -51,6 +157,58 @@ export class GraphQLProxyFactory {
     });
   }
 
+  /**
+   * Sends a prebuilt document, e.g. one generated by GraphQL Code
+   * Generator. Registered fragments it spreads are appended, unless it is
+   * sent `asWritten`.
+   */
+  private request(
+    document: TypedDocument,
+    variables: Record<string, unknown> = {},
+    options: GraphQLRequestOptions = {},
+    ctx: ProxyContext,
+    asWritten = false
+  ): Promise<GraphQLResponse> {
+    Validators.validateVariables(variables);
+    const {
+      operationName,
+      base,
+      headers,
+      retry,
+      signal,
+      fetchPolicy,
+      dedupe,
+    } = options;
+    if (base !== undefined) Validators.validateUrl(base);
+    if (headers) Validators.validateHeaders(headers);
+    if (retry !== undefined) Validators.validateRetryOptions(retry);
+    if (signal) Validators.validateAbortSignal(signal);
+    if (fetchPolicy !== undefined) this.validateFetchPolicy(fetchPolicy);
+    if (dedupe !== undefined) Validators.validateDedupe(dedupe);
+
+    const source = GraphQLDocuments.toSource(document);
+    const { type, name } = GraphQLDocuments.getOperation(source, operationName);
+
+    return this.executeGraphQLQuery(
+      type,
+      {
+        query: asWritten ? source : this.getFragments(ctx).resolve(source),
+        variables,
+        operationName: name,
+      },
+      {
+        ...ctx,
+        base: base ?? ctx.base,
+        headers: { ...ctx.headers, ...headers },
+        retry: retry ?? ctx.retry,
+        signal: signal ?? ctx.signal,
+        fetchPolicy: fetchPolicy ?? ctx.fetchPolicy,
+        dedupe: dedupe ?? ctx.dedupe,
+      },
+      asWritten
+    );
+  }
+
   /**
    * Optimized GraphQL operation validation
    */
@@ -87,12 +245,18 @@ export class GraphQLProxyFactory {
     ctx: ProxyContext
   ): GraphQLQueryBuilder {
     // Memoize operation building for performance
-    const buildOperation = (selectedFields = '') => {
+    const buildOperation = (selectedFields?: GraphQLSelection) => {
       return this.buildGraphQLOperation(
         operation,
-        field,
-        argsObj,
-        selectedFields
+        [
+          {
+            field,
+            args: argsObj,
+            selection: selectedFields,
+            directives: ctx.directives,
+          },
+        ],
+        ctx
       );
     };
 
@@ -105,54 +269,63 @@ export class GraphQLProxyFactory {
 
         switch (prop) {
           case 'select':
-            return (selectedFields: string) => {
+            return (selectedFields: GraphQLSelection) => {
               Validators.validateFields(selectedFields);
-              const rebuilt = buildOperation(selectedFields);
-              return this.executeGraphQLQuery(
-                rebuilt.query,
-                rebuilt.variables,
+              return this.runOperation(
+                operation,
+                buildOperation(selectedFields),
                 ctx
               );
             };
 
           case 'execute':
-            return () =>
-              this.executeGraphQLQuery(built.query, built.variables, ctx);
+            return () => this.runOperation(operation, built, ctx);
 
           case 'then':
+            // Subscriptions and watched queries are streams, so their
+            // builders are not thenable
+            if (operation === 'subscription' || ctx.watch) return undefined;
             return (
               resolve: (value: any) => any,
               reject?: (reason?: any) => any
             ) => {
-              return this.executeGraphQLQuery(
-                built.query,
-                built.variables,
-                ctx
-              ).then(resolve, reject);
+              return this.executeGraphQLQuery(operation, built, ctx).then(
+                resolve,
+                reject
+              );
             };
 
-          case 'base':
-            return (newBase: string) => {
-              Validators.validateUrl(newBase);
-              return this.createQueryBuilder(operation, field, argsObj, {
+          case 'directives':
+            return (directives: GraphQLDirectives) =>
+              this.createQueryBuilder(operation, field, argsObj, {
                 ...ctx,
-                base: newBase,
+                directives: { ...ctx.directives, ...directives },
               });
-            };
 
-          case 'headers':
-            return (newHeaders: Record<string, string>) => {
-              Validators.validateHeaders(newHeaders);
+          case 'watch':
+            return (options: WatchOptions = {}) => {
+              if (operation !== 'query') {
+                throw new Error(
+                  `Only queries can be watched, not ${operation}s`
+                );
+              }
+              Validators.validateWatchOptions(options);
               return this.createQueryBuilder(operation, field, argsObj, {
                 ...ctx,
-                headers: { ...ctx.headers, ...newHeaders },
+                watch: options,
               });
             };
 
-          default:
+          default: {
+            const modifier = this.createModifier(prop, ctx, next =>
+              this.createQueryBuilder(operation, field, argsObj, next)
+            );
+            if (modifier) return modifier;
+
             throw new Error(
-              `Invalid property "${prop}". Available methods: select(fields), execute(), base(url), headers(obj)`
+              `Invalid property "${prop}". Available methods: select(fields), execute(), base(url), headers(obj), retry(options), signal(abortSignal), fragments(...definitions), useGet(options), name(operationName), operationDirectives(directives), directives(directives), fetchPolicy(policy), dedupe(enabled), watch(options)`
             );
+          }
         }
       },
 
@@ -164,66 +337,618 @@ export class GraphQLProxyFactory {
   }
 
   /**
-   * Builds GraphQL operation with enhanced error handling and validation
+   * Creates a builder sending several root fields in one document. The
+   * result is split back into one response per alias.
+   */
+  private createComposedBuilder(
+    operation: OperationType,
+    fields: Record<string, GraphQLRootField>,
+    ctx: ProxyContext
+  ): GraphQLComposedBuilder {
+    if (operation !== 'query' && operation !== 'mutation') {
+      throw new Error(
+        `Invalid composed operation "${operation}". Valid operations: query, mutation`
+      );
+    }
+    Validators.validateRootFields(fields);
+
+    const aliases = Object.keys(fields);
+    const built = this.buildGraphQLOperation(
+      operation,
+      aliases.map(alias => ({
+        alias,
+        field: fields[alias].field ?? alias,
+        args: fields[alias].args ?? {},
+        selection: fields[alias].select,
+        directives: fields[alias].directives,
+      })),
+      ctx
+    );
+
+    const execute = () =>
+      this.executeGraphQLQuery(operation, built, ctx).then(response =>
+        this.splitResponse(response, aliases)
+      );
+
+    return new Proxy({} as GraphQLComposedBuilder, {
+      get: (_, prop: string | symbol): unknown => {
+        if (typeof prop !== 'string') return undefined;
+
+        switch (prop) {
+          case 'execute':
+            return execute;
+
+          case 'then':
+            return (
+              resolve: (value: any) => any,
+              reject?: (reason?: any) => any
+            ) => execute().then(resolve, reject);
+
+          default: {
+            const modifier = this.createModifier(prop, ctx, next =>
+              this.createComposedBuilder(operation, fields, next)
+            );
+            if (modifier) return modifier;
+
+            throw new Error(
+              `Invalid property "${prop}". Available methods: execute(), base(url), headers(obj), retry(options), signal(abortSignal), fragments(...definitions), useGet(options), name(operationName), operationDirectives(directives), fetchPolicy(policy)`
+            );
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Returns the builder method that derives a new context, or undefined
+   * when `prop` is not one
+   */
+  private createModifier<B>(
+    prop: string,
+    ctx: ProxyContext,
+    rebuild: (ctx: ProxyContext) => B
+  ): ((...args: any[]) => B) | undefined {
+    switch (prop) {
+      case 'base':
+        return (newBase: string) => {
+          Validators.validateUrl(newBase);
+          return rebuild({ ...ctx, base: newBase });
+        };
+
+      case 'headers':
+        return (newHeaders: Record<string, string>) => {
+          Validators.validateHeaders(newHeaders);
+          return rebuild({
+            ...ctx,
+            headers: { ...ctx.headers, ...newHeaders },
+          });
+        };
+
+      case 'retry':
+        return (options: RetryOptions | false) => {
+          Validators.validateRetryOptions(options);
+          return rebuild({ ...ctx, retry: options });
+        };
+
+      case 'signal':
+        return (abortSignal: AbortSignal) => {
+          Validators.validateAbortSignal(abortSignal);
+          return rebuild({ ...ctx, signal: abortSignal });
+        };
+
+      case 'fragments':
+        return (...definitions: string[]) => {
+          const fragments = [...(ctx.fragments ?? []), ...definitions];
+          // Surfaces invalid and duplicate definitions right away
+          this.getFragments({ fragments });
+          return rebuild({ ...ctx, fragments });
+        };
+
+      case 'useGet':
+        return (options: boolean | GetRequestOptions = true) => {
+          Validators.validateGetOptions(options);
+          return rebuild({ ...ctx, useGet: options });
+        };
+
+      case 'name':
+        return (operationName: string) => {
+          Validators.validateOperationName(operationName);
+          return rebuild({ ...ctx, operationName });
+        };
+
+      case 'operationDirectives':
+        return (directives: GraphQLDirectives) =>
+          rebuild({
+            ...ctx,
+            operationDirectives: { ...ctx.operationDirectives, ...directives },
+          });
+
+      case 'fetchPolicy':
+        return (policy: FetchPolicy) => {
+          this.validateFetchPolicy(policy);
+          return rebuild({ ...ctx, fetchPolicy: policy });
+        };
+
+      case 'dedupe':
+        return (enabled = true) => {
+          Validators.validateDedupe(enabled);
+          return rebuild({ ...ctx, dedupe: enabled });
+        };
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Builds GraphQL operation with enhanced error handling and validation.
+   * Every root field adds template holes for its own and its nested
+   * arguments, so `buildQuery` keeps variable names unique across fields.
    */
   private buildGraphQLOperation(
     operation: OperationType,
-    field: string,
-    argsObj: GraphQLArgs,
-    selection?: string
-  ): { query: string; variables: Record<string, unknown> } {
+    fields: OperationField[],
+    ctx: ProxyContext
+  ): BuiltOperation {
     try {
-      // Validate inputs
-      if (!field || typeof field !== 'string') {
-        throw new Error('Field name must be a non-empty string');
-      }
+      const operationName =
+        ctx.operationName ?? GraphQLProxyFactory.defaultOperationName(fields);
+      const templateParts = [`${operation} ${operationName}`];
+      const argsList: GraphQLArgs[] = [];
 
-      const cleanedSelection = selection?.trim();
-      const hasArgs = argsObj && Object.keys(argsObj).length > 0;
+      // Directive and nested arguments become extra template holes
+      const append = ({ parts, args }: SerializedSelection) => {
+        templateParts[templateParts.length - 1] += parts[0];
+        templateParts.push(...parts.slice(1));
+        argsList.push(...args);
+      };
 
-      const select = cleanedSelection ? `{ ${cleanedSelection} }` : '';
+      append(
+        SelectionBuilder.buildDirectives(ctx.operationDirectives, operation)
+      );
+      templateParts[templateParts.length - 1] += ' {';
 
-      const templateParts = hasArgs
-        ? [`${operation} { ${field} (`, `) ${select} }`]
-        : [`${operation} { ${field} `, ` ${select} }`];
+      fields.forEach(
+        ({ alias, field, args: argsObj, selection, directives }) => {
+          // Validate inputs
+          if (!field || typeof field !== 'string') {
+            throw new Error('Field name must be a non-empty string');
+          }
+
+          const hasArgs =
+            argsObj &&
+            Object.keys(argsObj).some(
+              key => !GraphQLTypes.isOmitted(argsObj[key])
+            );
+
+          const { parts, args } =
+            selection === undefined ||
+            (typeof selection === 'string' && !selection.trim())
+              ? { parts: [''], args: [] }
+              : SelectionBuilder.build(selection);
+          const select = parts[0] ? [`{ ${parts[0]}`, ...parts.slice(1)] : [''];
+          if (parts[0]) select[select.length - 1] += ' }';
+
+          const name = alias && alias !== field ? `${alias}: ${field}` : field;
+          templateParts[templateParts.length - 1] += hasArgs
+            ? ` ${name} (`
+            : ` ${name} `;
+          templateParts.push(hasArgs ? ')' : '');
+          argsList.push(argsObj || {});
+          append(SelectionBuilder.buildDirectives(directives, alias ?? field));
+          append({ parts: [` ${select[0]}`, ...select.slice(1)], args });
+        }
+      );
+      templateParts[templateParts.length - 1] += ' }';
 
-      const result = buildQuery(templateParts, argsObj || {});
+      const result = buildQuery(templateParts, ...argsList);
 
       // Validate the built query
       if (!result.query || typeof result.query !== 'string') {
         throw new Error('Failed to generate valid GraphQL query');
       }
 
-      return result;
+      return {
+        ...result,
+        query: this.getFragments(ctx).resolve(result.query),
+        operationName,
+      };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
+      const names = fields.map(({ field }) => `"${field}"`).join(', ');
       throw new Error(
-        `Failed to build GraphQL ${operation} for field "${field}": ${message}`
+        `Failed to build GraphQL ${operation} for field${
+          fields.length > 1 ? 's' : ''
+        } ${names}: ${message}`
       );
     }
   }
 
   /**
-   * Executes GraphQL query with comprehensive error handling
+   * Names an operation after its root fields, e.g. `getUser` becomes
+   * `GetUser`, so server logs can tell operations apart
    */
-  private async executeGraphQLQuery(
-    query: string,
-    variables: Record<string, unknown>,
+  private static defaultOperationName(fields: OperationField[]): string {
+    const name = Array.from(new Set(fields.map(({ field }) => String(field))))
+      .map(field => field.charAt(0).toUpperCase() + field.slice(1))
+      .join('')
+      .replace(/[^_0-9A-Za-z]/g, '');
+
+    // Names must not start with a digit
+    return /^[_A-Za-z]/.test(name) ? name : `_${name}`;
+  }
+
+  /**
+   * Splits a composed result by alias. Errors with a path go to the field
+   * they belong to, errors without one to every field.
+   */
+  private splitResponse(
+    response: GraphQLResponse,
+    aliases: string[]
+  ): GraphQLComposedResponse {
+    const data = (response.data ?? {}) as Record<string, unknown>;
+
+    return aliases.reduce((split, alias) => {
+      const errors = response.errors?.filter(
+        error => !error.path || error.path[0] === alias
+      );
+      split[alias] = {
+        data: data[alias] ?? null,
+        ...(errors?.length ? { errors } : {}),
+        ...(response.meta ? { meta: response.meta } : {}),
+      };
+      return split;
+    }, {} as GraphQLComposedResponse);
+  }
+
+  /**
+   * Client fragments, extended with the builder's own definitions
+   */
+  private getFragments(ctx: ProxyContext): FragmentRegistry {
+    const fragments = this.options.fragments ?? new FragmentRegistry();
+    if (!ctx.fragments?.length) return fragments;
+    return FragmentRegistry.from(ctx.fragments, fragments);
+  }
+
+  /**
+   * Executes queries and mutations, or opens a stream for subscriptions
+   * and watched queries
+   */
+  private runOperation(
+    operation: OperationType,
+    built: BuiltOperation,
+    ctx: ProxyContext
+  ): Promise<GraphQLResponse> | GraphQLSubscription | WatchedQuery {
+    if (ctx.watch) return this.watchQuery(built, ctx.watch, ctx);
+    return operation === 'subscription'
+      ? this.executeSubscription(built, ctx)
+      : this.executeGraphQLQuery(operation, built, ctx);
+  }
+
+  /**
+   * Keeps a query result up to date. Refetches skip the normalised cache,
+   * and writes to the cache by other operations update the result.
+   */
+  private watchQuery(
+    built: BuiltOperation,
+    options: WatchOptions,
+    ctx: ProxyContext
+  ): WatchedQuery {
+    const cache = this.options.normalizedCache;
+    const refetchCtx: ProxyContext =
+      cache && ctx.fetchPolicy !== 'cache-only'
+        ? { ...ctx, fetchPolicy: 'network-only' }
+        : ctx;
+
+    return new QueryWatcher(
+      refetch =>
+        this.executeGraphQLQuery('query', built, refetch ? refetchCtx : ctx),
+      options,
+      cache && !GraphQLProxyFactory.hasOverrides(ctx)
+        ? update =>
+            cache.watch(
+              { ...built, query: cache.transform(built.query) },
+              update
+            )
+        : undefined
+    );
+  }
+
+  /**
+   * Streams subscription results through the configured transport. Without
+   * one, the subscription is POSTed once and the stream emits a single result.
+   */
+  private executeSubscription(
+    built: BuiltOperation,
     ctx: ProxyContext
+  ): GraphQLSubscription {
+    return new EventStream<GraphQLResponse>(sink => {
+      const { signal } = ctx;
+      if (signal?.aborted) {
+        sink.complete();
+        return;
+      }
+
+      let stop: () => void;
+      const transport = this.getSubscriptionTransport();
+
+      if (transport) {
+        const { query, variables, operationName } = built;
+        const subscribe = () =>
+          transport.subscribe(
+            { query, variables: variables || {}, operationName },
+            sink
+          );
+
+        if (this.options.schema) {
+          let active = true;
+          let unsubscribe: (() => void) | undefined;
+          stop = () => {
+            active = false;
+            unsubscribe?.();
+          };
+          this.validateDocument(query).then(invalid => {
+            if (!active) return;
+            if (invalid) {
+              sink.next(invalid);
+              sink.complete();
+            } else {
+              unsubscribe = subscribe();
+            }
+          });
+        } else {
+          stop = subscribe();
+        }
+      } else {
+        let active = true;
+        stop = () => {
+          active = false;
+        };
+        this.executeGraphQLQuery('subscription', built, ctx).then(
+          response => {
+            if (!active) return;
+            sink.next(response);
+            sink.complete();
+          },
+          () => sink.complete()
+        );
+      }
+
+      const onAbort = () => sink.complete();
+      signal?.addEventListener('abort', onAbort);
+
+      return () => {
+        signal?.removeEventListener('abort', onAbort);
+        stop();
+      };
+    });
+  }
+
+  /**
+   * Lazily creates the subscription transport shared by this client
+   */
+  private getSubscriptionTransport(): SubscriptionTransport | undefined {
+    if (!this.subscriptionTransport && this.options.subscriptions) {
+      this.subscriptionTransport = createSubscriptionTransport(
+        this.options.subscriptions
+      );
+    }
+    return this.subscriptionTransport;
+  }
+
+  /**
+   * Executes GraphQL query with comprehensive error handling. With the
+   * normalised cache, queries are answered according to their fetch
+   * policy and every result is stored, unless the operation has its own
+   * endpoint or headers.
+   */
+  private async executeGraphQLQuery(
+    operation: OperationType,
+    built: BuiltOperation,
+    ctx: ProxyContext,
+    asWritten = false
   ): Promise<GraphQLResponse> {
-    if (!query || typeof query !== 'string') {
+    if (!built.query || typeof built.query !== 'string') {
       throw new Error('GraphQL query must be a non-empty string');
     }
 
-    return this.httpClient.makeRequest({
-      url: ctx.base ?? this.baseUrl,
-      method: 'POST',
-      data: { query, variables: variables || {} },
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.headers,
-        ...ctx.headers,
-      },
-    });
+    const cache = this.options.normalizedCache;
+    if (!cache || operation === 'subscription') {
+      return this.sendOperation(operation, built, ctx);
+    }
+
+    // Raw documents are cached as they are sent, without `__typename`
+    const request = asWritten
+      ? built
+      : { ...built, query: cache.transform(built.query) };
+    const load = async () => {
+      const response = await this.sendOperation(operation, request, ctx);
+      cache.write(request, response);
+      return response;
+    };
+
+    const policy =
+      operation === 'query'
+        ? ctx.fetchPolicy ?? cache.fetchPolicy
+        : 'network-only';
+
+    // The cache holds the results of the client's endpoint and headers, so
+    // operations with their own may get other results, e.g. for another user
+    if (GraphQLProxyFactory.hasOverrides(ctx)) {
+      return policy === 'cache-only'
+        ? GraphQLProxyFactory.cacheMiss()
+        : this.sendOperation(operation, request, ctx);
+    }
+    if (policy === 'network-only') return load();
+
+    const cached = cache.read(request);
+    if (cached) {
+      if (policy === 'cache-and-network') load().catch(() => undefined);
+      return cached;
+    }
+    return policy === 'cache-only' ? GraphQLProxyFactory.cacheMiss() : load();
+  }
+
+  /**
+   * Checks whether an operation is sent to another endpoint or with its
+   * own headers
+   */
+  private static hasOverrides(ctx: ProxyContext): boolean {
+    return !!ctx.base || Object.keys(ctx.headers ?? {}).length > 0;
+  }
+
+  private static cacheMiss(): GraphQLResponse {
+    const message = 'Query result is not in the cache';
+    return {
+      data: null,
+      errors: [
+        { message, extensions: { code: NormalizedCache.CACHE_MISS, message } },
+      ],
+    };
+  }
+
+  /**
+   * Validates a document and sends it, with its hash only when persisted
+   * queries are enabled
+   */
+  private async sendOperation(
+    operation: OperationType,
+    { query, variables, operationName }: BuiltOperation,
+    ctx: ProxyContext
+  ): Promise<GraphQLResponse> {
+    const invalid = await this.validateDocument(query);
+    if (invalid) return invalid;
+
+    const request = { query, variables: variables || {}, operationName };
+    const maxUrlLength = this.getMaxUrlLength(operation, ctx);
+
+    if (this.persistedQueries) {
+      return this.persistedQueries.execute(
+        request,
+        operation === 'query',
+        (body, useGet) => {
+          let limit = maxUrlLength;
+          if (useGet) {
+            limit = maxUrlLength ?? GraphQLProxyFactory.MAX_URL_LENGTH;
+          } else if (body.query && body.extensions) {
+            // Documents are registered with POST
+            limit = undefined;
+          }
+          return this.sendRequest(operation, body, ctx, limit);
+        }
+      );
+    }
+
+    return this.sendRequest(operation, request, ctx, maxUrlLength);
+  }
+
+  /**
+   * Fetch policies only apply to clients with the normalised cache
+   */
+  private validateFetchPolicy(policy: FetchPolicy): void {
+    Validators.validateFetchPolicy(policy);
+    if (!this.options.normalizedCache) {
+      throw new Error(
+        'Fetch policies require the "normalizedCache" client option'
+      );
+    }
+  }
+
+  /**
+   * Checks a document against the schema, when one is configured, and
+   * returns the response to resolve with instead of sending it
+   */
+  private async validateDocument(
+    query: string
+  ): Promise<GraphQLResponse | undefined> {
+    if (!this.options.schema) return undefined;
+
+    let errors: IErrors[];
+    try {
+      errors = (await this.options.schema.load()).validate(query);
+    } catch (error) {
+      const message = `Schema could not be loaded: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      errors = [
+        { message, extensions: { code: SchemaLoader.UNAVAILABLE, message } },
+      ];
+    }
+    return errors.length > 0 ? { data: null, errors } : undefined;
+  }
+
+  /**
+   * Longest URL a query may be sent with, or undefined when it is POSTed.
+   * Mutations are never sent with GET.
+   */
+  private getMaxUrlLength(
+    operation: OperationType,
+    ctx: ProxyContext
+  ): number | undefined {
+    const useGet = ctx.useGet ?? this.options.useGet;
+    if (operation !== 'query' || !useGet) return undefined;
+
+    return (
+      (useGet === true ? undefined : useGet.maxUrlLength) ??
+      GraphQLProxyFactory.MAX_URL_LENGTH
+    );
+  }
+
+  /**
+   * Sends a GraphQL-over-HTTP request. With a `maxUrlLength`, it is sent
+   * with GET unless the URL would be longer; POSTs go through the batcher
+   * when enabled.
+   */
+  private sendRequest(
+    operation: OperationType,
+    request: GraphQLRequest,
+    ctx: ProxyContext,
+    maxUrlLength?: number
+  ): Promise<GraphQLResponse> {
+    const url = ctx.base ?? this.baseUrl;
+    // GET requests keep the JSON content type, which servers with CSRF
+    // protection require to accept them
+    const headers = {
+      'Content-Type': 'application/json',
+      ...this.headers,
+      ...ctx.headers,
+    };
+    // Queries are safe to repeat even though they are POSTed
+    const idempotent = operation !== 'mutation';
+
+    if (maxUrlLength !== undefined) {
+      const { query, variables, operationName, extensions } = request;
+      const getUrl = URLBuilder.build(url, [], {
+        query,
+        operationName,
+        variables: JSON.stringify(variables || {}),
+        extensions: extensions && JSON.stringify(extensions),
+      });
+
+      if (getUrl.length <= maxUrlLength) {
+        return this.httpClient.makeRequest(
+          { url: getUrl, method: 'GET', headers, signal: ctx.signal },
+          { retry: ctx.retry, dedupe: ctx.dedupe }
+        );
+      }
+    }
+
+    // A batch shares one retry policy, so builders with their own stay out
+    if (this.batcher && ctx.retry === undefined) {
+      return this.batcher.enqueue(url, headers, request, {
+        idempotent,
+        signal: ctx.signal,
+      });
+    }
+
+    // Identical queries in flight share one request
+    return this.httpClient.makeRequest(
+      { url, method: 'POST', data: request, headers, signal: ctx.signal },
+      {
+        retry: ctx.retry,
+        idempotent,
+        ...(operation === 'query' && { dedupe: ctx.dedupe ?? true }),
+      }
+    );
   }
 }
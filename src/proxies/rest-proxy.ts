@@ -1,11 +1,35 @@
+import { AxiosRequestConfig } from 'axios';
 import {
+  FetcherResponse,
   RestProxy,
   RestRequestOptions,
+  RestStreamOptions,
+  RestWatchOptions,
   ProxyContext,
   HttpMethod,
+  FetchLike,
+  ServerSentEvent,
+  Subscribable,
+  WatchedQuery,
 } from '../types';
-import { URLBuilder, Validators } from '../utils';
+import {
+  HeaderNormalizer,
+  RetryPolicy,
+  URLBuilder,
+  Validators,
+} from '../utils';
 import { HttpClient } from '../core/http-client';
+import { ConditionalRequests } from '../core/conditional-requests';
+import { EventStream } from '../core/event-stream';
+import { ResponseCache } from '../core/response-cache';
+import { QueryWatcher, WatchSource } from '../core/query-watcher';
+import { SSEConnection } from '../transports';
+
+export interface RestProxyOptions {
+  fetchImpl?: FetchLike;
+  cache?: ResponseCache;
+  conditionalRequests?: ConditionalRequests;
+}
 
 /**
  * REST proxy implementation with caching and performance optimizations
@@ -22,7 +46,8 @@ export class RestProxyFactory {
   constructor(
     private httpClient: HttpClient,
     private baseUrl: string,
-    private headers: Record<string, string>
+    private headers: Record<string, string>,
+    private options: RestProxyOptions = {}
   ) {}
 
   /**
@@ -51,28 +76,22 @@ export class RestProxyFactory {
                 headers: { ...ctx.headers, ...newHeaders },
               });
             };
+
+          case 'stream':
+            return (options: RestStreamOptions = {}) =>
+              this.createStream(segments, ctx, options);
+
+          case 'watch':
+            return (options: RestWatchOptions = {}) =>
+              this.createWatcher(segments, ctx, options);
         }
 
         // Handle HTTP methods
         if (this.isHttpMethod(prop)) {
           return async (options: RestRequestOptions = {}) => {
-            const url = URLBuilder.build(
-              ctx.base ?? this.baseUrl,
-              segments,
-              options.query
-            );
-
-            return this.httpClient.makeRequest({
-              url,
-              method: prop.toUpperCase() as HttpMethod,
-              data: options.body,
-              transformResponse: response => ({ data: JSON.parse(response) }),
-              headers: {
-                ...this.headers,
-                ...ctx.headers,
-                ...options.headers,
-              },
-            });
+            const method = prop.toUpperCase() as HttpMethod;
+            this.validateRequestOptions(method, options);
+            return this.send(method, segments, ctx, options);
           };
         }
 
@@ -87,6 +106,271 @@ export class RestProxyFactory {
     });
   }
 
+  /**
+   * Sends a request, through the response cache for GET requests of
+   * clients with one. `refresh` ignores the cached entry.
+   */
+  private async send(
+    method: HttpMethod,
+    segments: string[],
+    ctx: ProxyContext,
+    options: RestRequestOptions,
+    refresh = false
+  ): Promise<FetcherResponse> {
+    const config = this.buildConfig(method, segments, ctx, options);
+    const { cache } = this.options;
+
+    if (!cache || method !== 'GET' || options.cache === false) {
+      return this.dispatch(config, options, false);
+    }
+
+    let prepared: AxiosRequestConfig;
+    try {
+      prepared = await this.httpClient.prepareRequest(config);
+    } catch {
+      // Sent as is, so the failure goes through the error interceptors
+      return this.dispatch(config, options, false);
+    }
+
+    const key = RestProxyFactory.cacheKey(cache, prepared);
+    const send = () => this.dispatch(prepared, options, true);
+    const cacheOptions = options.cache === true ? {} : options.cache;
+    return refresh
+      ? cache.refresh(key, send, cacheOptions)
+      : cache.fetch(key, send, cacheOptions);
+  }
+
+  /**
+   * Sends a request, revalidating GET requests when conditional requests
+   * are enabled. `prepared` configs already went through the interceptors.
+   */
+  private dispatch(
+    config: AxiosRequestConfig,
+    options: RestRequestOptions,
+    prepared: boolean
+  ): Promise<FetcherResponse> {
+    const request = (conditions: Record<string, string> = {}) => {
+      const conditional: AxiosRequestConfig = {
+        ...config,
+        headers: { ...conditions, ...config.headers },
+        ...(Object.keys(conditions).length > 0 && {
+          validateStatus: (status: number) =>
+            (status >= 200 && status < 300) || status === 304,
+        }),
+      };
+      const requestOptions = { retry: options.retry, dedupe: options.dedupe };
+      return prepared
+        ? this.httpClient.makePreparedRequest(conditional, requestOptions)
+        : this.httpClient.makeRequest(conditional, requestOptions);
+    };
+
+    const { conditionalRequests } = this.options;
+    return conditionalRequests && config.method === 'GET'
+      ? conditionalRequests.execute(config.url as string, request)
+      : request();
+  }
+
+  /**
+   * Keys a request on its config after the request interceptors ran, so
+   * `vary` headers they set, like `authorization`, are part of the key
+   */
+  private static cacheKey(
+    cache: ResponseCache,
+    config: AxiosRequestConfig
+  ): string {
+    return cache.key(
+      'GET',
+      config.url as string,
+      HeaderNormalizer.normalize(config.headers)
+    );
+  }
+
+  private buildConfig(
+    method: HttpMethod,
+    segments: string[],
+    ctx: ProxyContext,
+    options: RestRequestOptions
+  ): AxiosRequestConfig {
+    const { url, headers } = this.resolveRequest(segments, ctx, options);
+    return {
+      url,
+      method,
+      data: options.body,
+      transformResponse: (response: string) => ({
+        data: RestProxyFactory.parseBody(response),
+      }),
+      headers,
+      signal: options.signal,
+    };
+  }
+
+  private resolveRequest(
+    segments: string[],
+    ctx: ProxyContext,
+    options: RestRequestOptions
+  ): { url: string; headers: Record<string, string> } {
+    return {
+      url: URLBuilder.build(ctx.base ?? this.baseUrl, segments, options.query),
+      headers: { ...this.headers, ...ctx.headers, ...options.headers },
+    };
+  }
+
+  private validateRequestOptions(
+    method: HttpMethod,
+    options: RestRequestOptions
+  ): void {
+    if (options.signal !== undefined) {
+      Validators.validateAbortSignal(options.signal);
+    }
+    if (options.dedupe !== undefined) {
+      Validators.validateDedupe(options.dedupe);
+    }
+    if (options.cache !== undefined) {
+      Validators.validateCacheOptions(options.cache);
+      if (
+        options.cache !== false &&
+        (!this.options.cache || method !== 'GET')
+      ) {
+        throw new Error(
+          'Only GET requests of clients with the "cache" option can be cached'
+        );
+      }
+    }
+  }
+
+  /**
+   * Watches the result of GET requests. With the response cache, the
+   * result is refetched when its entry is invalidated and updated when the
+   * entry is refreshed by another request.
+   */
+  private createWatcher<T>(
+    segments: string[],
+    ctx: ProxyContext,
+    options: RestWatchOptions
+  ): WatchedQuery<T> {
+    const { pollInterval, ...request } = options;
+    Validators.validateWatchOptions(options);
+    this.validateRequestOptions('GET', request);
+
+    const { cache } = this.options;
+    const source: WatchSource<T> | undefined =
+      cache && request.cache !== false
+        ? update => {
+            let active = true;
+            let stop: (() => void) | undefined;
+            // The key depends on headers set by the request interceptors
+            this.httpClient
+              .prepareRequest(this.buildConfig('GET', segments, ctx, request))
+              .then(prepared => {
+                if (active) {
+                  stop = cache.watch(
+                    RestProxyFactory.cacheKey(cache, prepared),
+                    update
+                  );
+                }
+              })
+              .catch(() => undefined);
+            return () => {
+              active = false;
+              stop?.();
+            };
+          }
+        : undefined;
+
+    return new QueryWatcher<T>(
+      refetch => this.send('GET', segments, ctx, request, refetch),
+      { pollInterval },
+      source
+    );
+  }
+
+  /**
+   * Opens a `text/event-stream` endpoint. Request interceptors run before
+   * every (re)connect, so refreshed auth headers are picked up.
+   */
+  private createStream(
+    segments: string[],
+    ctx: ProxyContext,
+    options: RestStreamOptions
+  ): Subscribable<ServerSentEvent> {
+    const { method = 'GET', body, signal } = options;
+    if (options.reconnect !== undefined) {
+      Validators.validateRetryOptions(options.reconnect);
+    }
+    if (signal !== undefined) Validators.validateAbortSignal(signal);
+
+    const url = URLBuilder.build(
+      ctx.base ?? this.baseUrl,
+      segments,
+      options.query
+    );
+    const reconnect = RetryPolicy.resolve({ attempts: 5 }, options.reconnect);
+
+    return new EventStream<ServerSentEvent>(sink => {
+      if (signal?.aborted) {
+        sink.complete();
+        return;
+      }
+
+      const connection = new SSEConnection(
+        async () => {
+          const config = await this.httpClient.prepareRequest({
+            url,
+            method,
+            data: body,
+            headers: {
+              ...(body !== undefined && typeof body !== 'string'
+                ? { 'Content-Type': 'application/json' }
+                : {}),
+              ...this.headers,
+              ...ctx.headers,
+              ...options.headers,
+            },
+          });
+
+          return {
+            url: config.url as string,
+            method: (config.method || method).toUpperCase(),
+            headers: config.headers as Record<string, string>,
+            body:
+              config.data === undefined || typeof config.data === 'string'
+                ? config.data
+                : JSON.stringify(config.data),
+          };
+        },
+        {
+          reconnect,
+          fetchImpl: this.options.fetchImpl,
+          lastEventId: options.lastEventId,
+        },
+        { event: sink.next, error: sink.error, complete: sink.complete }
+      );
+
+      const onAbort = () => sink.complete();
+      signal?.addEventListener('abort', onAbort);
+      connection.open();
+
+      return () => {
+        signal?.removeEventListener('abort', onAbort);
+        connection.close();
+      };
+    });
+  }
+
+  /**
+   * Parses a JSON body. Bodies of 204 and 304 responses are empty, and the
+   * error pages of gateways and load balancers are often HTML or text, so
+   * those are returned as is rather than failing the request.
+   */
+  private static parseBody(body: string): unknown {
+    if (!body) return null;
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
   /**
    * Optimized HTTP method validation using Set
    */
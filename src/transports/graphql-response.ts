@@ -0,0 +1,21 @@
+import { GraphQLResponse, IErrors } from '../types';
+import { ErrorHandler } from '../utils';
+
+/**
+ * Normalises GraphQL errors received from a subscription transport
+ */
+export const toGraphQLErrors = (errors: any[]): IErrors[] =>
+  errors.map(error =>
+    ErrorHandler.compose({ ...error, extensions: { ...error?.extensions } })
+  );
+
+/**
+ * Converts an execution result pushed by the server into a GraphQLResponse
+ */
+export const toGraphQLResponse = (payload: any = {}): GraphQLResponse => {
+  const response: GraphQLResponse = { data: payload?.data ?? null };
+  if (Array.isArray(payload?.errors) && payload.errors.length > 0) {
+    response.errors = toGraphQLErrors(payload.errors);
+  }
+  return response;
+};
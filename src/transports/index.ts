@@ -0,0 +1,27 @@
+import { SubscriptionOptions, SubscriptionTransport } from '../types';
+import { SSETransport } from './sse-transport';
+import { WebSocketTransport } from './ws-transport';
+
+export { WebSocketTransport } from './ws-transport';
+export { SSETransport } from './sse-transport';
+export { SSEConnection } from './sse-connection';
+
+/**
+ * Creates the transport selected in the `subscriptions` option
+ */
+export const createSubscriptionTransport = (
+  options: SubscriptionOptions
+): SubscriptionTransport => {
+  switch (options.transport) {
+    case 'ws':
+      return new WebSocketTransport(options);
+    case 'sse':
+      return new SSETransport(options);
+    default:
+      throw new Error(
+        `Unknown subscription transport "${
+          (options as { transport?: string }).transport
+        }". Valid transports: ws, sse`
+      );
+  }
+};
@@ -0,0 +1,196 @@
+import {
+  FetchLike,
+  FetchResponseLike,
+  IErrors,
+  ServerSentEvent,
+} from '../types';
+import { ErrorHandler, RetryPolicy, SSEParser } from '../utils';
+import { ResolvedRetryOptions } from '../utils/retry-policy';
+
+type StreamReader = ReturnType<
+  NonNullable<FetchResponseLike['body']>['getReader']
+>;
+
+export interface SSERequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface SSEConnectionOptions {
+  reconnect: ResolvedRetryOptions | null;
+  fetchImpl?: FetchLike;
+  lastEventId?: string;
+}
+
+export interface SSEHandlers {
+  event(event: ServerSentEvent): void;
+  error(error: IErrors): void;
+  complete(): void;
+}
+
+/**
+ * A `text/event-stream` request read through fetch. Like EventSource it
+ * reconnects when the stream drops, resuming with `Last-Event-ID`.
+ */
+export class SSEConnection {
+  private controller?: AbortController;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private lastEventId?: string;
+  private reconnectionTime?: number;
+  private failedAttempts = 0;
+  private closed = false;
+
+  constructor(
+    private readonly request: () => SSERequest | Promise<SSERequest>,
+    private readonly options: SSEConnectionOptions,
+    private readonly handlers: SSEHandlers
+  ) {
+    this.lastEventId = options.lastEventId;
+  }
+
+  open(): void {
+    this.connect();
+  }
+
+  /**
+   * Stops the stream without notifying the handlers
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    if (this.controller) this.controller.abort();
+  }
+
+  private async connect(): Promise<void> {
+    const fetchImpl =
+      this.options.fetchImpl ??
+      ((typeof fetch !== 'undefined' ? fetch : undefined) as
+        | FetchLike
+        | undefined);
+
+    if (!fetchImpl) {
+      this.fail(
+        500,
+        'fetch is not available, provide "fetchImpl" in the client options'
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const { url, method, headers, body } = await this.request();
+      if (this.closed) return;
+
+      const response = await fetchImpl(url, {
+        method,
+        headers: {
+          Accept: 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...headers,
+          ...(this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {}),
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      // 204 is the server's way of telling clients to stop reconnecting
+      if (response.status === 204) {
+        this.finish();
+        return;
+      }
+
+      if (!response.ok) {
+        const message =
+          response.statusText ||
+          `Request failed with status ${response.status}`;
+        const retryable = RetryPolicy.isRetryable({
+          attempt: this.failedAttempts + 1,
+          method,
+          status: response.status,
+          error: null,
+        });
+        if (retryable) this.retry(response.status, message);
+        else this.fail(response.status, message);
+        return;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('text/event-stream') || !response.body) {
+        this.fail(
+          500,
+          `Expected a text/event-stream response, received "${contentType}"`
+        );
+        return;
+      }
+
+      await this.read(response.body.getReader());
+      if (!this.closed) {
+        this.retry(503, 'Event stream ended unexpectedly');
+      }
+    } catch (error) {
+      if (this.closed) return;
+      const message = error instanceof Error ? error.message : String(error);
+      this.retry(503, message || 'Network request failed');
+    }
+  }
+
+  private async read(reader: StreamReader): Promise<void> {
+    const parser = new SSEParser(this.lastEventId);
+    const decoder = new TextDecoder();
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || this.closed) break;
+
+      const events = parser.push(
+        typeof value === 'string'
+          ? value
+          : decoder.decode(value, { stream: true })
+      );
+      this.lastEventId = parser.lastEventId;
+      this.reconnectionTime = parser.reconnectionTime ?? this.reconnectionTime;
+
+      for (const event of events) {
+        if (this.closed) break;
+        this.failedAttempts = 0;
+        this.handlers.event(event);
+      }
+    }
+
+    if (this.closed) reader.cancel().catch(() => undefined);
+  }
+
+  /**
+   * Schedules a reconnect while the policy allows, otherwise fails
+   */
+  private retry(code: number, message: string): void {
+    const { reconnect } = this.options;
+    this.failedAttempts++;
+
+    if (!reconnect || this.failedAttempts >= reconnect.attempts) {
+      this.fail(code, message);
+      return;
+    }
+
+    const delay =
+      this.reconnectionTime ??
+      RetryPolicy.getDelay(reconnect, this.failedAttempts);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private fail(code: number, message: string): void {
+    if (this.closed) return;
+    this.close();
+    this.handlers.error(ErrorHandler.makeErrorResponse({ code, message }));
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.close();
+    this.handlers.complete();
+  }
+}
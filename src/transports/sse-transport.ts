@@ -0,0 +1,80 @@
+import {
+  GraphQLRequest,
+  SSETransportOptions,
+  SubscriptionSink,
+  SubscriptionTransport,
+} from '../types';
+import { ErrorHandler, RetryPolicy } from '../utils';
+import { ResolvedRetryOptions } from '../utils/retry-policy';
+import { toGraphQLResponse } from './graphql-response';
+import { SSEConnection } from './sse-connection';
+
+/**
+ * GraphQL subscriptions over Server-Sent Events using the graphql-sse
+ * protocol in distinct connections mode: every subscription is its own
+ * POST request whose response streams `next` and `complete` events.
+ */
+export class SSETransport implements SubscriptionTransport {
+  private readonly reconnect: ResolvedRetryOptions | null;
+
+  constructor(private readonly options: SSETransportOptions) {
+    this.reconnect = RetryPolicy.resolve({ attempts: 5 }, options.reconnect);
+  }
+
+  subscribe(request: GraphQLRequest, sink: SubscriptionSink): () => void {
+    const connection: SSEConnection = new SSEConnection(
+      async () => ({
+        url: this.options.url,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await this.resolveHeaders()),
+        },
+        body: JSON.stringify(request),
+      }),
+      { reconnect: this.reconnect, fetchImpl: this.options.fetchImpl },
+      {
+        event: ({ event, data }) => {
+          if (event === 'complete') {
+            connection.close();
+            sink.complete();
+            return;
+          }
+          if (event !== 'next') return;
+
+          let payload: unknown;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            connection.close();
+            sink.next({
+              data: null,
+              errors: [
+                ErrorHandler.makeErrorResponse({
+                  code: 500,
+                  message: 'Invalid event data received',
+                }),
+              ],
+            });
+            sink.complete();
+            return;
+          }
+          sink.next(toGraphQLResponse(payload));
+        },
+        error: error => {
+          sink.next({ data: null, errors: [error] });
+          sink.complete();
+        },
+        complete: () => sink.complete(),
+      }
+    );
+
+    connection.open();
+    return () => connection.close();
+  }
+
+  private async resolveHeaders(): Promise<Record<string, string>> {
+    const { headers } = this.options;
+    return (typeof headers === 'function' ? await headers() : headers) ?? {};
+  }
+}
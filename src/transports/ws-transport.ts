@@ -0,0 +1,346 @@
+import {
+  GraphQLRequest,
+  SubscriptionSink,
+  SubscriptionTransport,
+  WebSocketLike,
+  WebSocketTransportOptions,
+} from '../types';
+import { ErrorHandler, RetryPolicy } from '../utils';
+import { ResolvedRetryOptions } from '../utils/retry-policy';
+import { toGraphQLErrors, toGraphQLResponse } from './graphql-response';
+
+interface Message {
+  type: string;
+  id?: string;
+  payload?: any;
+}
+
+interface ActiveSubscription {
+  request: GraphQLRequest;
+  sink: SubscriptionSink;
+}
+
+/**
+ * GraphQL subscriptions over WebSocket using the graphql-transport-ws protocol.
+ * One connection is shared by all subscriptions of a client; it is opened on
+ * the first subscribe and closed when the last subscriber leaves.
+ */
+export class WebSocketTransport implements SubscriptionTransport {
+  static readonly PROTOCOL = 'graphql-transport-ws';
+
+  // Close codes after which reconnecting cannot succeed
+  private static readonly FATAL_CLOSE_CODES = new Set([
+    4400,
+    4401,
+    4403,
+    4406,
+    4409,
+    4429,
+  ]);
+
+  private static readonly KEEP_ALIVE_TIMEOUT_CODE = 4499;
+  private static readonly ACK_TIMEOUT_CODE = 4504;
+
+  private readonly reconnect: ResolvedRetryOptions | null;
+  private readonly subscriptions = new Map<string, ActiveSubscription>();
+  private socket: WebSocketLike | null = null;
+  private acknowledged = false;
+  private awaitingPong = false;
+  private nextId = 0;
+  private failedAttempts = 0;
+  private keepAliveTimer?: ReturnType<typeof setInterval>;
+  private ackTimer?: ReturnType<typeof setTimeout>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly options: WebSocketTransportOptions) {
+    this.reconnect = RetryPolicy.resolve({ attempts: 5 }, options.reconnect);
+  }
+
+  subscribe(request: GraphQLRequest, sink: SubscriptionSink): () => void {
+    const id = String(++this.nextId);
+    this.subscriptions.set(id, { request, sink });
+
+    if (this.acknowledged) {
+      this.sendSubscribe(id);
+    } else {
+      this.connect();
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+
+      if (this.acknowledged) {
+        this.send({ id, type: 'complete' });
+      }
+      this.disconnectIfIdle();
+    };
+  }
+
+  /**
+   * Opens the socket unless one is already open or scheduled
+   */
+  private connect(): void {
+    if (this.socket || this.reconnectTimer) return;
+
+    const WebSocketImpl =
+      this.options.webSocketImpl ??
+      ((typeof WebSocket !== 'undefined' ? WebSocket : undefined) as
+        | WebSocketTransportOptions['webSocketImpl']
+        | undefined);
+
+    if (!WebSocketImpl) {
+      this.failAll(
+        500,
+        'WebSocket is not available, provide "webSocketImpl" in subscription options'
+      );
+      return;
+    }
+
+    const socket = new WebSocketImpl(
+      this.options.url,
+      WebSocketTransport.PROTOCOL
+    );
+    this.socket = socket;
+
+    socket.onopen = () => this.initialise(socket);
+    socket.onmessage = event => this.handleMessage(String(event.data));
+    socket.onclose = event => {
+      if (this.socket === socket) this.handleClose(event.code, event.reason);
+    };
+    socket.onerror = () => {
+      // A close event always follows, reconnection is handled there
+    };
+  }
+
+  /**
+   * Sends `connection_init` and waits for the server to acknowledge it
+   */
+  private async initialise(socket: WebSocketLike): Promise<void> {
+    const { connectionParams, connectionAckTimeout = 10000 } = this.options;
+
+    try {
+      const payload =
+        typeof connectionParams === 'function'
+          ? await connectionParams()
+          : connectionParams;
+
+      if (this.socket !== socket) return;
+      this.send({ type: 'connection_init', payload });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.drop(4400, `Invalid connection params: ${message}`);
+      return;
+    }
+
+    this.ackTimer = setTimeout(
+      () =>
+        this.drop(
+          WebSocketTransport.ACK_TIMEOUT_CODE,
+          'Connection acknowledgement timeout'
+        ),
+      connectionAckTimeout
+    );
+  }
+
+  private handleMessage(raw: string): void {
+    let message: Message;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.drop(4400, 'Invalid message received');
+      return;
+    }
+
+    const subscription =
+      message.id !== undefined ? this.subscriptions.get(message.id) : undefined;
+
+    switch (message.type) {
+      case 'connection_ack':
+        this.acknowledged = true;
+        this.failedAttempts = 0;
+        clearTimeout(this.ackTimer);
+        this.startKeepAlive();
+        this.subscriptions.forEach((_, id) => this.sendSubscribe(id));
+        break;
+
+      case 'ping':
+        this.send({ type: 'pong' });
+        break;
+
+      case 'pong':
+        this.awaitingPong = false;
+        break;
+
+      case 'next':
+        if (subscription) {
+          subscription.sink.next(toGraphQLResponse(message.payload));
+        }
+        break;
+
+      case 'error':
+        if (subscription) {
+          this.subscriptions.delete(message.id as string);
+          subscription.sink.next({
+            data: null,
+            errors: toGraphQLErrors(
+              Array.isArray(message.payload)
+                ? message.payload
+                : [message.payload]
+            ),
+          });
+          subscription.sink.complete();
+          this.disconnectIfIdle();
+        }
+        break;
+
+      case 'complete':
+        if (subscription) {
+          this.subscriptions.delete(message.id as string);
+          subscription.sink.complete();
+          this.disconnectIfIdle();
+        }
+        break;
+    }
+  }
+
+  private handleClose(code: number, reason: string): void {
+    this.reset();
+
+    if (this.subscriptions.size === 0) return;
+
+    this.failedAttempts++;
+    const canReconnect =
+      this.reconnect &&
+      !WebSocketTransport.FATAL_CLOSE_CODES.has(code) &&
+      this.failedAttempts < this.reconnect.attempts;
+
+    if (!canReconnect) {
+      this.failAll(
+        WebSocketTransport.toStatus(code),
+        reason || `WebSocket connection closed (${code})`
+      );
+      return;
+    }
+
+    const delay = RetryPolicy.getDelay(
+      this.reconnect as ResolvedRetryOptions,
+      this.failedAttempts
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.subscriptions.size > 0) this.connect();
+    }, delay);
+  }
+
+  /**
+   * Pings the server periodically and drops the connection when a ping
+   * goes unanswered for a whole interval
+   */
+  private startKeepAlive(): void {
+    const { keepAlive = 30000 } = this.options;
+    if (keepAlive <= 0) return;
+
+    this.awaitingPong = false;
+    this.keepAliveTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.drop(
+          WebSocketTransport.KEEP_ALIVE_TIMEOUT_CODE,
+          'Keep-alive timeout'
+        );
+        return;
+      }
+      this.awaitingPong = true;
+      this.send({ type: 'ping' });
+    }, keepAlive);
+  }
+
+  private sendSubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (subscription) {
+      this.send({ id, type: 'subscribe', payload: subscription.request });
+    }
+  }
+
+  private send(message: Message): void {
+    if (this.socket && this.socket.readyState === 1) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Closes the socket without waiting for the closing handshake
+   */
+  private drop(code: number, reason: string): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    this.closeSocket(socket, code, reason);
+    this.handleClose(code, reason);
+  }
+
+  /**
+   * Closes the connection once the last subscription has ended, whether the
+   * client unsubscribed or the server completed it
+   */
+  private disconnectIfIdle(): void {
+    if (this.subscriptions.size === 0) this.disconnect();
+  }
+
+  private disconnect(): void {
+    const socket = this.socket;
+    this.reset();
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.failedAttempts = 0;
+
+    if (socket) this.closeSocket(socket, 1000, 'Normal Closure');
+  }
+
+  private closeSocket(socket: WebSocketLike, code: number, reason: string) {
+    socket.onopen = socket.onmessage = null;
+    // `ws` emits an error when a socket is closed while still connecting,
+    // which is thrown when nothing listens, so a no-op listener stays
+    // attached until the close event
+    socket.onerror = () => undefined;
+    socket.onclose = () => {
+      socket.onclose = socket.onerror = null;
+    };
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  private reset(): void {
+    this.socket = null;
+    this.acknowledged = false;
+    this.awaitingPong = false;
+    clearInterval(this.keepAliveTimer);
+    clearTimeout(this.ackTimer);
+  }
+
+  /**
+   * Status reported for a close code: 4xxx codes mirror HTTP statuses, but a
+   * keep-alive timeout is reported as 408 so it is not taken for a
+   * cancellation (499)
+   */
+  private static toStatus(code: number): number {
+    if (code === WebSocketTransport.KEEP_ALIVE_TIMEOUT_CODE) return 408;
+    return code >= 4000 && code < 5000 ? code - 4000 : 503;
+  }
+
+  private failAll(code: number, message: string): void {
+    const failed = Array.from(this.subscriptions.values());
+    this.subscriptions.clear();
+
+    failed.forEach(({ sink }) => {
+      sink.next({
+        data: null,
+        errors: [ErrorHandler.makeErrorResponse({ code, message })],
+      });
+      sink.complete();
+    });
+  }
+}
@@ -1,3 +1,10 @@
+import {
+  FetchPolicy,
+  GraphQLDirectives,
+  NormalizedCacheOptions,
+} from './graphql';
+import { FetchLike, SubscriptionOptions } from './transport';
+
 export type IMessage = string | Record<string, any>;
 
 export interface IExtensions {
@@ -10,11 +17,23 @@ export interface IErrors {
   extensions: IExtensions;
   message?: IMessage;
   code?: string;
+  /** Response path of the field a GraphQL error belongs to */
+  path?: Array<string | number>;
+}
+
+export interface ResponseMeta {
+  /** HTTP status code (synthesised for network failures and cancellations) */
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** Time spent on the network in milliseconds, including retries */
+  duration: number;
 }
 
 export interface FetcherResponse<T = any> {
   data: T | null;
   errors?: IErrors[];
+  meta?: ResponseMeta;
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
@@ -22,13 +41,249 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 export interface ProxyContext {
   base?: string;
   headers?: Record<string, string>;
+  retry?: RetryOptions | false;
+  signal?: AbortSignal;
+  fragments?: string[];
+  useGet?: boolean | GetRequestOptions;
+  operationName?: string;
+  directives?: GraphQLDirectives;
+  operationDirectives?: GraphQLDirectives;
+  fetchPolicy?: FetchPolicy;
+  dedupe?: boolean;
+  watch?: WatchOptions;
+}
+
+export interface RetryContext {
+  /** 1-based number of the attempt that just failed */
+  attempt: number;
+  /** Upper-cased HTTP method of the request */
+  method: string;
+  /** HTTP status of the failed response, if the server answered */
+  status?: number;
+  /** Transport error code (e.g. ECONNRESET), if any */
+  code?: string;
+  error: unknown;
+}
+
+export interface BatchOptions {
+  /** Milliseconds to collect operations before sending them (default: 0, the current tick) */
+  window?: number;
+  /** Maximum operations per request; a full batch is sent at once (default: 10) */
+  maxSize?: number;
+}
+
+export interface PersistedQueryOptions {
+  /** Sends hash-only queries with GET so HTTP caches and CDNs can store them (default: false) */
+  useGet?: boolean;
+  /** Computes the SHA-256 hex digest of a document (default: built-in implementation) */
+  hash?: (query: string) => string | Promise<string>;
+}
+
+export interface GetRequestOptions {
+  /** Longest URL sent with GET; longer queries fall back to POST (default: 2048) */
+  maxUrlLength?: number;
+}
+
+export interface SchemaOptions {
+  /** SDL source, or a function loading it, e.g. from a file */
+  sdl?: string | (() => string | Promise<string>);
+  /** Loads the schema with an introspection query sent to the GraphQL endpoint */
+  introspect?: boolean;
+}
+
+/**
+ * Response stored by the response cache
+ */
+export interface CacheEntry<T = unknown> {
+  response: FetcherResponse<T>;
+  /** Epoch milliseconds until which the entry is fresh */
+  expiresAt: number;
+  /** Epoch milliseconds until which the stale entry may still be served */
+  staleUntil: number;
+}
+
+/**
+ * Response stored with its validators for conditional requests
+ */
+export interface ConditionalEntry<T = unknown> {
+  response: FetcherResponse<T>;
+  /** `ETag` response header */
+  etag?: string;
+  /** `Last-Modified` response header */
+  lastModified?: string;
+}
+
+/**
+ * Storage backing the response cache and conditional requests. A `Map`
+ * works as is; methods may return promises, e.g. to wrap an async store.
+ */
+export interface CacheStorage<E = CacheEntry> {
+  get(key: string): E | undefined | Promise<E | undefined>;
+  set(key: string, entry: E): unknown;
+  delete(key: string): unknown;
+  keys(): Iterable<string> | Promise<Iterable<string>>;
+}
+
+export interface RequestCacheOptions {
+  /** Milliseconds a response is served from the cache (default: 60000) */
+  ttl?: number;
+  /** Milliseconds a stale response is still served while it is refreshed in the background (default: 0) */
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheOptions extends RequestCacheOptions {
+  /** Request headers whose values are part of the cache key (default: accept, authorization) */
+  vary?: string[];
+  /** Where responses are stored (default: an in-memory `Map`) */
+  storage?: CacheStorage;
+}
+
+export interface ConditionalRequestOptions {
+  /** Where validators and bodies are stored (default: an in-memory `Map`) */
+  storage?: CacheStorage<ConditionalEntry>;
+}
+
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number;
+  /** Base backoff delay in milliseconds (default: 300) */
+  delay?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Backoff multiplier applied per attempt (default: 2) */
+  factor?: number;
+  /** Randomises each delay between 0 and the computed backoff (default: true) */
+  jitter?: boolean;
+  /** Waits as long as a `Retry-After` header asks, capped by maxDelay (default: true) */
+  respectRetryAfter?: boolean;
+  /** Also retries POST/PATCH requests and GraphQL mutations (default: false) */
+  retryNonIdempotent?: boolean;
+  /** Decides whether a failure is retryable; replaces the default predicate */
+  retryOn?: (context: RetryContext) => boolean;
+}
+
+/**
+ * Per-request behaviour that is not part of the transport config
+ */
+export interface HttpRequestOptions {
+  /** Retry policy for this request, `false` disables retries */
+  retry?: RetryOptions | false;
+  /** Overrides the idempotency derived from the HTTP method */
+  idempotent?: boolean;
+  /**
+   * Shares the response of an identical request in flight. GET and HEAD
+   * requests are shared unless `false`; other methods only when `true` and
+   * idempotent.
+   */
+  dedupe?: boolean;
+}
+
+export type RequestInterceptor = (config: any) => Promise<any> | any;
+
+/**
+ * Transport details handed to response interceptors
+ */
+export interface ResponseContext extends ResponseMeta {
+  /** Request config that was sent */
+  config: any;
+  /** Raw transport response */
+  raw: unknown;
+}
+
+/**
+ * Receives the normalised response and must return one of the same shape
+ */
+export type ResponseInterceptor = (
+  response: FetcherResponse,
+  context: ResponseContext
+) => FetcherResponse | Promise<FetcherResponse>;
+
+/**
+ * Receives a failure before it is normalised. Return a response to recover,
+ * return nothing to pass the error on, or throw to replace it.
+ */
+export type ErrorInterceptor = (
+  error: unknown,
+  config: any
+) =>
+  | FetcherResponse
+  | void
+  | undefined
+  | Promise<FetcherResponse | void | undefined>;
+
+export interface InterceptorOptions {
+  /** Higher priorities run first (default: 0) */
+  priority?: number;
 }
 
 export interface FetcheroOptions {
   baseUrl: string;
   headers?: Record<string, string>;
   interceptors?: {
-    request?: (config: any) => Promise<any> | any;
-    response?: <T = unknown>(response: any) => Promise<T> | T;
+    request?: RequestInterceptor;
+    response?: ResponseInterceptor;
+    error?: ErrorInterceptor;
   };
+  retry?: RetryOptions;
+  subscriptions?: SubscriptionOptions;
+  /** fetch implementation used for event streams, defaults to the global `fetch` */
+  fetchImpl?: FetchLike;
+  /** Fragment definitions appended to GraphQL documents that spread them */
+  fragments?: string[];
+  /** Sends GraphQL operations issued close together as one array POST */
+  batch?: boolean | BatchOptions;
+  /** Sends document hashes instead of full documents (Automatic Persisted Queries) */
+  persistedQueries?: boolean | PersistedQueryOptions;
+  /** Sends queries with GET so HTTP caches and CDNs can store them */
+  useGet?: boolean | GetRequestOptions;
+  /** Validates GraphQL documents against a schema before they are sent */
+  schema?: SchemaOptions;
+  /** Caches REST GET responses */
+  cache?: boolean | CacheOptions;
+  /** Revalidates REST GET responses with `If-None-Match` / `If-Modified-Since` */
+  conditionalRequests?: boolean | ConditionalRequestOptions;
+  /** Stores GraphQL results as entities keyed by `__typename` and `id` */
+  normalizedCache?: boolean | NormalizedCacheOptions;
+  /** Shares one request between identical GET requests and GraphQL queries in flight (default: true) */
+  dedupe?: boolean;
+}
+
+export type HttpClientOptions = Pick<FetcheroOptions, 'retry' | 'dedupe'>;
+
+export interface StreamObserver<T> {
+  next?: (value: T) => void;
+  /** Called once when the stream fails; `complete` is not called afterwards */
+  error?: (error: unknown) => void;
+  complete?: () => void;
+}
+
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+
+/**
+ * Push-based stream that can be consumed with `subscribe` or `for await`
+ */
+export interface Subscribable<T> extends AsyncIterable<T> {
+  subscribe(observer: StreamObserver<T> | ((value: T) => void)): Unsubscribable;
+}
+
+export interface WatchOptions {
+  /** Milliseconds between refetches while subscribed, 0 disables (default: 0) */
+  pollInterval?: number;
+}
+
+/**
+ * Query result kept up to date while it has subscribers: it emits a
+ * response when it is refetched, polled or its cache entry changes, and
+ * only when the data or errors differ from the previous one
+ */
+export interface WatchedQuery<T = unknown>
+  extends Subscribable<FetcherResponse<T>> {
+  /** Latest response, undefined until the first one arrives */
+  readonly current: FetcherResponse<T> | undefined;
+  /** Fetches the result again, bypassing caches */
+  refetch(): Promise<FetcherResponse<T>>;
+  /** Changes the polling interval, 0 stops polling */
+  setPollInterval(interval: number): void;
 }
@@ -1,30 +1,254 @@
-import { FetcherResponse } from './common';
+import {
+  FetcherResponse,
+  GetRequestOptions,
+  RetryOptions,
+  Subscribable,
+  WatchedQuery,
+  WatchOptions,
+} from './common';
 
 export type OperationType = 'query' | 'mutation' | 'subscription';
 
+/**
+ * Argument value with an explicitly declared GraphQL type, e.g.
+ * `{ type: '[ID!]!', value: ['1', '2'] }` or `{ type: 'Role', value: 'ADMIN' }`
+ */
+export interface GraphQLTypedArg<V = unknown> {
+  type: string;
+  value: V;
+}
+
 export interface GraphQLArgs {
-  [key: string]: { type: string; value: unknown } | any;
+  [key: string]: GraphQLTypedArg | any;
+}
+
+/**
+ * Directives keyed by name, mapped to their arguments or `true` when they
+ * take none, e.g. `{ include: { if: true }, cached: { ttl: 60 } }`.
+ * `false` skips a directive.
+ */
+export interface GraphQLDirectives {
+  [name: string]: GraphQLArgs | boolean | undefined;
 }
 
+/**
+ * Nested field selection. Keys are field names (or aliases with
+ * `__aliasFor`), values are `true` for leaf fields or a nested selection.
+ * Keys like `'... on User'` select inline fragments.
+ */
+export interface GraphQLSelectionSet {
+  /** Arguments of the field this selection belongs to */
+  __args?: GraphQLArgs;
+  /** Field selected under this key when the key is an alias */
+  __aliasFor?: string;
+  /** Directives of the field or inline fragment this selection belongs to */
+  __directives?: GraphQLDirectives;
+  [field: string]: boolean | GraphQLSelection | GraphQLArgs | undefined;
+}
+
+/**
+ * Fields to select: a raw string, a structured selection, or a list mixing both
+ */
+export type GraphQLSelection =
+  | string
+  | GraphQLSelectionSet
+  | Array<string | GraphQLSelectionSet>;
+
 export type GraphQLResponse<T = unknown> = FetcherResponse<T>;
 
-export interface GraphQLQueryBuilder<T = unknown> {
-  select(fields: string): Promise<GraphQLResponse<T>>;
-  execute(): Promise<GraphQLResponse<T>>;
-  base(newBase: string): GraphQLQueryBuilder<T>;
-  headers(newHeaders: Record<string, string>): GraphQLQueryBuilder<T>;
+/**
+ * Stream of results produced by a subscription operation
+ */
+export type GraphQLSubscription<T = unknown> = Subscribable<GraphQLResponse<T>>;
+
+/**
+ * GraphQL-over-HTTP request payload
+ */
+export interface GraphQLRequest {
+  /** Omitted when a persisted query is identified by its hash alone */
+  query?: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Node of a graphql-js AST, typed loosely so documents built by any
+ * version of `graphql` are accepted
+ */
+export interface GraphQLASTNode {
+  readonly kind: string;
+  readonly [key: string]: any;
+}
+
+/**
+ * Executable document AST, compatible with `TypedDocumentNode` from
+ * `@graphql-typed-document-node/core` as emitted by GraphQL Code Generator
+ */
+export interface TypedDocumentNode<
+  TResult = { [key: string]: any },
+  TVariables = { [key: string]: any }
+> extends GraphQLASTNode {
+  readonly definitions: readonly GraphQLASTNode[];
+  readonly loc?: { source: { body: string } };
+  /** Phantom field carrying the result and variables types */
+  __apiType?: (variables: TVariables) => TResult;
+}
+
+/**
+ * Document source carrying its result and variables types, like the
+ * `TypedDocumentString` emitted with codegen's `documentMode: 'string'`
+ */
+export interface TypedDocumentString<TResult, TVariables> extends String {
+  __apiType?: (variables: TVariables) => TResult;
+}
+
+/**
+ * Document accepted by `gql.request()`
+ */
+export type TypedDocument<TResult = any, TVariables = any> =
+  | string
+  | TypedDocumentString<TResult, TVariables>
+  | TypedDocumentNode<TResult, TVariables>;
+
+/**
+ * Where queries read their result from when the normalised cache is on:
+ * - `cache-first`: the cache, or the network when it misses a field
+ * - `network-only`: always the network
+ * - `cache-and-network`: the cache when it has the result, refreshed from the network in the background
+ * - `cache-only`: only the cache; misses resolve with a `CACHE_MISS` error
+ */
+export type FetchPolicy =
+  | 'cache-first'
+  | 'network-only'
+  | 'cache-and-network'
+  | 'cache-only';
+
+export interface NormalizedCacheOptions {
+  /** Fetch policy of queries that do not set one (default: cache-first) */
+  fetchPolicy?: FetchPolicy;
+  /** Adds `__typename` to every selection set so objects can be identified (default: true) */
+  addTypename?: boolean;
+  /** Returns the cache id of an object, or undefined to store it inside its parent (default: `__typename:id`) */
+  dataId?: (object: Record<string, unknown>) => string | undefined;
+}
+
+/**
+ * Options of a single `gql.request()` or `gql.raw()` call
+ */
+export interface GraphQLRequestOptions {
+  /** Operation to execute when the document holds several */
+  operationName?: string;
+  /** Endpoint to send the document to instead of the client's base URL */
+  base?: string;
+  headers?: Record<string, string>;
+  retry?: RetryOptions | false;
+  signal?: AbortSignal;
+  fetchPolicy?: FetchPolicy;
+  /** `false` sends a query even when an identical one is in flight */
+  dedupe?: boolean;
+}
+
+export interface GraphQLQueryBuilder<
+  T = unknown,
+  R = Promise<GraphQLResponse<T>>
+> {
+  select(fields: GraphQLSelection): R;
+  execute(): R;
+  base(newBase: string): GraphQLQueryBuilder<T, R>;
+  headers(newHeaders: Record<string, string>): GraphQLQueryBuilder<T, R>;
+  retry(options: RetryOptions | false): GraphQLQueryBuilder<T, R>;
+  signal(abortSignal: AbortSignal): GraphQLQueryBuilder<T, R>;
+  fragments(...definitions: string[]): GraphQLQueryBuilder<T, R>;
+  useGet(options?: boolean | GetRequestOptions): GraphQLQueryBuilder<T, R>;
+  name(operationName: string): GraphQLQueryBuilder<T, R>;
+  directives(directives: GraphQLDirectives): GraphQLQueryBuilder<T, R>;
+  operationDirectives(directives: GraphQLDirectives): GraphQLQueryBuilder<T, R>;
+  fetchPolicy(policy: FetchPolicy): GraphQLQueryBuilder<T, R>;
+  dedupe(enabled?: boolean): GraphQLQueryBuilder<T, R>;
+  /** Makes `select` and `execute` return a watched query; queries only */
+  watch(options?: WatchOptions): GraphQLQueryBuilder<T, WatchedQuery<T>>;
 }
 
 export type ReservedKeys = keyof GraphQLQueryBuilder;
 
-export type GraphQLOperationProxy<T = any> = GraphQLQueryBuilder<T> & {
-  (args?: GraphQLArgs): GraphQLOperationProxy<T>;
+/**
+ * Root field of a composed operation; the key it is composed under
+ * becomes its alias
+ */
+export interface GraphQLRootField {
+  /** Root field to select, defaults to the alias */
+  field?: string;
+  args?: GraphQLArgs;
+  select?: GraphQLSelection;
+  directives?: GraphQLDirectives;
+}
+
+/**
+ * Result of a composed operation split into one response per alias
+ */
+export type GraphQLComposedResponse<K extends string = string> = Record<
+  K,
+  GraphQLResponse
+>;
+
+export interface GraphQLComposedBuilder<K extends string = string>
+  extends PromiseLike<GraphQLComposedResponse<K>> {
+  execute(): Promise<GraphQLComposedResponse<K>>;
+  base(newBase: string): GraphQLComposedBuilder<K>;
+  headers(newHeaders: Record<string, string>): GraphQLComposedBuilder<K>;
+  retry(options: RetryOptions | false): GraphQLComposedBuilder<K>;
+  signal(abortSignal: AbortSignal): GraphQLComposedBuilder<K>;
+  fragments(...definitions: string[]): GraphQLComposedBuilder<K>;
+  useGet(options?: boolean | GetRequestOptions): GraphQLComposedBuilder<K>;
+  name(operationName: string): GraphQLComposedBuilder<K>;
+  operationDirectives(directives: GraphQLDirectives): GraphQLComposedBuilder<K>;
+  fetchPolicy(policy: FetchPolicy): GraphQLComposedBuilder<K>;
+  dedupe(enabled?: boolean): GraphQLComposedBuilder<K>;
+}
+
+export type GraphQLOperationProxy<
+  T = any,
+  R = Promise<GraphQLResponse<T>>
+> = GraphQLQueryBuilder<T, R> & {
+  (args?: GraphQLArgs): GraphQLOperationProxy<T, R>;
 } & {
-    [K in Exclude<string, ReservedKeys>]: GraphQLOperationProxy<T>;
+    [K in Exclude<string, ReservedKeys>]: GraphQLOperationProxy<T, R>;
   };
 
+export type GraphQLSubscriptionProxy<T = any> = GraphQLOperationProxy<
+  T,
+  GraphQLSubscription<T>
+>;
+
 export interface GraphQLProxy {
   query: GraphQLOperationProxy;
   mutation: GraphQLOperationProxy;
-  subscription: GraphQLOperationProxy;
+  subscription: GraphQLSubscriptionProxy;
+  /**
+   * Sends several root fields in one query or mutation document
+   */
+  compose<K extends string>(
+    operation: Exclude<OperationType, 'subscription'>,
+    fields: Record<K, GraphQLRootField>
+  ): GraphQLComposedBuilder<K>;
+  /**
+   * Sends a prebuilt document, inferring the result and variables types of
+   * typed documents
+   */
+  request<TResult = any, TVariables = Record<string, unknown>>(
+    document: TypedDocument<TResult, TVariables>,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResponse<TResult>>;
+  /**
+   * Sends a document as written, e.g. loaded from a `.graphql` file:
+   * registered fragments are not appended and the normalized cache does not
+   * add `__typename`
+   */
+  raw<T = any>(
+    query: string,
+    variables?: Record<string, unknown>,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResponse<T>>;
 }
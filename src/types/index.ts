@@ -1,3 +1,4 @@
 export * from './common';
 export * from './rest';
 export * from './graphql';
+export * from './transport';
@@ -1,9 +1,38 @@
-import { FetcherResponse } from './common';
+import {
+  FetcherResponse,
+  HttpMethod,
+  RequestCacheOptions,
+  RetryOptions,
+  Subscribable,
+  WatchedQuery,
+  WatchOptions,
+} from './common';
+import { ServerSentEvent } from './transport';
 
 export interface RestRequestOptions {
   query?: Record<string, string | number | boolean>;
   body?: unknown;
   headers?: Record<string, string>;
+  retry?: RetryOptions | false;
+  signal?: AbortSignal;
+  /** Cache options of a GET request, `false` bypasses the client cache */
+  cache?: boolean | RequestCacheOptions;
+  /** `false` sends a GET request even when an identical one is in flight */
+  dedupe?: boolean;
+}
+
+export interface RestWatchOptions
+  extends Omit<RestRequestOptions, 'body' | 'signal'>,
+    WatchOptions {}
+
+export interface RestStreamOptions
+  extends Omit<RestRequestOptions, 'retry' | 'cache' | 'dedupe'> {
+  /** HTTP method used to open the stream (default: GET) */
+  method?: HttpMethod;
+  /** Resume the stream after this event id */
+  lastEventId?: string;
+  /** Reconnect policy for dropped streams, `false` disables (default: 5 attempts) */
+  reconnect?: RetryOptions | false;
 }
 
 export interface RestEndpoint<T = unknown> {
@@ -12,6 +41,9 @@ export interface RestEndpoint<T = unknown> {
   put(options?: RestRequestOptions): Promise<FetcherResponse<T>>;
   patch(options?: RestRequestOptions): Promise<FetcherResponse<T>>;
   delete(options?: RestRequestOptions): Promise<FetcherResponse<T>>;
+  stream(options?: RestStreamOptions): Subscribable<ServerSentEvent>;
+  /** Watches the result of GET requests to the endpoint */
+  watch(options?: RestWatchOptions): WatchedQuery<T>;
   base(newBase: string): RestEndpoint<T>;
   headers(newHeaders: Record<string, string>): RestEndpoint<T>;
 }
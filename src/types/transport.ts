@@ -0,0 +1,107 @@
+import { RetryOptions } from './common';
+import { GraphQLRequest, GraphQLResponse } from './graphql';
+
+/**
+ * Minimal WebSocket surface shared by browsers and the `ws` package
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[]
+) => WebSocketLike;
+
+export interface WebSocketTransportOptions {
+  transport: 'ws';
+  /** ws:// or wss:// endpoint speaking the graphql-transport-ws protocol */
+  url: string;
+  /** Payload of the `connection_init` message, e.g. auth tokens */
+  connectionParams?:
+    | Record<string, unknown>
+    | (() => Record<string, unknown> | Promise<Record<string, unknown>>);
+  /** Interval between keep-alive pings in milliseconds, 0 disables (default: 30000) */
+  keepAlive?: number;
+  /** Time to wait for `connection_ack` in milliseconds (default: 10000) */
+  connectionAckTimeout?: number;
+  /** Reconnect policy for dropped connections, `false` disables (default: 5 attempts) */
+  reconnect?: RetryOptions | false;
+  /** WebSocket implementation, defaults to the global `WebSocket` */
+  webSocketImpl?: WebSocketConstructor;
+}
+
+/**
+ * Minimal fetch surface needed to read `text/event-stream` responses
+ */
+export interface FetchResponseLike {
+  readonly ok: boolean;
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: { get(name: string): string | null };
+  readonly body: {
+    getReader(): {
+      read(): Promise<{ done: boolean; value?: Uint8Array | string }>;
+      cancel(): Promise<void>;
+    };
+  } | null;
+}
+
+export type FetchLike = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal: AbortSignal;
+  }
+) => Promise<FetchResponseLike>;
+
+/**
+ * Event parsed from a `text/event-stream` response
+ */
+export interface ServerSentEvent {
+  /** Event id, sent back as `Last-Event-ID` when reconnecting */
+  id?: string;
+  /** Event type (default: "message") */
+  event: string;
+  data: string;
+  /** Reconnection delay requested by the server in milliseconds */
+  retry?: number;
+}
+
+export interface SSETransportOptions {
+  transport: 'sse';
+  /** http:// or https:// endpoint speaking the graphql-sse protocol (distinct connections mode) */
+  url: string;
+  /** Extra request headers, e.g. auth tokens */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Reconnect policy for dropped streams, `false` disables (default: 5 attempts) */
+  reconnect?: RetryOptions | false;
+  /** fetch implementation, defaults to the global `fetch` */
+  fetchImpl?: FetchLike;
+}
+
+export type SubscriptionOptions =
+  | WebSocketTransportOptions
+  | SSETransportOptions;
+
+export interface SubscriptionSink {
+  next(value: GraphQLResponse): void;
+  complete(): void;
+}
+
+/**
+ * Delivers subscription results; returns a function that stops delivery
+ */
+export interface SubscriptionTransport {
+  subscribe(request: GraphQLRequest, sink: SubscriptionSink): () => void;
+}
@@ -1,9 +1,10 @@
 // @ts-nocheck
-function isObject(value) {
-  return Object.prototype.toString.call(value) === '[object Object]';
-}
+import { GraphQLTypes } from './graphql-types';
+
+export const isValidInitialString = /^(mutation|query|subscription)(?:\s+[_A-Za-z]\w*)?(?:\s+)?(?:{|@)|^(?!mutation|query|subscription)\w+(?:\s+)?(?:{|\()/i;
 
-export const isValidInitialString = /^(mutation|query)(?:\s+)?{|^(?!mutation|query)\w+(?:\s+)?(?:{|\()/i;
+// Operation type, optional name and directives opening a template
+const operationHeader = /^(mutation|query|subscription)(?:\s+([_A-Za-z]\w*))?((?:\s*@\w+(?:\s*\([^)]*\))?)*)\s*{/;
 
 export const isEmpty = obj => Object.keys(obj).length === 0;
 
@@ -14,28 +15,6 @@ export const inSingleLine = query =>
     // It is necessary to keep two separate replacements
     .replace(/\s{2,}/g, ' ');
 
-function typeOf(value) {
-  let type = typeof value;
-
-  if (isObject(value)) {
-    if (value.type) return value.type;
-    type = typeof value.value;
-  }
-
-  return {
-    number: 'Int',
-    string: 'String',
-    boolean: 'Boolean',
-  }[type];
-}
-
-function getValue(value, key) {
-  if (['number', 'string', 'boolean'].includes(typeof value)) return value;
-  if (isObject(value) && value.value) return value.value;
-
-  throw new Error(`The value is not in acceptable format for ${key}`);
-}
-
 function processArgsList(argsList) {
   const variables = {};
   const queryStrings = [];
@@ -43,16 +22,17 @@ function processArgsList(argsList) {
     const argsString = [];
 
     for (let key in args) {
-      const value = getValue(args[key], key);
-      const type = typeOf(args[key]);
-      const variableName = `${key}_${idx}`;
+      const resolved = GraphQLTypes.resolve(key, args[key]);
 
-      if (!type) {
-        throw new Error(`\`type\` is not defined for \`${key}\` property`);
+      if (resolved.kind === 'omitted') continue;
+      if (resolved.kind === 'null') {
+        argsString.push(`${key}: null`);
+        continue;
       }
 
-      variables[variableName] = value;
-      queryStrings.push(`$${variableName}: ${type}`);
+      const variableName = `${key}_${idx}`;
+      variables[variableName] = resolved.value;
+      queryStrings.push(`$${variableName}: ${resolved.type}`);
       argsString.push(`${key}: $${variableName}`);
     }
 
@@ -73,11 +53,12 @@ function constructString(strings, argsStrings) {
     })
     .join('');
 
-  const firstPartPat = /^(mutation|query)\s+{/;
-  if (firstPartPat.test(strings[0].trim())) {
-    return resultString.replace(firstPartPat, '').replace(/}$/, '');
+  const header = operationHeader.exec(resultString.trim());
+  if (header) {
+    const body = resultString.trim().slice(header[0].length);
+    return { header, body: body.replace(/}$/, '') };
   }
-  return resultString;
+  return { body: resultString };
 }
 
 export function buildQuery(
@@ -90,12 +71,15 @@ export function buildQuery(
     throw new Error('The query string is not valid');
   }
 
-  const isMutation = /^mutation\s+{/.test(initialString);
-  const queryType = isMutation ? 'mutation' : 'query';
   const { variables, argsStrings, varString } = processArgsList(argsList);
-  const queryString = varString ? `my_${queryType}(${varString})` : '';
-  const query = `${queryType} ${queryString} {
-    ${constructString(strings, argsStrings)}
+  const { header, body } = constructString(strings, argsStrings);
+  const [, queryType = 'query', name, directives = ''] = header || [];
+  const operationName = name || (varString ? `my_${queryType}` : '');
+  const queryString = varString
+    ? `${operationName}(${varString})`
+    : operationName;
+  const query = `${queryType} ${queryString}${directives} {
+    ${body}
   }`;
 
   const result = { query: inSingleLine(query) };
@@ -4,6 +4,11 @@ import { IErrors, IMessage } from '../types/common';
  * Utility class for error handling and formatting
  */
 export class ErrorHandler {
+  /**
+   * Status code used for requests aborted by the caller
+   */
+  static readonly CANCELLED_CODE = 499;
+
   /**
    * Checks if the error indicates a "not found" status
    */
@@ -11,6 +16,15 @@ export class ErrorHandler {
     return errors?.[0]?.extensions?.code === '404';
   }
 
+  /**
+   * Checks if the error indicates the request was cancelled
+   */
+  static isCancelled(errors?: IErrors[]): boolean {
+    return (
+      errors?.[0]?.extensions?.code === String(ErrorHandler.CANCELLED_CODE)
+    );
+  }
+
   /**
    * Formats error code with proper structure
    */
@@ -73,7 +87,7 @@ export class ErrorHandler {
       this.formatErrorResponse,
     ];
 
-    return formatters.reduce((acc, formatter) => {
+    const composed = formatters.reduce((acc, formatter) => {
       return formatter === this.formatErrorCode
         ? formatter({
             code: acc.extensions.code || '',
@@ -82,6 +96,11 @@ export class ErrorHandler {
           })
         : formatter(acc);
     }, error);
+
+    // Keeps errors attributable to a field of the response
+    return Array.isArray(error.path)
+      ? { ...composed, path: error.path }
+      : composed;
   }
 
   /**
@@ -0,0 +1,249 @@
+import {
+  GraphQLASTNode,
+  OperationType,
+  TypedDocument,
+  TypedDocumentNode,
+} from '../types';
+import { GraphQLLexer } from './graphql-lexer';
+
+export interface DocumentOperation {
+  type: OperationType;
+  name?: string;
+}
+
+/**
+ * Turns prebuilt documents, whether strings or `DocumentNode`s from
+ * `graphql-tag` and GraphQL Code Generator, into the source sent over HTTP
+ */
+export class GraphQLDocuments {
+  private static readonly OPERATIONS = new Set([
+    'query',
+    'mutation',
+    'subscription',
+  ]);
+
+  /**
+   * Returns the source of a document. Nodes are printed unless they carry
+   * their source location.
+   */
+  static toSource(document: TypedDocument): string {
+    if (typeof document === 'string' || document instanceof String) {
+      const source = String(document);
+      if (!source.trim()) {
+        throw new Error('GraphQL document must be a non-empty string');
+      }
+      return source;
+    }
+
+    const node = document as TypedDocumentNode;
+    if (!node || node.kind !== 'Document' || !Array.isArray(node.definitions)) {
+      throw new Error('GraphQL document must be a string or a DocumentNode');
+    }
+    return node.loc?.source?.body ?? GraphQLDocuments.print(node);
+  }
+
+  /**
+   * Finds the operation to execute: the one named `operationName`, or the
+   * only operation of the document
+   */
+  static getOperation(
+    source: string,
+    operationName?: string
+  ): DocumentOperation {
+    const operations = GraphQLDocuments.listOperations(source);
+
+    if (operationName !== undefined) {
+      const operation = operations.find(({ name }) => name === operationName);
+      if (!operation) {
+        throw new Error(`Unknown operation "${operationName}" in document`);
+      }
+      return operation;
+    }
+
+    if (operations.length !== 1) {
+      throw new Error(
+        operations.length === 0
+          ? 'GraphQL document must contain an operation'
+          : 'GraphQL document contains several operations, pass "operationName" to select one'
+      );
+    }
+    return operations[0];
+  }
+
+  /**
+   * Selects `__typename` in every selection set except the operations' root
+   * ones, so results can be identified by their type
+   */
+  static addTypename(source: string): string {
+    const lexer = new GraphQLLexer(source);
+    const positions: number[] = [];
+    let depth = 0;
+    let parens = 0;
+    let definitionStart = true;
+    let fragment = false;
+
+    while (!lexer.atEnd()) {
+      const { kind, value, position } = lexer.next();
+
+      if (kind === 'name' && definitionStart) {
+        fragment = value === 'fragment';
+        definitionStart = false;
+      } else if (kind !== 'punctuator') {
+        continue;
+      } else if (value === '(') {
+        parens++;
+      } else if (value === ')') {
+        parens--;
+      } else if (parens > 0) {
+        // Braces within arguments and variables are object values
+        continue;
+      } else if (value === '{') {
+        if (definitionStart) fragment = false;
+        if (depth > 0 || fragment) positions.push(position + 1);
+        definitionStart = false;
+        depth++;
+      } else if (value === '}') {
+        depth--;
+        definitionStart = depth === 0;
+      }
+    }
+
+    return positions
+      .map((position, index) =>
+        source.slice(index === 0 ? 0 : positions[index - 1], position)
+      )
+      .concat(source.slice(positions[positions.length - 1] ?? 0))
+      .join(' __typename');
+  }
+
+  /**
+   * Prints an executable document AST on a single line
+   */
+  static print(node: GraphQLASTNode): string {
+    const print = GraphQLDocuments.print;
+    const join = (nodes?: readonly GraphQLASTNode[], separator = ' ') =>
+      (nodes || []).map(print).join(separator);
+    const wrap = (start: string, inner: string, end: string) =>
+      inner ? start + inner + end : '';
+    const directives = () => wrap(' ', join(node.directives), '');
+    const selections = () =>
+      node.selectionSet ? ` ${print(node.selectionSet)}` : '';
+
+    switch (node.kind) {
+      case 'Document':
+        return join(node.definitions);
+      case 'OperationDefinition':
+        return (
+          node.operation +
+          wrap(' ', node.name ? print(node.name) : '', '') +
+          wrap('(', join(node.variableDefinitions, ', '), ')') +
+          directives() +
+          selections()
+        );
+      case 'FragmentDefinition':
+        return `fragment ${print(node.name)} on ${print(
+          node.typeCondition
+        )}${directives()}${selections()}`;
+      case 'VariableDefinition':
+        return (
+          `${print(node.variable)}: ${print(node.type)}` +
+          wrap(' = ', node.defaultValue ? print(node.defaultValue) : '', '') +
+          directives()
+        );
+      case 'SelectionSet':
+        return `{ ${join(node.selections)} }`;
+      case 'Field':
+        return (
+          wrap('', node.alias ? print(node.alias) : '', ': ') +
+          print(node.name) +
+          wrap('(', join(node.arguments, ', '), ')') +
+          directives() +
+          selections()
+        );
+      case 'FragmentSpread':
+        return `...${print(node.name)}${directives()}`;
+      case 'InlineFragment':
+        return (
+          '...' +
+          wrap(
+            ' on ',
+            node.typeCondition ? print(node.typeCondition) : '',
+            ''
+          ) +
+          directives() +
+          selections()
+        );
+      case 'Directive':
+        return `@${print(node.name)}${wrap(
+          '(',
+          join(node.arguments, ', '),
+          ')'
+        )}`;
+      case 'Argument':
+      case 'ObjectField':
+        return `${print(node.name)}: ${print(node.value)}`;
+      case 'Variable':
+        return `$${print(node.name)}`;
+      case 'Name':
+      case 'IntValue':
+      case 'FloatValue':
+      case 'EnumValue':
+        return node.value;
+      case 'BooleanValue':
+        return node.value ? 'true' : 'false';
+      case 'NullValue':
+        return 'null';
+      case 'StringValue':
+        return JSON.stringify(node.value);
+      case 'ListValue':
+        return `[${join(node.values, ', ')}]`;
+      case 'ObjectValue':
+        return `{${join(node.fields, ', ')}}`;
+      case 'NamedType':
+        return print(node.name);
+      case 'ListType':
+        return `[${print(node.type)}]`;
+      case 'NonNullType':
+        return `${print(node.type)}!`;
+      default:
+        throw new Error(`Cannot print GraphQL node of kind "${node.kind}"`);
+    }
+  }
+
+  /**
+   * Lists the operations of a source by scanning its top-level tokens;
+   * braces and parentheses are only counted to skip nested content
+   */
+  private static listOperations(source: string): DocumentOperation[] {
+    const lexer = new GraphQLLexer(source);
+    const operations: DocumentOperation[] = [];
+    let depth = 0;
+    let definitionStart = true;
+
+    while (!lexer.atEnd()) {
+      const { kind, value } = lexer.next();
+      const topLevel = depth === 0;
+
+      if (kind === 'punctuator' && '{('.includes(value)) {
+        // A selection set opening a definition is a query shorthand
+        if (topLevel && value === '{' && definitionStart) {
+          operations.push({ type: 'query' });
+        }
+        definitionStart = false;
+        depth++;
+      } else if (kind === 'punctuator' && '})'.includes(value)) {
+        depth--;
+        definitionStart = depth === 0 && value === '}';
+      } else if (topLevel && definitionStart && kind === 'name') {
+        if (GraphQLDocuments.OPERATIONS.has(value)) {
+          const name =
+            lexer.peek().kind === 'name' ? lexer.next().value : undefined;
+          operations.push({ type: value as OperationType, name });
+        }
+        definitionStart = false;
+      }
+    }
+
+    return operations;
+  }
+}
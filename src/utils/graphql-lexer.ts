@@ -0,0 +1,175 @@
+export type GraphQLTokenKind =
+  | 'punctuator'
+  | 'name'
+  | 'int'
+  | 'float'
+  | 'string'
+  | 'eof';
+
+export interface GraphQLToken {
+  kind: GraphQLTokenKind;
+  value: string;
+  position: number;
+}
+
+/**
+ * Tokenizer for GraphQL documents and SDL, with the cursor helpers shared
+ * by the schema and document parsers. Commas, whitespace and comments are
+ * insignificant and skipped.
+ */
+export class GraphQLLexer {
+  private static readonly TOKEN_PATTERN = new RegExp(
+    [
+      '([\\s,\\ufeff]+|#[^\\n\\r]*)', // ignored
+      '("""(?:\\\\"""|(?!""")[\\s\\S])*""")', // block string
+      '("(?:\\\\.|[^"\\\\\\n\\r])*")', // string
+      '(-?(?:0|[1-9]\\d*)(\\.\\d+)?([eE][+-]?\\d+)?)(?![_A-Za-z.])', // number
+      '([_A-Za-z][_0-9A-Za-z]*)', // name
+      '(\\.\\.\\.|[!$&():=@[\\]{|}])', // punctuator
+    ].join('|'),
+    'y'
+  );
+
+  private readonly tokens: GraphQLToken[] = [];
+  private index = 0;
+
+  constructor(source: string) {
+    const pattern = new RegExp(GraphQLLexer.TOKEN_PATTERN.source, 'y');
+    let position = 0;
+
+    while (position < source.length) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(source);
+      if (!match) {
+        throw this.error(`Unexpected character "${source[position]}"`, {
+          position,
+        });
+      }
+
+      const [
+        text,
+        ignored,
+        block,
+        string,
+        number,
+        fraction,
+        exponent,
+        name,
+      ] = match;
+      if (block !== undefined) {
+        this.push('string', GraphQLLexer.blockString(block), position);
+      } else if (string !== undefined) {
+        this.push('string', GraphQLLexer.string(string), position);
+      } else if (number !== undefined) {
+        this.push(fraction || exponent ? 'float' : 'int', number, position);
+      } else if (name !== undefined) {
+        this.push('name', name, position);
+      } else if (ignored === undefined) {
+        this.push('punctuator', text, position);
+      }
+      position = pattern.lastIndex;
+    }
+    this.push('eof', '', source.length);
+  }
+
+  /**
+   * Returns the token `offset` tokens ahead without consuming it
+   */
+  peek(offset = 0): GraphQLToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  /**
+   * Consumes and returns the current token
+   */
+  next(): GraphQLToken {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  /**
+   * Checks whether the current token is the given punctuator or keyword
+   */
+  is(value: string): boolean {
+    const token = this.peek();
+    return (
+      (token.kind === 'punctuator' || token.kind === 'name') &&
+      token.value === value
+    );
+  }
+
+  /**
+   * Consumes the current token when it is the given punctuator or keyword
+   */
+  accept(value: string): boolean {
+    if (!this.is(value)) return false;
+    this.next();
+    return true;
+  }
+
+  /**
+   * Consumes the given punctuator or keyword, or throws
+   */
+  expect(value: string): void {
+    if (!this.accept(value)) {
+      throw this.error(`Expected "${value}", found ${this.describe()}`);
+    }
+  }
+
+  /**
+   * Consumes a name, or throws
+   */
+  expectName(): string {
+    if (this.peek().kind !== 'name') {
+      throw this.error(`Expected a name, found ${this.describe()}`);
+    }
+    return this.next().value;
+  }
+
+  /**
+   * Consumes a type reference and returns it as written, e.g. `[ID!]!`
+   */
+  expectType(): string {
+    let type: string;
+    if (this.accept('[')) {
+      type = `[${this.expectType()}]`;
+      this.expect(']');
+    } else {
+      type = this.expectName();
+    }
+    return this.accept('!') ? `${type}!` : type;
+  }
+
+  atEnd(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  /**
+   * Builds a syntax error pointing at a token
+   */
+  error(message: string, token: { position: number } = this.peek()): Error {
+    return new Error(`Syntax error at position ${token.position}: ${message}`);
+  }
+
+  private describe(): string {
+    const token = this.peek();
+    return token.kind === 'eof' ? 'end of document' : `"${token.value}"`;
+  }
+
+  private push(kind: GraphQLTokenKind, value: string, position: number): void {
+    this.tokens.push({ kind, value, position });
+  }
+
+  private static string(text: string): string {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+
+  private static blockString(text: string): string {
+    return text.slice(3, -3).replace(/\\"""/g, '"""');
+  }
+}
@@ -0,0 +1,249 @@
+import { OperationType } from '../types';
+import { GraphQLLexer } from './graphql-lexer';
+
+export type ValueNode =
+  | { kind: 'Variable'; name: string }
+  | { kind: 'Int' | 'Float' | 'String' | 'Boolean' | 'Enum'; value: string }
+  | { kind: 'Null' }
+  | { kind: 'List'; values: ValueNode[] }
+  | { kind: 'Object'; fields: ArgumentNode[] };
+
+export interface ArgumentNode {
+  name: string;
+  value: ValueNode;
+}
+
+export interface DirectiveNode {
+  name: string;
+  args: ArgumentNode[];
+}
+
+export type SelectionNode =
+  | {
+      kind: 'Field';
+      alias?: string;
+      name: string;
+      args: ArgumentNode[];
+      directives: DirectiveNode[];
+      selections?: SelectionNode[];
+    }
+  | {
+      kind: 'InlineFragment';
+      typeCondition?: string;
+      directives: DirectiveNode[];
+      selections: SelectionNode[];
+    }
+  | { kind: 'FragmentSpread'; name: string; directives: DirectiveNode[] };
+
+export interface OperationNode {
+  operation: OperationType;
+  name?: string;
+  /** Declared variable types, e.g. `ID!` */
+  variables: Map<string, string>;
+  defaultValues: Map<string, ValueNode>;
+  directives: DirectiveNode[];
+  selections: SelectionNode[];
+}
+
+export interface FragmentNode {
+  typeCondition: string;
+  selections: SelectionNode[];
+}
+
+export interface ParsedDocument {
+  operations: OperationNode[];
+  fragments: Map<string, FragmentNode>;
+}
+
+/**
+ * Parser of executable documents into the small AST shared by document
+ * validation and the normalised cache. Locations and descriptions are not
+ * kept.
+ */
+export class GraphQLParser {
+  /**
+   * Parses an executable document, throwing syntax errors
+   */
+  static parse(document: string): ParsedDocument {
+    const lexer = new GraphQLLexer(document);
+    const operations: OperationNode[] = [];
+    const fragments = new Map<string, FragmentNode>();
+
+    while (!lexer.atEnd()) {
+      if (lexer.is('{')) {
+        operations.push({
+          operation: 'query',
+          variables: new Map(),
+          defaultValues: new Map(),
+          directives: [],
+          selections: GraphQLParser.parseSelectionSet(lexer),
+        });
+        continue;
+      }
+
+      const token = lexer.peek();
+      const keyword = lexer.expectName();
+      if (keyword === 'fragment') {
+        const name = lexer.expectName();
+        lexer.expect('on');
+        const typeCondition = lexer.expectName();
+        GraphQLParser.parseDirectives(lexer);
+        fragments.set(name, {
+          typeCondition,
+          selections: GraphQLParser.parseSelectionSet(lexer),
+        });
+        continue;
+      }
+      if (!['query', 'mutation', 'subscription'].includes(keyword)) {
+        throw lexer.error(`Unexpected "${keyword}"`, token);
+      }
+
+      const name =
+        lexer.peek().kind === 'name' ? lexer.next().value : undefined;
+      const variables = new Map<string, string>();
+      const defaultValues = new Map<string, ValueNode>();
+      if (lexer.accept('(')) {
+        while (!lexer.accept(')')) {
+          lexer.expect('$');
+          const variable = lexer.expectName();
+          lexer.expect(':');
+          variables.set(variable, lexer.expectType());
+          if (lexer.accept('=')) {
+            defaultValues.set(variable, GraphQLParser.parseValue(lexer));
+          }
+          GraphQLParser.parseDirectives(lexer);
+        }
+      }
+
+      operations.push({
+        operation: keyword as OperationType,
+        name,
+        variables,
+        defaultValues,
+        directives: GraphQLParser.parseDirectives(lexer),
+        selections: GraphQLParser.parseSelectionSet(lexer),
+      });
+    }
+
+    return { operations, fragments };
+  }
+
+  private static parseSelectionSet(lexer: GraphQLLexer): SelectionNode[] {
+    const selections: SelectionNode[] = [];
+    lexer.expect('{');
+
+    while (!lexer.accept('}')) {
+      if (lexer.accept('...')) {
+        if (lexer.accept('on')) {
+          const typeCondition = lexer.expectName();
+          selections.push({
+            kind: 'InlineFragment',
+            typeCondition,
+            directives: GraphQLParser.parseDirectives(lexer),
+            selections: GraphQLParser.parseSelectionSet(lexer),
+          });
+        } else if (lexer.peek().kind === 'name') {
+          selections.push({
+            kind: 'FragmentSpread',
+            name: lexer.expectName(),
+            directives: GraphQLParser.parseDirectives(lexer),
+          });
+        } else {
+          selections.push({
+            kind: 'InlineFragment',
+            directives: GraphQLParser.parseDirectives(lexer),
+            selections: GraphQLParser.parseSelectionSet(lexer),
+          });
+        }
+        continue;
+      }
+
+      let alias: string | undefined;
+      let name = lexer.expectName();
+      if (lexer.accept(':')) {
+        alias = name;
+        name = lexer.expectName();
+      }
+      selections.push({
+        kind: 'Field',
+        alias,
+        name,
+        args: GraphQLParser.parseArguments(lexer),
+        directives: GraphQLParser.parseDirectives(lexer),
+        selections: lexer.is('{')
+          ? GraphQLParser.parseSelectionSet(lexer)
+          : undefined,
+      });
+    }
+
+    if (selections.length === 0) {
+      throw lexer.error('Selection set must not be empty');
+    }
+    return selections;
+  }
+
+  private static parseArguments(lexer: GraphQLLexer): ArgumentNode[] {
+    const args: ArgumentNode[] = [];
+    if (lexer.accept('(')) {
+      while (!lexer.accept(')')) {
+        const name = lexer.expectName();
+        lexer.expect(':');
+        args.push({ name, value: GraphQLParser.parseValue(lexer) });
+      }
+    }
+    return args;
+  }
+
+  private static parseDirectives(lexer: GraphQLLexer): DirectiveNode[] {
+    const directives: DirectiveNode[] = [];
+    while (lexer.accept('@')) {
+      directives.push({
+        name: lexer.expectName(),
+        args: GraphQLParser.parseArguments(lexer),
+      });
+    }
+    return directives;
+  }
+
+  private static parseValue(lexer: GraphQLLexer): ValueNode {
+    if (lexer.accept('$')) {
+      return { kind: 'Variable', name: lexer.expectName() };
+    }
+    if (lexer.accept('[')) {
+      const values: ValueNode[] = [];
+      while (!lexer.accept(']')) values.push(GraphQLParser.parseValue(lexer));
+      return { kind: 'List', values };
+    }
+    if (lexer.accept('{')) {
+      const fields: ArgumentNode[] = [];
+      while (!lexer.accept('}')) {
+        const name = lexer.expectName();
+        lexer.expect(':');
+        fields.push({ name, value: GraphQLParser.parseValue(lexer) });
+      }
+      return { kind: 'Object', fields };
+    }
+
+    const token = lexer.peek();
+    switch (token.kind) {
+      case 'int':
+        lexer.next();
+        return { kind: 'Int', value: token.value };
+      case 'float':
+        lexer.next();
+        return { kind: 'Float', value: token.value };
+      case 'string':
+        lexer.next();
+        return { kind: 'String', value: token.value };
+      case 'name':
+        lexer.next();
+        if (token.value === 'null') return { kind: 'Null' };
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'Boolean', value: token.value };
+        }
+        return { kind: 'Enum', value: token.value };
+      default:
+        throw lexer.error(`Unexpected "${token.value || 'end of document'}"`);
+    }
+  }
+}
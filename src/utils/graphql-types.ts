@@ -0,0 +1,260 @@
+import { GraphQLTypedArg } from '../types/graphql';
+
+export type ResolvedArgument =
+  | { kind: 'omitted' }
+  | { kind: 'null' }
+  | { kind: 'variable'; type: string; value: unknown };
+
+interface TypeRef {
+  nonNull: boolean;
+  name?: string;
+  ofType?: TypeRef;
+}
+
+/**
+ * Utility class for declaring GraphQL variable types from argument values
+ */
+export class GraphQLTypes {
+  private static readonly NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*/;
+  private static readonly INT_MIN = -2147483648;
+  private static readonly INT_MAX = 2147483647;
+
+  /**
+   * Checks whether an argument declares its type as `{ type, value }`
+   */
+  static isTypedArg(arg: unknown): arg is GraphQLTypedArg {
+    return (
+      Object.prototype.toString.call(arg) === '[object Object]' &&
+      typeof (arg as { type?: unknown }).type === 'string'
+    );
+  }
+
+  /**
+   * Checks whether an argument should be left out of the operation.
+   * `undefined` means omitted, while `null` explicitly clears a value.
+   */
+  static isOmitted(arg: unknown): boolean {
+    return (
+      arg === undefined || (this.isTypedArg(arg) && arg.value === undefined)
+    );
+  }
+
+  /**
+   * Resolves how an argument is sent: left out, as a `null` literal (which
+   * needs no declared type), or as a typed variable
+   */
+  static resolve(key: string, arg: unknown): ResolvedArgument {
+    if (this.isOmitted(arg)) return { kind: 'omitted' };
+    if (arg === null) return { kind: 'null' };
+
+    if (!this.isTypedArg(arg)) {
+      return { kind: 'variable', type: this.infer(arg, key), value: arg };
+    }
+
+    const type = arg.type.replace(/\s+/g, '');
+    this.assertValue(this.parse(type, key), arg.value, key);
+    return { kind: 'variable', type, value: arg.value };
+  }
+
+  /**
+   * Infers a non-null type from a plain value. Present values are declared
+   * non-null so the variable fits both nullable and required arguments.
+   * Null list items make the item type nullable.
+   */
+  static infer(value: unknown, key: string): string {
+    switch (typeof value) {
+      case 'boolean':
+        return 'Boolean!';
+      case 'string':
+        return 'String!';
+      case 'number':
+        if (!isFinite(value)) {
+          throw new Error(
+            `Cannot send non-finite number ${value} for "${key}"`
+          );
+        }
+        return this.isInt(value) ? 'Int!' : 'Float!';
+    }
+
+    if (Array.isArray(value)) {
+      return `[${this.inferItemType(value, key)}]!`;
+    }
+
+    if (Object.prototype.toString.call(value) === '[object Object]') {
+      throw new Error(
+        `Cannot infer the input type of "${key}", declare it as { type: 'MyInput', value }`
+      );
+    }
+
+    throw new Error(
+      `Cannot infer a GraphQL type for "${key}" from ${this.describe(
+        value
+      )}, declare it as { type, value }`
+    );
+  }
+
+  /**
+   * Infers the shared item type of a list; Int and Float items widen to Float
+   */
+  private static inferItemType(items: unknown[], key: string): string {
+    const present = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item !== null);
+    let types = new Set(
+      present.map(({ item, index }) => this.infer(item, `${key}[${index}]`))
+    );
+
+    if (types.size > 1) {
+      const widened = new Set(
+        Array.from(types).map(type => type.replace(/\bInt!/g, 'Float!'))
+      );
+      if (widened.size === 1) types = widened;
+    }
+
+    if (types.size === 0) {
+      throw new Error(
+        `Cannot infer the item type of empty list "${key}", declare it as { type: '[MyType]', value }`
+      );
+    }
+    if (types.size > 1) {
+      throw new Error(
+        `Cannot infer the item type of "${key}" from mixed ${Array.from(
+          types
+        ).join(', ')} items, declare it as { type, value }`
+      );
+    }
+
+    // Null items make the item type nullable
+    const [type] = Array.from(types);
+    return present.length < items.length ? type.slice(0, -1) : type;
+  }
+
+  /**
+   * Parses a type reference such as `[ID!]!`
+   */
+  static parse(type: string, key: string): TypeRef {
+    const invalid = () =>
+      new Error(`Invalid GraphQL type "${type}" for "${key}"`);
+
+    const read = (source: string): [TypeRef, string] => {
+      let ref: TypeRef;
+      let rest: string;
+
+      if (source.startsWith('[')) {
+        const [ofType, remainder] = read(source.slice(1));
+        if (!remainder.startsWith(']')) throw invalid();
+        ref = { nonNull: false, ofType };
+        rest = remainder.slice(1);
+      } else {
+        const match = this.NAME_PATTERN.exec(source);
+        if (!match) throw invalid();
+        ref = { nonNull: false, name: match[0] };
+        rest = source.slice(match[0].length);
+      }
+
+      if (rest.startsWith('!')) {
+        ref.nonNull = true;
+        rest = rest.slice(1);
+      }
+      return [ref, rest];
+    };
+
+    const [ref, rest] = read(type);
+    if (rest !== '') throw invalid();
+    return ref;
+  }
+
+  /**
+   * Checks that a value can be sent as the declared type. Built-in scalars
+   * are checked strictly; enums, input objects and custom scalars only need
+   * to be JSON values.
+   */
+  private static assertValue(ref: TypeRef, value: unknown, key: string): void {
+    if (value === undefined) {
+      throw new Error(`The value of "${key}" must not be undefined`);
+    }
+    if (value === null) {
+      if (!ref.nonNull) return;
+      throw new Error(
+        `The value of "${key}" must not be null for a non-null type`
+      );
+    }
+
+    if (ref.ofType) {
+      if (!Array.isArray(value)) {
+        throw new Error(`The value of "${key}" must be a list`);
+      }
+      const { ofType } = ref;
+      value.forEach((item, index) =>
+        this.assertValue(ofType, item, `${key}[${index}]`)
+      );
+      return;
+    }
+
+    const valid = (() => {
+      switch (ref.name) {
+        case 'Int':
+          return typeof value === 'number' && this.isInt(value);
+        case 'Float':
+          return typeof value === 'number' && isFinite(value);
+        case 'String':
+          return typeof value === 'string';
+        case 'Boolean':
+          return typeof value === 'boolean';
+        case 'ID':
+          return (
+            typeof value === 'string' ||
+            (typeof value === 'number' && Number.isInteger(value))
+          );
+        default:
+          return this.isJSONValue(value);
+      }
+    })();
+
+    if (!valid) {
+      throw new Error(
+        `The value of "${key}" is not a valid ${ref.name}: ${this.describe(
+          value
+        )}`
+      );
+    }
+  }
+
+  private static isJSONValue(value: unknown): boolean {
+    if (value === null) return true;
+
+    switch (typeof value) {
+      case 'string':
+      case 'boolean':
+        return true;
+      case 'number':
+        return isFinite(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.every(item => this.isJSONValue(item));
+    }
+    if (Object.prototype.toString.call(value) === '[object Object]') {
+      return Object.values(value as object).every(
+        item => item === undefined || this.isJSONValue(item)
+      );
+    }
+    return false;
+  }
+
+  private static isInt(value: number): boolean {
+    return (
+      Number.isInteger(value) && value >= this.INT_MIN && value <= this.INT_MAX
+    );
+  }
+
+  private static describe(value: unknown): string {
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return JSON.stringify(value);
+    if (typeof value === 'object' && value !== null) return 'an object';
+    if (typeof value === 'function' || typeof value === 'symbol') {
+      return `a ${typeof value}`;
+    }
+    return String(value);
+  }
+}
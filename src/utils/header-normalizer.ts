@@ -0,0 +1,29 @@
+/**
+ * Utility class for working with HTTP header collections
+ */
+export class HeaderNormalizer {
+  /**
+   * Converts transport headers (plain objects or AxiosHeaders) into a plain
+   * object with lower-cased names and string values
+   */
+  static normalize(headers: unknown): Record<string, string> {
+    if (!headers || typeof headers !== 'object') {
+      return {};
+    }
+
+    const source =
+      typeof (headers as { toJSON?: unknown }).toJSON === 'function'
+        ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+        : (headers as Record<string, unknown>);
+
+    return Object.keys(source).reduce<Record<string, string>>((acc, key) => {
+      const value = source[key];
+      if (value !== undefined && value !== null) {
+        acc[key.toLowerCase()] = Array.isArray(value)
+          ? value.join(', ')
+          : String(value);
+      }
+      return acc;
+    }, {});
+  }
+}
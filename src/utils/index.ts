@@ -1,3 +1,12 @@
 export { ErrorHandler } from './error-handler';
 export { URLBuilder } from './url-builder';
 export { Validators } from './validators';
+export { RetryPolicy } from './retry-policy';
+export { HeaderNormalizer } from './header-normalizer';
+export { SSEParser } from './sse-parser';
+export { GraphQLTypes } from './graphql-types';
+export { SelectionBuilder } from './selection-builder';
+export { SHA256 } from './sha256';
+export { GraphQLLexer } from './graphql-lexer';
+export { GraphQLParser } from './graphql-parser';
+export { GraphQLDocuments } from './graphql-documents';
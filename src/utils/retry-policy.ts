@@ -0,0 +1,133 @@
+import { RetryContext, RetryOptions } from '../types/common';
+
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'retryOn'>> &
+  Pick<RetryOptions, 'retryOn'>;
+
+/**
+ * Utility class for retry decisions and backoff timing
+ */
+export class RetryPolicy {
+  private static readonly DEFAULTS: ResolvedRetryOptions = {
+    attempts: 3,
+    delay: 300,
+    maxDelay: 10000,
+    factor: 2,
+    jitter: true,
+    respectRetryAfter: true,
+    retryNonIdempotent: false,
+  };
+
+  private static readonly IDEMPOTENT_METHODS = new Set([
+    'GET',
+    'HEAD',
+    'OPTIONS',
+    'PUT',
+    'DELETE',
+  ]);
+
+  private static readonly RETRYABLE_STATUSES = new Set([
+    408,
+    429,
+    500,
+    502,
+    503,
+    504,
+  ]);
+
+  private static readonly RETRYABLE_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EAI_AGAIN',
+    'EPIPE',
+    'ERR_NETWORK',
+  ]);
+
+  /**
+   * Merges client-wide and per-request retry options.
+   * Returns null when retries are disabled.
+   */
+  static resolve(
+    defaults?: RetryOptions,
+    override?: RetryOptions | false
+  ): ResolvedRetryOptions | null {
+    if (override === false || (!defaults && !override)) {
+      return null;
+    }
+
+    const resolved = { ...this.DEFAULTS, ...defaults, ...override };
+    return resolved.attempts > 1 ? resolved : null;
+  }
+
+  /**
+   * Checks whether a method is safe to repeat
+   */
+  static isIdempotent(method = 'GET'): boolean {
+    return this.IDEMPOTENT_METHODS.has(method.toUpperCase());
+  }
+
+  /**
+   * Default predicate: transient statuses and network failures
+   */
+  static isRetryable({ status, code }: RetryContext): boolean {
+    if (status !== undefined) {
+      return this.RETRYABLE_STATUSES.has(status);
+    }
+    return code !== undefined && this.RETRYABLE_CODES.has(code);
+  }
+
+  /**
+   * Decides whether another attempt should be made
+   */
+  static shouldRetry(
+    options: ResolvedRetryOptions,
+    context: RetryContext,
+    idempotent: boolean
+  ): boolean {
+    if (context.attempt >= options.attempts) return false;
+    if (!idempotent && !options.retryNonIdempotent) return false;
+
+    return options.retryOn
+      ? options.retryOn(context)
+      : this.isRetryable(context);
+  }
+
+  /**
+   * Computes the delay before the next attempt
+   */
+  static getDelay(
+    options: ResolvedRetryOptions,
+    attempt: number,
+    retryAfter?: string | null
+  ): number {
+    if (options.respectRetryAfter) {
+      const requested = this.parseRetryAfter(retryAfter);
+      if (requested !== null) {
+        return Math.min(requested, options.maxDelay);
+      }
+    }
+
+    const backoff = Math.min(
+      options.delay * Math.pow(options.factor, attempt - 1),
+      options.maxDelay
+    );
+
+    return options.jitter ? Math.round(Math.random() * backoff) : backoff;
+  }
+
+  /**
+   * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+   */
+  static parseRetryAfter(value?: string | null): number | null {
+    if (value === undefined || value === null || value === '') return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return seconds >= 0 ? seconds * 1000 : null;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,236 @@
+import {
+  GraphQLArgs,
+  GraphQLDirectives,
+  GraphQLSelection,
+  GraphQLSelectionSet,
+} from '../types/graphql';
+import { GraphQLTypes } from './graphql-types';
+
+/**
+ * Selection text split around nested field arguments. Arguments become
+ * extra template holes for `buildQuery`, so their variables are declared
+ * on the operation like root arguments: `parts.length === args.length + 1`.
+ */
+export interface SerializedSelection {
+  parts: string[];
+  args: GraphQLArgs[];
+}
+
+/**
+ * Utility class for serialising structured field selections
+ */
+export class SelectionBuilder {
+  private static readonly NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+  private static readonly INLINE_FRAGMENT_PATTERN = /^\.\.\.\s*on\s+([_A-Za-z][_0-9A-Za-z]*)$/;
+  private static readonly RESERVED_KEYS = new Set([
+    '__args',
+    '__aliasFor',
+    '__directives',
+  ]);
+
+  /**
+   * Serialises a selection into the body of a selection set
+   */
+  static build(selection: GraphQLSelection): SerializedSelection {
+    const root = selection as GraphQLSelectionSet;
+    if (root && (root.__args !== undefined || root.__aliasFor !== undefined)) {
+      throw new Error(
+        '"__args" and "__aliasFor" are only allowed on nested fields'
+      );
+    }
+    if (root && root.__directives !== undefined) {
+      throw new Error(
+        '"__directives" is only allowed on nested fields, use directives() for the root field'
+      );
+    }
+
+    const serialized: SerializedSelection = { parts: [''], args: [] };
+    this.writeSelection(selection, serialized, 'selection');
+    return serialized;
+  }
+
+  /**
+   * Serialises directives of a root field or operation, e.g.
+   * ` @include(if: ...)`, with their arguments as template holes
+   */
+  static buildDirectives(
+    directives: GraphQLDirectives | undefined,
+    path: string
+  ): SerializedSelection {
+    const serialized: SerializedSelection = { parts: [''], args: [] };
+    this.writeDirectives(directives, serialized, path);
+    return serialized;
+  }
+
+  private static writeSelection(
+    selection: GraphQLSelection,
+    out: SerializedSelection,
+    path: string
+  ): void {
+    if (typeof selection === 'string') {
+      if (!selection.trim()) {
+        throw new Error(`Selection of "${path}" must not be empty`);
+      }
+      this.write(out, selection.trim());
+      return;
+    }
+
+    if (Array.isArray(selection)) {
+      if (selection.length === 0) {
+        throw new Error(`Selection of "${path}" must not be empty`);
+      }
+      selection.forEach((item, index) => {
+        if (index > 0) this.write(out, ' ');
+        this.writeSelection(item, out, path);
+      });
+      return;
+    }
+
+    if (Object.prototype.toString.call(selection) !== '[object Object]') {
+      throw new Error(
+        `Selection of "${path}" must be a string, an array or an object`
+      );
+    }
+
+    const keys = Object.keys(selection).filter(
+      key => !this.RESERVED_KEYS.has(key) && this.isSelected(selection[key])
+    );
+    if (keys.length === 0) {
+      throw new Error(`Selection of "${path}" must select at least one field`);
+    }
+
+    keys.forEach((key, index) => {
+      if (index > 0) this.write(out, ' ');
+      this.writeField(key, selection[key], out, path);
+    });
+  }
+
+  private static writeField(
+    key: string,
+    value: GraphQLSelectionSet[string],
+    out: SerializedSelection,
+    parent: string
+  ): void {
+    const path = parent === 'selection' ? key : `${parent}.${key}`;
+
+    const fragment = this.INLINE_FRAGMENT_PATTERN.exec(key);
+    if (fragment) {
+      if (value === true) {
+        throw new Error(`Inline fragment "${path}" needs a selection`);
+      }
+      this.write(out, `... on ${fragment[1]}`);
+      this.writeDirectives(
+        (value as GraphQLSelectionSet).__directives,
+        out,
+        path
+      );
+      this.write(out, ' { ');
+      this.writeSelection(value as GraphQLSelection, out, path);
+      this.write(out, ' }');
+      return;
+    }
+
+    this.assertName(key, path);
+
+    if (value === true) {
+      this.write(out, key);
+      return;
+    }
+
+    if (typeof value === 'string' || Array.isArray(value)) {
+      this.write(out, `${key} { `);
+      this.writeSelection(value, out, path);
+      this.write(out, ' }');
+      return;
+    }
+
+    const field = value as GraphQLSelectionSet;
+    const {
+      __aliasFor: aliasFor,
+      __args: args,
+      __directives: directives,
+    } = field;
+
+    if (aliasFor !== undefined) {
+      this.assertName(aliasFor, `${path}.__aliasFor`);
+      this.write(out, `${key}: ${aliasFor}`);
+    } else {
+      this.write(out, key);
+    }
+
+    if (args !== undefined) {
+      if (Object.prototype.toString.call(args) !== '[object Object]') {
+        throw new Error(`Arguments of "${path}" must be an object`);
+      }
+      this.writeArgs(args, out);
+    }
+    this.writeDirectives(directives, out, path);
+
+    const hasFields = Object.keys(field).some(
+      name => !this.RESERVED_KEYS.has(name) && this.isSelected(field[name])
+    );
+    if (hasFields) {
+      this.write(out, ' { ');
+      this.writeSelection(field, out, path);
+      this.write(out, ' }');
+    }
+  }
+
+  /**
+   * Writes `(` and `)` around a template hole, unless every argument is
+   * omitted
+   */
+  private static writeArgs(args: GraphQLArgs, out: SerializedSelection): void {
+    const hasArgs = Object.keys(args).some(
+      name => !GraphQLTypes.isOmitted(args[name])
+    );
+    if (hasArgs) {
+      this.write(out, '(');
+      out.args.push(args);
+      out.parts.push(')');
+    }
+  }
+
+  private static writeDirectives(
+    directives: GraphQLDirectives | undefined,
+    out: SerializedSelection,
+    path: string
+  ): void {
+    if (directives === undefined) return;
+    if (Object.prototype.toString.call(directives) !== '[object Object]') {
+      throw new Error(`Directives of "${path}" must be an object`);
+    }
+
+    Object.keys(directives).forEach(name => {
+      const args = directives[name];
+      if (!this.isSelected(args)) return;
+
+      if (!this.NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid directive name "${name}" in "${path}"`);
+      }
+      this.write(out, ` @${name}`);
+      if (args === true) return;
+
+      if (Object.prototype.toString.call(args) !== '[object Object]') {
+        throw new Error(
+          `Arguments of directive "@${name}" in "${path}" must be an object or true`
+        );
+      }
+      this.writeArgs(args as GraphQLArgs, out);
+    });
+  }
+
+  private static isSelected(value: unknown): boolean {
+    return value !== false && value !== undefined && value !== null;
+  }
+
+  private static assertName(name: string, path: string): void {
+    if (!this.NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid field name "${name}" in "${path}"`);
+    }
+  }
+
+  private static write(out: SerializedSelection, text: string): void {
+    out.parts[out.parts.length - 1] += text;
+  }
+}
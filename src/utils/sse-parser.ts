@@ -0,0 +1,104 @@
+import { ServerSentEvent } from '../types/transport';
+
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ * Chunks may split lines or events anywhere; complete events are returned
+ * as soon as their terminating blank line arrives.
+ */
+export class SSEParser {
+  private buffer = '';
+  private skipLineFeed = false;
+  private data: string[] = [];
+  private event = '';
+  private id?: string;
+  private retry?: number;
+
+  /**
+   * Last event id seen on the stream, including ids of events without data
+   */
+  lastEventId?: string;
+
+  /**
+   * Reconnection delay most recently requested with a `retry` field
+   */
+  reconnectionTime?: number;
+
+  constructor(lastEventId?: string) {
+    this.lastEventId = lastEventId;
+  }
+
+  /**
+   * Feeds a decoded chunk and returns the events it completed
+   */
+  push(chunk: string): ServerSentEvent[] {
+    let text = chunk;
+    // A CRLF pair may be split across chunks
+    if (this.skipLineFeed && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.skipLineFeed = text.endsWith('\r');
+
+    const lines = (this.buffer + text).split(/\r\n|\r|\n/);
+    this.buffer = this.skipLineFeed ? '' : (lines.pop() as string);
+    if (this.skipLineFeed) lines.pop();
+
+    const events: ServerSentEvent[] = [];
+    lines.forEach(line => {
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    });
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | undefined {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.event = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.id = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return undefined;
+  }
+
+  /**
+   * Completes the pending event on a blank line. Blocks without data only
+   * update the last event id and reconnection time.
+   */
+  private dispatch(): ServerSentEvent | undefined {
+    const { data, event, id, retry } = this;
+    this.data = [];
+    this.event = '';
+    this.id = undefined;
+    this.retry = undefined;
+
+    if (id !== undefined) this.lastEventId = id;
+    if (retry !== undefined) this.reconnectionTime = retry;
+    if (data.length === 0) return undefined;
+
+    const parsed: ServerSentEvent = {
+      event: event || 'message',
+      data: data.join('\n'),
+    };
+    if (this.lastEventId !== undefined && this.lastEventId !== '') {
+      parsed.id = this.lastEventId;
+    }
+    if (retry !== undefined) parsed.retry = retry;
+    return parsed;
+  }
+}
@@ -2,6 +2,13 @@
  * Input validation utilities
  */
 export class Validators {
+  private static readonly FETCH_POLICIES = [
+    'cache-first',
+    'network-only',
+    'cache-and-network',
+    'cache-only',
+  ];
+
   /**
    * Validates URL format
    */
@@ -26,11 +33,22 @@ export class Validators {
   }
 
   /**
-   * Validates GraphQL field selection
+   * Validates GraphQL field selection. Nested selections are checked
+   * when they are serialised.
    */
-  static validateFields(fields: string): void {
-    if (typeof fields !== 'string' || !fields.trim()) {
-      throw new Error('Field selection must be a non-empty string');
+  static validateFields(fields: unknown): void {
+    const valid =
+      typeof fields === 'string'
+        ? fields.trim() !== ''
+        : Array.isArray(fields)
+        ? fields.length > 0
+        : Object.prototype.toString.call(fields) === '[object Object]' &&
+          Object.keys(fields as object).length > 0;
+
+    if (!valid) {
+      throw new Error(
+        'Field selection must be a non-empty string, array or object'
+      );
     }
   }
 
@@ -43,6 +61,394 @@ export class Validators {
     }
   }
 
+  /**
+   * Validates the variables of a prebuilt document
+   */
+  static validateVariables(variables: unknown): void {
+    if (
+      variables !== undefined &&
+      Object.prototype.toString.call(variables) !== '[object Object]'
+    ) {
+      throw new Error('GraphQL variables must be an object');
+    }
+  }
+
+  /**
+   * Validates a GraphQL operation name
+   */
+  static validateOperationName(name: unknown): void {
+    if (typeof name !== 'string' || !/^[_A-Za-z][_0-9A-Za-z]*$/.test(name)) {
+      throw new Error(`Invalid operation name "${String(name)}"`);
+    }
+  }
+
+  /**
+   * Validates the root fields of a composed operation. Selections are
+   * checked when they are serialised.
+   */
+  static validateRootFields(fields: unknown): void {
+    if (
+      Object.prototype.toString.call(fields) !== '[object Object]' ||
+      Object.keys(fields as object).length === 0
+    ) {
+      throw new Error('Root fields must be a non-empty object');
+    }
+
+    const name = /^[_A-Za-z][_0-9A-Za-z]*$/;
+    Object.entries(fields as Record<string, any>).forEach(([alias, spec]) => {
+      if (!name.test(alias)) {
+        throw new Error(`Invalid alias "${alias}"`);
+      }
+      if (Object.prototype.toString.call(spec) !== '[object Object]') {
+        throw new Error(`Root field "${alias}" must be an object`);
+      }
+      if (
+        spec.field !== undefined &&
+        (typeof spec.field !== 'string' || !name.test(spec.field))
+      ) {
+        throw new Error(`Invalid field name "${spec.field}" for "${alias}"`);
+      }
+      Validators.validateGraphQLArgs(spec.args);
+      if (spec.select !== undefined) Validators.validateFields(spec.select);
+    });
+  }
+
+  /**
+   * Validates retry options
+   */
+  static validateRetryOptions(options: unknown): void {
+    if (options === false) return;
+
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Retry options must be an object or false');
+    }
+
+    const { attempts } = options as { attempts?: unknown };
+    if (
+      attempts !== undefined &&
+      (typeof attempts !== 'number' ||
+        !Number.isInteger(attempts) ||
+        attempts < 1)
+    ) {
+      throw new Error('Retry "attempts" must be a positive integer');
+    }
+  }
+
+  /**
+   * Validates abort signal
+   */
+  static validateAbortSignal(signal: unknown): void {
+    if (
+      !signal ||
+      typeof signal !== 'object' ||
+      typeof (signal as AbortSignal).aborted !== 'boolean'
+    ) {
+      throw new Error('Signal must be a valid AbortSignal');
+    }
+  }
+
+  /**
+   * Validates the `dedupe` option of clients and requests
+   */
+  static validateDedupe(dedupe: unknown): void {
+    if (typeof dedupe !== 'boolean') {
+      throw new Error('Dedupe option must be a boolean');
+    }
+  }
+
+  /**
+   * Validates the shape returned by response interceptors
+   */
+  static validateFetcherResponse(response: unknown): void {
+    if (
+      !response ||
+      Object.prototype.toString.call(response) !== '[object Object]' ||
+      !('data' in (response as object))
+    ) {
+      throw new Error(
+        'Response interceptor must return a FetcherResponse ({ data, errors? })'
+      );
+    }
+
+    const { errors } = response as { errors?: unknown };
+    if (errors !== undefined && !Array.isArray(errors)) {
+      throw new Error('Response interceptor returned invalid "errors"');
+    }
+  }
+
+  /**
+   * Validates GraphQL batching options
+   */
+  static validateBatchOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Batch options must be a boolean or an object');
+    }
+
+    const { window, maxSize } = options as {
+      window?: unknown;
+      maxSize?: unknown;
+    };
+    if (
+      window !== undefined &&
+      (typeof window !== 'number' || !Number.isFinite(window) || window < 0)
+    ) {
+      throw new Error('Batch "window" must be a non-negative number');
+    }
+    if (
+      maxSize !== undefined &&
+      (!Number.isInteger(maxSize) || (maxSize as number) < 1)
+    ) {
+      throw new Error('Batch "maxSize" must be a positive integer');
+    }
+  }
+
+  /**
+   * Validates persisted query options
+   */
+  static validatePersistedQueryOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Persisted query options must be a boolean or an object');
+    }
+
+    const { useGet, hash } = options as { useGet?: unknown; hash?: unknown };
+    if (useGet !== undefined && typeof useGet !== 'boolean') {
+      throw new Error('Persisted query "useGet" must be a boolean');
+    }
+    if (hash !== undefined && typeof hash !== 'function') {
+      throw new Error('Persisted query "hash" must be a function');
+    }
+  }
+
+  /**
+   * Validates options for sending queries with GET
+   */
+  static validateGetOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('GET options must be a boolean or an object');
+    }
+
+    const { maxUrlLength } = options as { maxUrlLength?: unknown };
+    if (
+      maxUrlLength !== undefined &&
+      (!Number.isInteger(maxUrlLength) || (maxUrlLength as number) < 1)
+    ) {
+      throw new Error('GET "maxUrlLength" must be a positive integer');
+    }
+  }
+
+  /**
+   * Validates schema options
+   */
+  static validateSchemaOptions(options: unknown): void {
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Schema options must be an object');
+    }
+
+    const { sdl, introspect } = options as {
+      sdl?: unknown;
+      introspect?: unknown;
+    };
+    if (
+      sdl !== undefined &&
+      typeof sdl !== 'string' &&
+      typeof sdl !== 'function'
+    ) {
+      throw new Error('Schema "sdl" must be a string or a function');
+    }
+    if (introspect !== undefined && typeof introspect !== 'boolean') {
+      throw new Error('Schema "introspect" must be a boolean');
+    }
+    if (sdl !== undefined && introspect) {
+      throw new Error('Schema options accept "sdl" or "introspect", not both');
+    }
+    if (sdl === undefined && !introspect) {
+      throw new Error('Schema options need either "sdl" or "introspect"');
+    }
+  }
+
+  /**
+   * Validates cache options, given to the client or to a single request
+   */
+  static validateCacheOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Cache options must be a boolean or an object');
+    }
+
+    const { ttl, staleWhileRevalidate, vary, storage } = options as Record<
+      string,
+      unknown
+    >;
+    const durations = { ttl, staleWhileRevalidate };
+    Object.entries(durations).forEach(([name, value]) => {
+      if (
+        value !== undefined &&
+        (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+      ) {
+        throw new Error(`Cache "${name}" must be a non-negative number`);
+      }
+    });
+    if (
+      vary !== undefined &&
+      (!Array.isArray(vary) || vary.some(name => typeof name !== 'string'))
+    ) {
+      throw new Error('Cache "vary" must be an array of header names');
+    }
+    Validators.validateCacheStorage(storage, 'Cache');
+  }
+
+  /**
+   * Validates conditional request options
+   */
+  static validateConditionalRequestOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error(
+        'Conditional request options must be a boolean or an object'
+      );
+    }
+    Validators.validateCacheStorage(
+      (options as { storage?: unknown }).storage,
+      'Conditional requests'
+    );
+  }
+
+  /**
+   * Validates a GraphQL fetch policy
+   */
+  static validateFetchPolicy(policy: unknown): void {
+    if (!Validators.FETCH_POLICIES.includes(policy as string)) {
+      throw new Error(
+        `Invalid fetch policy "${String(
+          policy
+        )}". Valid policies: ${Validators.FETCH_POLICIES.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Validates normalised cache options
+   */
+  static validateNormalizedCacheOptions(options: unknown): void {
+    if (typeof options === 'boolean') return;
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error(
+        'Normalized cache options must be a boolean or an object'
+      );
+    }
+
+    const { fetchPolicy, addTypename, dataId } = options as {
+      fetchPolicy?: unknown;
+      addTypename?: unknown;
+      dataId?: unknown;
+    };
+    if (fetchPolicy !== undefined) Validators.validateFetchPolicy(fetchPolicy);
+    if (addTypename !== undefined && typeof addTypename !== 'boolean') {
+      throw new Error('Normalized cache "addTypename" must be a boolean');
+    }
+    if (dataId !== undefined && typeof dataId !== 'function') {
+      throw new Error('Normalized cache "dataId" must be a function');
+    }
+  }
+
+  /**
+   * Validates the options of a watched query
+   */
+  static validateWatchOptions(options: unknown): void {
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Watch options must be an object');
+    }
+
+    const { pollInterval } = options as { pollInterval?: unknown };
+    if (
+      pollInterval !== undefined &&
+      (typeof pollInterval !== 'number' ||
+        !Number.isFinite(pollInterval) ||
+        pollInterval < 0)
+    ) {
+      throw new Error('Watch "pollInterval" must be a non-negative number');
+    }
+  }
+
+  private static validateCacheStorage(storage: unknown, owner: string): void {
+    if (
+      storage !== undefined &&
+      (!storage ||
+        ['get', 'set', 'delete', 'keys'].some(
+          method => typeof (storage as any)[method] !== 'function'
+        ))
+    ) {
+      throw new Error(
+        `${owner} "storage" must implement get, set, delete and keys`
+      );
+    }
+  }
+
+  /**
+   * Validates subscription transport options
+   */
+  static validateSubscriptionOptions(options: unknown): void {
+    if (
+      !options ||
+      Object.prototype.toString.call(options) !== '[object Object]'
+    ) {
+      throw new Error('Subscription options must be an object');
+    }
+
+    const { transport, url } = options as {
+      transport?: unknown;
+      url?: unknown;
+    };
+    if (transport === 'ws') {
+      if (typeof url !== 'string' || !/^wss?:\/\//i.test(url)) {
+        throw new Error('Subscription "url" must be a ws:// or wss:// URL');
+      }
+    } else if (transport === 'sse') {
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+        throw new Error(
+          'Subscription "url" must be an http:// or https:// URL'
+        );
+      }
+    } else {
+      throw new Error(
+        `Unknown subscription transport "${transport}". Valid transports: ws, sse`
+      );
+    }
+  }
+
   /**
    * Validates constructor arguments
    */
@@ -0,0 +1,104 @@
+import { ConditionalRequests } from '../../../src/core/conditional-requests';
+import { ConditionalEntry, FetcherResponse } from '../../../src/types';
+
+describe('ConditionalRequests', () => {
+  const url = 'https://api.example.com/users/1';
+  const respond = (
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {}
+  ): FetcherResponse => ({
+    data,
+    meta: { status, headers, duration: 1 },
+  });
+
+  let storage: Map<string, ConditionalEntry>;
+  let conditional: ConditionalRequests;
+
+  beforeEach(() => {
+    storage = new Map();
+    conditional = new ConditionalRequests({ storage });
+  });
+
+  it('should send unconditional requests for unknown URLs', async () => {
+    const send = jest.fn(async () => respond(200, { id: 1 }, { etag: '"v1"' }));
+
+    const response = await conditional.execute(url, send);
+
+    expect(send).toHaveBeenCalledWith({});
+    expect(response.data).toEqual({ id: 1 });
+    expect(storage.get(url)).toEqual({
+      response,
+      etag: '"v1"',
+      lastModified: undefined,
+    });
+  });
+
+  it('should send the stored validators', async () => {
+    const lastModified = 'Wed, 21 Oct 2026 07:28:00 GMT';
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(
+        respond(200, 1, { etag: '"v1"', 'last-modified': lastModified })
+      )
+      .mockResolvedValueOnce(respond(200, 2));
+
+    await conditional.execute(url, send);
+    await conditional.execute(url, send);
+
+    expect(send).toHaveBeenLastCalledWith({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': lastModified,
+    });
+  });
+
+  it('should answer 304 responses with the stored body', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(
+        respond(200, { id: 1 }, { etag: '"v1"', 'x-version': '1' })
+      )
+      .mockResolvedValueOnce(respond(304, null, { 'x-version': '2' }));
+
+    await conditional.execute(url, send);
+    const response = await conditional.execute(url, send);
+
+    expect(response).toEqual({
+      data: { id: 1 },
+      meta: {
+        status: 200,
+        headers: { etag: '"v1"', 'x-version': '2' },
+        duration: 1,
+      },
+    });
+  });
+
+  it('should forget URLs that stop sending validators', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(respond(200, 1, { etag: '"v1"' }))
+      .mockResolvedValueOnce(respond(200, 2));
+
+    await conditional.execute(url, send);
+    await conditional.execute(url, send);
+
+    expect(storage.has(url)).toBe(false);
+  });
+
+  it('should keep validators when a request fails', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(respond(200, 1, { etag: '"v1"' }))
+      .mockResolvedValueOnce({
+        data: null,
+        errors: [{ extensions: { code: 500 } }],
+        meta: { status: 500, headers: {}, duration: 1 },
+      });
+
+    await conditional.execute(url, send);
+    const response = await conditional.execute(url, send);
+
+    expect(response.errors).toHaveLength(1);
+    expect(storage.get(url)?.etag).toBe('"v1"');
+  });
+});
@@ -0,0 +1,149 @@
+import { EventStream } from '../../../src/core/event-stream';
+
+describe('EventStream', () => {
+  const fromValues = <T>(values: T[], teardown = jest.fn()) =>
+    new EventStream<T>(sink => {
+      values.forEach(value => sink.next(value));
+      sink.complete();
+      return teardown;
+    });
+
+  describe('subscribe', () => {
+    it('should deliver values and completion', () => {
+      const next = jest.fn();
+      const complete = jest.fn();
+
+      fromValues([1, 2]).subscribe({ next, complete });
+
+      expect(next.mock.calls).toEqual([[1], [2]]);
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept a plain callback', () => {
+      const next = jest.fn();
+      fromValues(['a']).subscribe(next);
+      expect(next).toHaveBeenCalledWith('a');
+    });
+
+    it('should tear down after synchronous completion', () => {
+      const teardown = jest.fn();
+      fromValues([1], teardown).subscribe(jest.fn());
+      expect(teardown).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a producer per subscriber', () => {
+      const producer = jest.fn(() => undefined);
+      const stream = new EventStream(producer);
+
+      stream.subscribe(jest.fn());
+      stream.subscribe(jest.fn());
+
+      expect(producer).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop delivery and tear down on unsubscribe', () => {
+      const teardown = jest.fn();
+      let emit: (value: number) => void = () => undefined;
+      const stream = new EventStream<number>(sink => {
+        emit = sink.next;
+        return teardown;
+      });
+      const next = jest.fn();
+      const complete = jest.fn();
+
+      const subscription = stream.subscribe({ next, complete });
+      emit(1);
+      subscription.unsubscribe();
+      subscription.unsubscribe();
+      emit(2);
+
+      expect(next.mock.calls).toEqual([[1]]);
+      expect(teardown).toHaveBeenCalledTimes(1);
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('should report errors instead of completion', () => {
+      const teardown = jest.fn();
+      const error = jest.fn();
+      const complete = jest.fn();
+
+      new EventStream<number>(sink => {
+        sink.error('boom');
+        sink.complete();
+        return teardown;
+      }).subscribe({ error, complete });
+
+      expect(error).toHaveBeenCalledWith('boom');
+      expect(complete).not.toHaveBeenCalled();
+      expect(teardown).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('async iteration', () => {
+    it('should iterate values until completion', async () => {
+      const values: number[] = [];
+      for await (const value of fromValues([1, 2, 3])) {
+        values.push(value);
+      }
+      expect(values).toEqual([1, 2, 3]);
+    });
+
+    it('should wait for asynchronously produced values', async () => {
+      const stream = new EventStream<string>(sink => {
+        const timer = setTimeout(() => {
+          sink.next('late');
+          sink.complete();
+        }, 10);
+        return () => clearTimeout(timer);
+      });
+
+      const iterator = stream[Symbol.asyncIterator]();
+
+      expect(await iterator.next()).toEqual({ value: 'late', done: false });
+      expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('should tear down when the loop exits early', async () => {
+      const teardown = jest.fn();
+      const stream = new EventStream<number>(sink => {
+        sink.next(1);
+        sink.next(2);
+        return teardown;
+      });
+
+      for await (const value of stream) {
+        expect(value).toBe(1);
+        break;
+      }
+
+      expect(teardown).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw errors after the buffered values', async () => {
+      const stream = new EventStream<number>(sink => {
+        sink.next(1);
+        sink.error(new Error('boom'));
+      });
+
+      const values: number[] = [];
+      await expect(
+        (async () => {
+          for await (const value of stream) values.push(value);
+        })()
+      ).rejects.toThrow('boom');
+      expect(values).toEqual([1]);
+    });
+
+    it('should reject a pending read on error', async () => {
+      const stream = new EventStream<number>(sink => {
+        const timer = setTimeout(() => sink.error(new Error('late')), 10);
+        return () => clearTimeout(timer);
+      });
+
+      const iterator = stream[Symbol.asyncIterator]();
+
+      await expect(iterator.next()).rejects.toThrow('late');
+      expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+  });
+});
@@ -30,6 +30,18 @@ describe('Fetchero', () => {
       expect(fetchero).toBeInstanceOf(Fetchero);
     });
 
+    it('should validate schema options', () => {
+      expect(() => new Fetchero({ ...validOptions, schema: {} })).toThrow(
+        'Schema options need either "sdl" or "introspect"'
+      );
+    });
+
+    it('should validate the dedupe option', () => {
+      expect(
+        () => new Fetchero({ ...validOptions, dedupe: 'yes' as any })
+      ).toThrow('Dedupe option must be a boolean');
+    });
+
     it('should handle interceptors', () => {
       const interceptors = {
         request: jest.fn(),
@@ -74,4 +86,100 @@ describe('Fetchero', () => {
       expect(gqlProxy1).toBe(gqlProxy2);
     });
   });
+
+  describe('interceptors', () => {
+    it('should expose an interceptor registry', () => {
+      const request = jest.fn();
+      const fetchero = new Fetchero({
+        ...validOptions,
+        interceptors: { request },
+      });
+
+      expect(fetchero.interceptors.request.handlers()).toEqual([request]);
+    });
+  });
+
+  describe('extend', () => {
+    it('should create a derived client', () => {
+      const fetchero = new Fetchero(validOptions);
+      const derived = fetchero.extend();
+
+      expect(derived).toBeInstanceOf(Fetchero);
+      expect(derived).not.toBe(fetchero);
+    });
+
+    it('should inherit parent interceptors', () => {
+      const request = jest.fn();
+      const fetchero = new Fetchero({
+        ...validOptions,
+        interceptors: { request },
+      });
+
+      const derived = fetchero.extend();
+
+      expect(derived.interceptors.request.handlers()).toEqual([request]);
+    });
+
+    it('should keep derived interceptors away from the parent', () => {
+      const fetchero = new Fetchero(validOptions);
+      const derived = fetchero.extend({ interceptors: { error: jest.fn() } });
+      derived.interceptors.request.use(jest.fn());
+
+      expect(derived.interceptors.error.handlers()).toHaveLength(1);
+      expect(fetchero.interceptors.request.handlers()).toEqual([]);
+      expect(fetchero.interceptors.error.handlers()).toEqual([]);
+    });
+
+    it('should inherit parent fragments', () => {
+      const fetchero = new Fetchero({
+        ...validOptions,
+        fragments: ['fragment UserFields on User { id }'],
+      });
+
+      const derived = fetchero.extend({
+        fragments: ['fragment PostFields on Post { title }'],
+      });
+
+      expect(derived.fragments.has('UserFields')).toBe(true);
+      expect(fetchero.fragments.has('PostFields')).toBe(false);
+    });
+
+    it('should share the parent schema unless overridden', () => {
+      const fetchero = new Fetchero({
+        ...validOptions,
+        schema: { sdl: 'type Query { me: ID }' },
+      });
+
+      expect(fetchero.extend().schema).toBe(fetchero.schema);
+      expect(fetchero.extend({ schema: { introspect: true } }).schema).not.toBe(
+        fetchero.schema
+      );
+    });
+
+    it('should share the parent cache unless overridden', () => {
+      const fetchero = new Fetchero({ ...validOptions, cache: true });
+
+      expect(fetchero.extend().cache).toBe(fetchero.cache);
+      expect(fetchero.extend({ cache: { ttl: 10 } }).cache).not.toBe(
+        fetchero.cache
+      );
+    });
+
+    it('should share the parent normalized cache unless overridden', () => {
+      const fetchero = new Fetchero({ ...validOptions, normalizedCache: true });
+
+      expect(fetchero.extend().normalizedCache).toBe(fetchero.normalizedCache);
+      expect(
+        fetchero.extend({ normalizedCache: { addTypename: false } })
+          .normalizedCache
+      ).not.toBe(fetchero.normalizedCache);
+    });
+
+    it('should validate overridden options', () => {
+      const fetchero = new Fetchero(validOptions);
+      expect(() => fetchero.extend({ baseUrl: 'invalid-url' })).toThrow(
+        'Fetchero: "baseUrl" must be a valid URL.'
+      );
+    });
+  });
 });
@@ -0,0 +1,148 @@
+import { FragmentRegistry } from '../../../src/core/fragment-registry';
+
+describe('FragmentRegistry', () => {
+  const userFields = 'fragment UserFields on User { id name avatar { url } }';
+  const postFields =
+    'fragment PostFields on Post { title author { ...UserFields } }';
+
+  describe('register', () => {
+    it('should register a definition by name', () => {
+      const registry = new FragmentRegistry().register(userFields);
+
+      expect(registry.has('UserFields')).toBe(true);
+      expect(registry.get('UserFields')).toBe(userFields);
+    });
+
+    it('should split sources holding several definitions', () => {
+      const registry = new FragmentRegistry().register(`
+        fragment UserFields on User {
+          id
+        }
+        fragment PostFields on Post { title }
+      `);
+
+      expect(registry.get('UserFields')).toBe(
+        'fragment UserFields on User {\n          id\n        }'
+      );
+      expect(registry.get('PostFields')).toBe(
+        'fragment PostFields on Post { title }'
+      );
+    });
+
+    it('should keep comments and braces in strings', () => {
+      const commented =
+        'fragment UserFields on User {\n  id # the id\n  name\n}';
+      const quoted = 'fragment Avatar on User @cached { avatar(size: "}") }';
+      const registry = new FragmentRegistry().register(commented, quoted);
+
+      expect(registry.get('UserFields')).toBe(commented);
+      expect(registry.get('Avatar')).toBe(quoted);
+    });
+
+    it('should reject duplicate names', () => {
+      const registry = new FragmentRegistry().register(userFields);
+
+      expect(() => registry.register(userFields)).toThrow(
+        'Fragment "UserFields" is already registered'
+      );
+    });
+
+    it('should reject names registered on the parent', () => {
+      const parent = new FragmentRegistry().register(userFields);
+
+      expect(() => new FragmentRegistry(parent).register(userFields)).toThrow(
+        'Fragment "UserFields" is already registered'
+      );
+    });
+
+    it.each([
+      ['', 'Fragment definition must be a non-empty string'],
+      ['{ id }', 'Invalid fragment definition: "{ id }"'],
+      [
+        'fragment UserFields on User { id',
+        'Invalid fragment definition: "fragment UserFields on User { id"',
+      ],
+      ['fragment on on User { id }', 'Fragment name must not be "on"'],
+    ])('should reject invalid definition %p', (source, message) => {
+      expect(() => new FragmentRegistry().register(source)).toThrow(message);
+    });
+  });
+
+  describe('from', () => {
+    it('should inherit parent fragments without sharing its own', () => {
+      const parent = FragmentRegistry.from([userFields]);
+      const child = FragmentRegistry.from([postFields], parent);
+
+      expect(child.has('UserFields')).toBe(true);
+      expect(parent.has('PostFields')).toBe(false);
+    });
+
+    it('should require an array', () => {
+      expect(() => FragmentRegistry.from(userFields as any)).toThrow(
+        'Fragments must be an array of fragment definitions'
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    const registry = FragmentRegistry.from([userFields, postFields]);
+
+    it('should leave documents without spreads untouched', () => {
+      const document = 'query { user { id ... on Admin { role } } }';
+      expect(registry.resolve(document)).toBe(document);
+    });
+
+    it('should append spread fragments', () => {
+      expect(registry.resolve('query { user { ...UserFields } }')).toBe(
+        `query { user { ...UserFields } }\n${userFields}`
+      );
+    });
+
+    it('should append fragments after a trailing comment', () => {
+      expect(registry.resolve('{ user { ...UserFields } } # the user')).toBe(
+        `{ user { ...UserFields } } # the user\n${userFields}`
+      );
+    });
+
+    it('should append transitive fragments once', () => {
+      expect(
+        registry.resolve(
+          'query { posts { ...PostFields } me { ...UserFields } }'
+        )
+      ).toBe(
+        `query { posts { ...PostFields } me { ...UserFields } }\n${postFields}\n${userFields}`
+      );
+    });
+
+    it('should not append fragments the document defines', () => {
+      const document = `query { user { ...UserFields } } ${userFields}`;
+      expect(registry.resolve(document)).toBe(document);
+    });
+
+    it('should ignore spreads in comments and strings', () => {
+      const commented = '# ...Nope\n{ user { id } }';
+      const quoted = '{ user(q: "...Nope") { id } }';
+      const block = '{ user(q: """fragment Nope on User ...Nope""") { id } }';
+
+      expect(registry.resolve(commented)).toBe(commented);
+      expect(registry.resolve(quoted)).toBe(quoted);
+      expect(registry.resolve(block)).toBe(block);
+    });
+
+    it('should not count definitions in comments as defined', () => {
+      expect(
+        registry.resolve(
+          '# fragment UserFields on User { id }\n{ user { ...UserFields } }'
+        )
+      ).toBe(
+        `# fragment UserFields on User { id }\n{ user { ...UserFields } }\n${userFields}`
+      );
+    });
+
+    it('should reject unknown fragments', () => {
+      expect(() => registry.resolve('query { user { ...Missing } }')).toThrow(
+        'Unknown fragment "Missing"'
+      );
+    });
+  });
+});
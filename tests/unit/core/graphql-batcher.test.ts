@@ -0,0 +1,137 @@
+import { GraphQLBatcher } from '../../../src/core/graphql-batcher';
+import { HttpClient } from '../../../src/core/http-client';
+
+describe('GraphQLBatcher', () => {
+  const url = 'https://api.example.com/graphql';
+  const headers = { 'Content-Type': 'application/json' };
+  let httpClient: jest.Mocked<HttpClient>;
+
+  const request = (query: string) => ({ query, variables: {} });
+
+  beforeEach(() => {
+    httpClient = {
+      makeRequest: jest.fn(async () => ({ data: 'single' })),
+      makeBatchRequest: jest.fn(async config =>
+        (config.data as unknown[]).map((_, index) => ({ data: index }))
+      ),
+    } as any;
+  });
+
+  it('should send operations issued in the same tick as one request', async () => {
+    const batcher = new GraphQLBatcher(httpClient);
+
+    const responses = await Promise.all([
+      batcher.enqueue(url, headers, request('{ a }'), { idempotent: true }),
+      batcher.enqueue(url, headers, request('{ b }'), { idempotent: true }),
+    ]);
+
+    expect(httpClient.makeBatchRequest).toHaveBeenCalledTimes(1);
+    expect(httpClient.makeBatchRequest).toHaveBeenCalledWith(
+      {
+        url,
+        method: 'POST',
+        headers,
+        data: [request('{ a }'), request('{ b }')],
+      },
+      { idempotent: true }
+    );
+    expect(responses).toEqual([{ data: 0 }, { data: 1 }]);
+  });
+
+  it('should send a lone operation as a regular request', async () => {
+    const batcher = new GraphQLBatcher(httpClient);
+
+    const response = await batcher.enqueue(url, headers, request('{ a }'), {
+      idempotent: false,
+    });
+
+    expect(response).toEqual({ data: 'single' });
+    expect(httpClient.makeRequest).toHaveBeenCalledWith(
+      { url, method: 'POST', headers, data: request('{ a }') },
+      { idempotent: false }
+    );
+    expect(httpClient.makeBatchRequest).not.toHaveBeenCalled();
+  });
+
+  it('should collect operations within the window', async () => {
+    const batcher = new GraphQLBatcher(httpClient, { window: 20 });
+
+    const first = batcher.enqueue(url, headers, request('{ a }'), {
+      idempotent: true,
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = batcher.enqueue(url, headers, request('{ b }'), {
+      idempotent: true,
+    });
+
+    await Promise.all([first, second]);
+    expect(httpClient.makeBatchRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send full batches at once', async () => {
+    const batcher = new GraphQLBatcher(httpClient, { maxSize: 2 });
+
+    await Promise.all(
+      ['{ a }', '{ b }', '{ c }'].map(query =>
+        batcher.enqueue(url, headers, request(query), { idempotent: true })
+      )
+    );
+
+    expect(httpClient.makeBatchRequest).toHaveBeenCalledTimes(1);
+    expect(httpClient.makeBatchRequest.mock.calls[0][0].data).toHaveLength(2);
+    expect(httpClient.makeRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should batch per URL and headers', async () => {
+    const batcher = new GraphQLBatcher(httpClient);
+
+    await Promise.all([
+      batcher.enqueue(url, headers, request('{ a }'), { idempotent: true }),
+      batcher.enqueue(url, { ...headers, 'X-Tenant': '1' }, request('{ b }'), {
+        idempotent: true,
+      }),
+    ]);
+
+    expect(httpClient.makeRequest).toHaveBeenCalledTimes(2);
+    expect(httpClient.makeBatchRequest).not.toHaveBeenCalled();
+  });
+
+  it('should not retry batches containing mutations', async () => {
+    const batcher = new GraphQLBatcher(httpClient);
+
+    await Promise.all([
+      batcher.enqueue(url, headers, request('{ a }'), { idempotent: true }),
+      batcher.enqueue(url, headers, request('mutation { b }'), {
+        idempotent: false,
+      }),
+    ]);
+
+    expect(httpClient.makeBatchRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      { idempotent: false }
+    );
+  });
+
+  it('should drop operations aborted before the batch is sent', async () => {
+    const batcher = new GraphQLBatcher(httpClient);
+    const controller = new AbortController();
+
+    const aborted = batcher.enqueue(url, headers, request('{ a }'), {
+      idempotent: true,
+      signal: controller.signal,
+    });
+    const kept = batcher.enqueue(url, headers, request('{ b }'), {
+      idempotent: true,
+    });
+    controller.abort();
+
+    expect((await aborted).errors![0].extensions.code).toBe('499');
+    expect(await kept).toEqual({ data: 'single' });
+    expect(
+      httpClient.makeRequest
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ data: request('{ b }') }),
+      { idempotent: true }
+    );
+  });
+});
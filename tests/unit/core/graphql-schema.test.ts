@@ -0,0 +1,251 @@
+import { GraphQLSchema } from '../../../src/core/graphql-schema';
+
+describe('GraphQLSchema', () => {
+  const sdl = `
+    """The root query"""
+    type Query {
+      user(id: ID!): User
+      users(filter: UserFilter, first: Int = 10): [User!]!
+      node(id: ID!): Node
+    }
+
+    type Mutation {
+      createUser(input: CreateUserInput!): User
+    }
+
+    interface Node {
+      id: ID!
+    }
+
+    type User implements Node @key(fields: "id") {
+      id: ID!
+      name: String
+      role: Role
+      friends(first: Int): [User!]!
+    }
+
+    enum Role {
+      ADMIN
+      MEMBER
+    }
+
+    input UserFilter {
+      role: Role
+      name: String
+    }
+
+    input CreateUserInput {
+      name: String!
+      role: Role = MEMBER
+    }
+
+    directive @key(fields: String!) repeatable on OBJECT | INTERFACE
+  `;
+  const schema = GraphQLSchema.fromSDL(sdl);
+
+  const messages = (document: string) =>
+    schema.validate(document).map(({ message }) => message);
+
+  describe('fromSDL', () => {
+    it('should read types, fields and arguments', () => {
+      const user = schema.getRootType('query')!.fields.get('user')!;
+      expect(user.type).toBe('User');
+      expect(user.args.get('id')).toEqual({
+        name: 'id',
+        type: 'ID!',
+        hasDefault: false,
+      });
+      expect(schema.getType('[User!]!')!.kind).toBe('OBJECT');
+      expect(Array.from(schema.getType('Role')!.enumValues)).toEqual([
+        'ADMIN',
+        'MEMBER',
+      ]);
+      expect(schema.getRootType('subscription')).toBeUndefined();
+    });
+
+    it('should use the root types of a schema definition', () => {
+      const custom = GraphQLSchema.fromSDL(
+        'schema { query: Root } type Root { ok: Boolean }'
+      );
+      expect(custom.getRootType('query')!.name).toBe('Root');
+    });
+
+    it('should reject invalid SDL', () => {
+      expect(() => GraphQLSchema.fromSDL('')).toThrow(
+        'Schema SDL must be a non-empty string'
+      );
+      expect(() => GraphQLSchema.fromSDL('query { a }')).toThrow(
+        'Unsupported schema definition "query"'
+      );
+      expect(() => GraphQLSchema.fromSDL('type Query { a: }')).toThrow(
+        'Syntax error at position 16: Expected a name, found "}"'
+      );
+    });
+  });
+
+  describe('fromIntrospection', () => {
+    const named = (kind: string, name: string) => ({ kind, name });
+    const nonNull = (ofType: { kind: string; name: string }) => ({
+      kind: 'NON_NULL',
+      ofType,
+    });
+
+    const introspection = {
+      __schema: {
+        queryType: { name: 'Query' },
+        types: [
+          {
+            kind: 'OBJECT' as const,
+            name: 'Query',
+            fields: [
+              {
+                name: 'user',
+                args: [
+                  {
+                    name: 'id',
+                    type: nonNull(named('SCALAR', 'ID')),
+                    defaultValue: null,
+                  },
+                ],
+                type: named('OBJECT', 'User'),
+              },
+            ],
+          },
+          {
+            kind: 'OBJECT' as const,
+            name: 'User',
+            fields: [
+              { name: 'id', args: [], type: nonNull(named('SCALAR', 'ID')) },
+            ],
+          },
+        ],
+      },
+    };
+
+    it('should read an introspection result', () => {
+      const fromResult = GraphQLSchema.fromIntrospection({
+        data: introspection,
+      });
+
+      expect(
+        fromResult
+          .getRootType('query')!
+          .fields.get('user')!
+          .args.get('id')
+      ).toEqual({ name: 'id', type: 'ID!', hasDefault: false });
+      expect(
+        fromResult.validate('query { user(id: "1") { id name } }')
+      ).toEqual([
+        {
+          message: 'Cannot query field "name" on type "User".',
+          extensions: {
+            code: 'GRAPHQL_VALIDATION_FAILED',
+            message: 'Cannot query field "name" on type "User".',
+          },
+          path: ['user', 'name'],
+        },
+      ]);
+    });
+
+    it('should reject results without types', () => {
+      expect(() => GraphQLSchema.fromIntrospection({} as any)).toThrow(
+        'Introspection result must contain "__schema.types"'
+      );
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept valid documents', () => {
+      expect(
+        schema.validate(`
+          query GetUsers($role: Role, $skip: Boolean!) {
+            users(filter: { role: $role }) {
+              ...UserFields
+              friends(first: 2) @skip(if: $skip) { id }
+            }
+            node(id: "1") { id ... on User { name } __typename }
+          }
+          fragment UserFields on User { id name role }
+        `)
+      ).toEqual([]);
+      expect(
+        messages(
+          'mutation ($input_0: CreateUserInput!) { createUser(input: $input_0) { id } }'
+        )
+      ).toEqual([]);
+    });
+
+    it('should report unknown fields and arguments', () => {
+      expect(messages('query { user(id: 1, nope: 2) { id email } }')).toEqual([
+        'Unknown argument "nope" on field "Query.user".',
+        'Cannot query field "email" on type "User".',
+      ]);
+    });
+
+    it('should report missing and invalid selections', () => {
+      expect(messages('query { users { name { first } } user }')).toEqual([
+        'Field "name" must not have a selection since type "String" has no subfields.',
+        'Field "Query.user" argument "id" of type "ID!" is required, but it was not provided.',
+        'Field "user" of type "User" must have a selection of subfields.',
+      ]);
+    });
+
+    it('should report invalid values', () => {
+      expect(
+        messages(
+          'query { users(filter: { role: OWNER, age: 3 }, first: "ten") { id } }'
+        )
+      ).toEqual([
+        'Value "OWNER" does not exist in "Role" enum.',
+        'Field "age" is not defined by type "UserFilter".',
+        'Expected value of type "Int", found "ten".',
+      ]);
+      expect(
+        messages('mutation { createUser(input: { role: ADMIN }) { id } }')
+      ).toEqual([
+        'Field "CreateUserInput.name" of required type "String!" was not provided.',
+      ]);
+    });
+
+    it('should report undefined and mismatched variables', () => {
+      expect(
+        schema.validate(
+          'query ($id_0: Int!) { user(id: $id_0) { id } node(id: $other) { id } }'
+        )
+      ).toEqual([
+        expect.objectContaining({
+          message:
+            'Variable "$id_0" of type "Int!" used in position expecting type "ID!".',
+          path: ['user'],
+        }),
+        expect.objectContaining({
+          message: 'Variable "$other" is not defined.',
+          path: ['node'],
+        }),
+      ]);
+    });
+
+    it('should report unknown fragments and operation types', () => {
+      expect(messages('query { user(id: 1) { ...Missing } }')).toEqual([
+        'Unknown fragment "Missing".',
+      ]);
+      expect(messages('subscription { userUpdated { id } }')).toEqual([
+        'Schema is not configured for subscriptions.',
+      ]);
+    });
+
+    it('should report syntax errors', () => {
+      expect(schema.validate('query { user(id: 1) { id }')).toEqual([
+        {
+          message:
+            'Syntax error at position 26: Expected a name, found end of document',
+          extensions: {
+            code: 'GRAPHQL_PARSE_FAILED',
+            message:
+              'Syntax error at position 26: Expected a name, found end of document',
+          },
+        },
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { HttpClient } from '../../../src/core/http-client';
+import { InterceptorManager } from '../../../src/core/interceptor-manager';
 
 const createMockResponse = <T = any>(
   data: T,
@@ -65,6 +66,7 @@ describe('HttpClient', () => {
 
       expect(result).toEqual({
         data: { id: 1, name: 'Test' },
+        meta: { status: 200, headers: {}, duration: expect.any(Number) },
       });
     });
 
@@ -161,6 +163,20 @@ describe('HttpClient', () => {
       );
     });
 
+    it('should not run request interceptors for prepared requests', async () => {
+      const interceptor = jest.fn(config => config);
+      httpClient = new HttpClient(baseUrl, headers, { request: interceptor });
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: {} }));
+
+      await httpClient.makePreparedRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(interceptor).not.toHaveBeenCalled();
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle async request interceptor', async () => {
       const requestInterceptor = jest.fn(async config => {
         await new Promise(resolve => setTimeout(resolve, 10));
@@ -181,7 +197,7 @@ describe('HttpClient', () => {
       expect(requestInterceptor).toHaveBeenCalled();
     });
 
-    it.skip('should handle response interceptor', async () => {
+    it('should handle response interceptor', async () => {
       const responseInterceptor = jest.fn(response => ({
         ...response,
         data: { intercepted: true },
@@ -200,8 +216,34 @@ describe('HttpClient', () => {
         method: 'GET',
       });
 
-      expect(responseInterceptor).toHaveBeenCalled();
-      expect(result).toEqual({ intercepted: true });
+      expect(responseInterceptor).toHaveBeenCalledWith(
+        expect.objectContaining({ data: 'original' }),
+        expect.objectContaining({ status: 200 })
+      );
+      expect(result.data).toEqual({ intercepted: true });
+    });
+
+    it('should chain response interceptors', async () => {
+      httpClient = new HttpClient(baseUrl, headers);
+      httpClient.interceptors.response.use(response => ({
+        ...response,
+        data: `${response.data}-first`,
+      }));
+      httpClient.interceptors.response.use(response => ({
+        ...response,
+        data: `${response.data}-second`,
+      }));
+
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: 'original' })
+      );
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(result.data).toBe('original-first-second');
     });
 
     it('should handle missing URL error', async () => {
@@ -294,6 +336,30 @@ describe('HttpClient', () => {
       expect(result.errors![0].extensions.message).toBe('Invalid input');
     });
 
+    it('should keep GraphQL errors of HTTP error responses', async () => {
+      mockAxiosFunction.mockRejectedValue(
+        createMockError('Request failed with status code 404', 404, {
+          errors: [
+            {
+              message: 'PersistedQueryNotFound',
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            },
+          ],
+        })
+      );
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/graphql',
+        method: 'GET',
+      });
+
+      expect(result.data).toBeNull();
+      expect(result.errors![0].extensions.code).toBe(
+        'PERSISTED_QUERY_NOT_FOUND'
+      );
+      expect(result.meta!.status).toBe(404);
+    });
+
     it('should handle generic error', async () => {
       const genericError = createMockError('Something went wrong');
       mockAxiosFunction.mockRejectedValue(genericError);
@@ -341,4 +407,674 @@ describe('HttpClient', () => {
       expect(result.data).toBeNull(); // Because it expects { data: ... } format
     });
   });
+
+  describe('makeBatchRequest', () => {
+    const config = {
+      url: 'https://api.example.com/graphql',
+      method: 'POST',
+      data: [{ query: '{ a }' }, { query: '{ b }' }],
+    };
+
+    it('should return one response per operation', async () => {
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse([
+          { data: { a: 1 } },
+          { data: null, errors: [{ extensions: { code: '404' } }] },
+        ])
+      );
+
+      const [first, second] = await httpClient.makeBatchRequest(config);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(mockAxiosFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ data: config.data })
+      );
+      expect(first.data).toEqual({ a: 1 });
+      expect(first.errors).toBeUndefined();
+      expect(second.data).toBeNull();
+      expect(second.errors![0].extensions.code).toBe('404');
+      expect(second.meta!.status).toBe(200);
+    });
+
+    it('should run response interceptors per operation', async () => {
+      const interceptors = new InterceptorManager();
+      const response = jest.fn(async result => ({ ...result, data: 'seen' }));
+      interceptors.response.use(response);
+      httpClient = new HttpClient(baseUrl, headers, interceptors);
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse([{ data: 1 }, { data: 2 }])
+      );
+
+      const responses = await httpClient.makeBatchRequest(config);
+
+      expect(response).toHaveBeenCalledTimes(2);
+      expect(responses.map(result => result.data)).toEqual(['seen', 'seen']);
+    });
+
+    it('should reject responses that are not batched', async () => {
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: {} }));
+
+      const responses = await httpClient.makeBatchRequest(config);
+
+      expect(responses).toHaveLength(2);
+      expect(responses[0].errors![0].extensions.message).toBe(
+        'Batched response must be an array with one result per operation'
+      );
+    });
+
+    it('should report a failed batch on every operation', async () => {
+      mockAxiosFunction.mockRejectedValue(createMockError('Server Error', 500));
+
+      const responses = await httpClient.makeBatchRequest(config);
+
+      expect(responses).toHaveLength(2);
+      responses.forEach(result =>
+        expect(result.errors![0].extensions.code).toBe('500')
+      );
+    });
+  });
+
+  describe('retry', () => {
+    const fastRetry = { attempts: 3, delay: 0, jitter: false };
+
+    it('should not retry by default', async () => {
+      mockAxiosFunction.mockRejectedValue(
+        createMockError('Service unavailable', 503)
+      );
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(result.errors![0].extensions.code).toBe('503');
+    });
+
+    it('should retry transient failures until success', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction
+        .mockRejectedValueOnce(createMockError('Service unavailable', 503))
+        .mockRejectedValueOnce(
+          Object.assign(createMockError('socket hang up'), {
+            code: 'ECONNRESET',
+          })
+        )
+        .mockResolvedValueOnce(createMockResponse({ data: { ok: true } }));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(3);
+      expect(result.data).toEqual({ ok: true });
+    });
+
+    it('should give up after max attempts', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction.mockRejectedValue(
+        createMockError('Bad gateway', 502, { message: 'Bad gateway' })
+      );
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(3);
+      expect(result.errors![0].extensions.code).toBe('502');
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Not found', 404));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST unless opted in', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'POST',
+      });
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+
+      mockAxiosFunction.mockClear();
+      await httpClient.makeRequest(
+        { url: 'https://api.example.com/test', method: 'POST' },
+        { retry: { retryNonIdempotent: true } }
+      );
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should respect the idempotent override', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      await httpClient.makeRequest(
+        { url: 'https://api.example.com/graphql', method: 'POST' },
+        { idempotent: true }
+      );
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should enable retries per request', async () => {
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      await httpClient.makeRequest(
+        { url: 'https://api.example.com/test', method: 'GET' },
+        { retry: { attempts: 2, delay: 0 } }
+      );
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should disable retries per request', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: fastRetry,
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      await httpClient.makeRequest(
+        { url: 'https://api.example.com/test', method: 'GET' },
+        { retry: false }
+      );
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a custom retry predicate', async () => {
+      const retryOn = jest.fn(({ status }) => status === 409);
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: { ...fastRetry, retryOn },
+      });
+      mockAxiosFunction
+        .mockRejectedValueOnce(createMockError('Conflict', 409))
+        .mockResolvedValueOnce(createMockResponse({ data: 'done' }));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(retryOn).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, method: 'GET', status: 409 })
+      );
+      expect(result.data).toBe('done');
+    });
+
+    it('should wait for Retry-After before retrying', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: { attempts: 2, delay: 0 },
+      });
+      const throttled = createMockError('Too many requests', 429);
+      throttled.response!.headers = { 'retry-after': '0.05' };
+      mockAxiosFunction
+        .mockRejectedValueOnce(throttled)
+        .mockResolvedValueOnce(createMockResponse({ data: 'done' }));
+
+      const startedAt = Date.now();
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run the request interceptor only once', async () => {
+      const requestInterceptor = jest.fn(config => config);
+      httpClient = new HttpClient(
+        baseUrl,
+        headers,
+        { request: requestInterceptor },
+        { retry: fastRetry }
+      );
+      mockAxiosFunction
+        .mockRejectedValueOnce(createMockError('Unavailable', 503))
+        .mockResolvedValueOnce(createMockResponse({ data: 'done' }));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(requestInterceptor).toHaveBeenCalledTimes(1);
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    const createCanceledError = () =>
+      Object.assign(new Error('canceled'), {
+        name: 'CanceledError',
+        code: 'ERR_CANCELED',
+      });
+
+    it('should pass the abort signal to axios', async () => {
+      const controller = new AbortController();
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: 'ok' }));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+        signal: controller.signal,
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should report cancellation as a distinct error', async () => {
+      mockAxiosFunction.mockRejectedValue(createCanceledError());
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(result.data).toBeNull();
+      expect(result.errors![0].extensions.code).toBe('499');
+      expect(result.errors![0].extensions.message).toBe('Request cancelled');
+    });
+
+    it('should recognise DOM abort errors', async () => {
+      mockAxiosFunction.mockRejectedValue(
+        Object.assign(new Error('aborted'), { name: 'AbortError' })
+      );
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(result.errors![0].extensions.code).toBe('499');
+    });
+
+    it('should never retry cancelled requests', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: { attempts: 3, delay: 0, retryOn: () => true },
+      });
+      mockAxiosFunction.mockRejectedValue(createCanceledError());
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for a retry when aborted', async () => {
+      const controller = new AbortController();
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        retry: { attempts: 3, delay: 10000, jitter: false },
+      });
+      mockAxiosFunction.mockImplementation(async () => {
+        setTimeout(() => controller.abort(), 10);
+        throw createMockError('Unavailable', 503);
+      });
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+        signal: controller.signal,
+      });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(result.errors![0].extensions.code).toBe('499');
+    });
+  });
+
+  describe('interceptor pipeline', () => {
+    it('should run request interceptors in priority order', async () => {
+      const calls: string[] = [];
+      httpClient.interceptors.request.use(config => {
+        calls.push('tracing');
+        return { ...config, headers: { ...config.headers, 'X-Trace': '1' } };
+      });
+      httpClient.interceptors.request.use(
+        config => {
+          calls.push('auth');
+          return { ...config, headers: { ...config.headers, 'X-Auth': '1' } };
+        },
+        { priority: 10 }
+      );
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: 'ok' }));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(calls).toEqual(['auth', 'tracing']);
+      expect(mockAxiosFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: { 'X-Auth': '1', 'X-Trace': '1' },
+        })
+      );
+    });
+
+    it('should skip ejected interceptors', async () => {
+      const interceptor = jest.fn(config => config);
+      const id = httpClient.interceptors.request.use(interceptor);
+      httpClient.interceptors.request.eject(id);
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: 'ok' }));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+
+    it('should let error interceptors recover', async () => {
+      const errorInterceptor = jest.fn(() => ({ data: 'fallback' }));
+      httpClient.interceptors.error.use(errorInterceptor);
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(errorInterceptor).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Unavailable' }),
+        expect.objectContaining({ url: 'https://api.example.com/test' })
+      );
+      expect(result).toEqual({
+        data: 'fallback',
+        meta: { status: 503, headers: {}, duration: expect.any(Number) },
+      });
+    });
+
+    it('should let error interceptors rewrite failures', async () => {
+      httpClient.interceptors.error.use(() => {
+        throw createMockError('Session expired', 401, {
+          message: 'Session expired',
+        });
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Forbidden', 403));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(result.errors![0].extensions.code).toBe('401');
+      expect(result.errors![0].extensions.message).toBe('Session expired');
+    });
+
+    it('should pass errors through interceptors that return nothing', async () => {
+      const observed: unknown[] = [];
+      httpClient.interceptors.error.use(error => {
+        observed.push(error);
+      });
+      httpClient.interceptors.error.use(error => {
+        observed.push(error);
+      });
+      mockAxiosFunction.mockRejectedValue(createMockError('Not found', 404));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(observed).toHaveLength(2);
+      expect(observed[0]).toBe(observed[1]);
+      expect(result.errors![0].extensions.code).toBe('404');
+    });
+
+    it('should share an injected interceptor manager', async () => {
+      const manager = new InterceptorManager();
+      const interceptor = jest.fn(config => config);
+      manager.request.use(interceptor);
+      httpClient = new HttpClient(baseUrl, headers, manager);
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: 'ok' }));
+
+      await httpClient.makeRequest({
+        url: 'https://api.example.com/test',
+        method: 'GET',
+      });
+
+      expect(httpClient.interceptors).toBe(manager);
+      expect(interceptor).toHaveBeenCalled();
+    });
+  });
+
+  describe('response metadata', () => {
+    it('should expose status, headers and duration', async () => {
+      mockAxiosFunction.mockResolvedValue({
+        ...createMockResponse({ data: [] }, 200),
+        headers: {
+          ETag: '"v1"',
+          Link: '<https://api.example.com/users?page=2>; rel="next"',
+          'X-RateLimit-Remaining': 42,
+        },
+      });
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+      });
+
+      expect(result.meta).toEqual({
+        status: 200,
+        headers: {
+          etag: '"v1"',
+          link: '<https://api.example.com/users?page=2>; rel="next"',
+          'x-ratelimit-remaining': '42',
+        },
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should read AxiosHeaders instances', async () => {
+      mockAxiosFunction.mockResolvedValue({
+        ...createMockResponse({ data: [] }),
+        headers: { toJSON: () => ({ 'Content-Type': 'application/json' }) },
+      });
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+      });
+
+      expect(result.meta!.headers).toEqual({
+        'content-type': 'application/json',
+      });
+    });
+
+    it('should measure the request duration', async () => {
+      mockAxiosFunction.mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        return createMockResponse({ data: 'slow' }) as any;
+      });
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/slow',
+        method: 'GET',
+      });
+
+      expect(result.meta!.duration).toBeGreaterThanOrEqual(25);
+    });
+
+    it('should include metadata on HTTP error responses', async () => {
+      const error = createMockError('Too many requests', 429);
+      error.response!.headers = { 'Retry-After': '30' };
+      mockAxiosFunction.mockRejectedValue(error);
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+      });
+
+      expect(result.meta).toEqual({
+        status: 429,
+        headers: { 'retry-after': '30' },
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should include synthesised metadata on network errors', async () => {
+      const timeoutError = createMockError('timeout of 5000ms exceeded');
+      timeoutError.code = 'ECONNABORTED';
+      mockAxiosFunction.mockRejectedValue(timeoutError);
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+      });
+
+      expect(result.meta).toEqual({
+        status: 408,
+        headers: {},
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should keep metadata when response interceptors drop it', async () => {
+      httpClient.interceptors.response.use(({ data }) => ({ data }));
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ data: 'ok' }));
+
+      const result = await httpClient.makeRequest({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+      });
+
+      expect(result.meta!.status).toBe(200);
+    });
+  });
+
+  describe('deduplication', () => {
+    const url = 'https://api.example.com/users/42';
+
+    beforeEach(() => {
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { id: 42 } })
+      );
+    });
+
+    it('should share one request between identical GET requests in flight', async () => {
+      const [first, second] = await Promise.all([
+        httpClient.makeRequest({ url, method: 'GET', headers: { A: '1' } }),
+        httpClient.makeRequest({ url, method: 'get', headers: { a: '1' } }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+      expect(first.data).toEqual({ id: 42 });
+    });
+
+    it('should send again once the request has settled', async () => {
+      await httpClient.makeRequest({ url, method: 'GET' });
+      await httpClient.makeRequest({ url, method: 'GET' });
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should tell apart requests with other URLs, headers or bodies', async () => {
+      await Promise.all([
+        httpClient.makeRequest({ url, method: 'GET' }),
+        httpClient.makeRequest({ url: `${url}?full=1`, method: 'GET' }),
+        httpClient.makeRequest({
+          url,
+          method: 'GET',
+          headers: { Authorization: 'Bearer b' },
+        }),
+        httpClient.makeRequest({ url, method: 'GET', params: { page: 2 } }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(4);
+    });
+
+    it('should share idempotent requests that opt in', async () => {
+      const query = { url, method: 'POST', data: { query: '{ me { id } }' } };
+
+      await Promise.all([
+        httpClient.makeRequest(query, { idempotent: true, dedupe: true }),
+        httpClient.makeRequest(query, { idempotent: true, dedupe: true }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never share writes unless they opt in', async () => {
+      const create = { url, method: 'POST', data: { name: 'Ann' } };
+
+      await Promise.all([
+        httpClient.makeRequest(create),
+        httpClient.makeRequest(create),
+        httpClient.makeRequest(create, { dedupe: true }),
+        httpClient.makeRequest(create, { idempotent: false, dedupe: true }),
+        httpClient.makeRequest({ url, method: 'PUT', data: {} }),
+        httpClient.makeRequest({ url, method: 'PUT', data: {} }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(6);
+    });
+
+    it('should not share requests that opt out or carry a signal', async () => {
+      await Promise.all([
+        httpClient.makeRequest({ url, method: 'GET' }),
+        httpClient.makeRequest({ url, method: 'GET' }, { dedupe: false }),
+        httpClient.makeRequest({
+          url,
+          method: 'GET',
+          signal: new AbortController().signal,
+        }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not share requests when disabled for the client', async () => {
+      httpClient = new HttpClient(baseUrl, headers, undefined, {
+        dedupe: false,
+      });
+
+      await Promise.all([
+        httpClient.makeRequest({ url, method: 'GET' }),
+        httpClient.makeRequest({ url, method: 'GET' }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share failures too', async () => {
+      mockAxiosFunction.mockRejectedValue(createMockError('Boom', 500));
+
+      const [first, second] = await Promise.all([
+        httpClient.makeRequest({ url, method: 'GET' }, { retry: false }),
+        httpClient.makeRequest({ url, method: 'GET' }, { retry: false }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+      expect(first.errors![0].extensions.message).toBe('Boom');
+    });
+  });
 });
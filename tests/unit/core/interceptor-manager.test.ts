@@ -0,0 +1,137 @@
+import { InterceptorManager } from '../../../src/core/interceptor-manager';
+
+describe('InterceptorManager', () => {
+  let manager: InterceptorManager;
+
+  beforeEach(() => {
+    manager = new InterceptorManager();
+  });
+
+  describe('use', () => {
+    it('should register interceptors in registration order', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+
+      manager.request.use(first);
+      manager.request.use(second);
+
+      expect(manager.request.handlers()).toEqual([first, second]);
+    });
+
+    it('should order interceptors by priority', () => {
+      const low = jest.fn();
+      const high = jest.fn();
+      const normal = jest.fn();
+
+      manager.response.use(low, { priority: -10 });
+      manager.response.use(high, { priority: 10 });
+      manager.response.use(normal);
+
+      expect(manager.response.handlers()).toEqual([high, normal, low]);
+    });
+
+    it('should return unique ids', () => {
+      const a = manager.request.use(jest.fn());
+      const b = manager.error.use(jest.fn());
+      expect(a).not.toBe(b);
+    });
+
+    it('should reject non-function interceptors', () => {
+      expect(() => manager.request.use('nope' as any)).toThrow(
+        'Interceptor must be a function'
+      );
+    });
+  });
+
+  describe('eject', () => {
+    it('should remove an interceptor by id', () => {
+      const kept = jest.fn();
+      const removed = jest.fn();
+      manager.request.use(kept);
+      const id = manager.request.use(removed);
+
+      expect(manager.request.eject(id)).toBe(true);
+      expect(manager.request.handlers()).toEqual([kept]);
+    });
+
+    it('should return false for unknown ids', () => {
+      expect(manager.request.eject(-1)).toBe(false);
+    });
+
+    it('should clear a stage', () => {
+      manager.error.use(jest.fn());
+      manager.error.clear();
+      expect(manager.error.handlers()).toEqual([]);
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should run parent interceptors in derived managers', () => {
+      const parentInterceptor = jest.fn();
+      const childInterceptor = jest.fn();
+      manager.request.use(parentInterceptor);
+
+      const child = new InterceptorManager(manager);
+      child.request.use(childInterceptor);
+
+      expect(child.request.handlers()).toEqual([
+        parentInterceptor,
+        childInterceptor,
+      ]);
+    });
+
+    it('should not leak child interceptors to the parent', () => {
+      const child = new InterceptorManager(manager);
+      child.response.use(jest.fn());
+
+      expect(manager.response.handlers()).toEqual([]);
+    });
+
+    it('should not eject parent interceptors from the child', () => {
+      const parentInterceptor = jest.fn();
+      const id = manager.request.use(parentInterceptor);
+      const child = new InterceptorManager(manager);
+
+      expect(child.request.eject(id)).toBe(false);
+      expect(child.request.handlers()).toEqual([parentInterceptor]);
+    });
+
+    it('should see parent interceptors added after derivation', () => {
+      const child = new InterceptorManager(manager);
+      const late = jest.fn();
+      manager.error.use(late);
+
+      expect(child.error.handlers()).toEqual([late]);
+    });
+
+    it('should apply priorities across parent and child', () => {
+      const parentInterceptor = jest.fn();
+      const urgent = jest.fn();
+      manager.request.use(parentInterceptor);
+
+      const child = new InterceptorManager(manager);
+      child.request.use(urgent, { priority: 1 });
+
+      expect(child.request.handlers()).toEqual([urgent, parentInterceptor]);
+    });
+  });
+
+  describe('from', () => {
+    it('should register interceptors from options', () => {
+      const request = jest.fn();
+      const response = jest.fn();
+      const error = jest.fn();
+
+      const created = InterceptorManager.from({ request, response, error });
+
+      expect(created.request.handlers()).toEqual([request]);
+      expect(created.response.handlers()).toEqual([response]);
+      expect(created.error.handlers()).toEqual([error]);
+    });
+
+    it('should handle missing options', () => {
+      const created = InterceptorManager.from(undefined);
+      expect(created.request.handlers()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { NormalizedCache } from '../../../src/core/normalized-cache';
+
+describe('NormalizedCache', () => {
+  const userQuery = {
+    query:
+      'query GetUser($id: ID!) { user(id: $id) { __typename id name profile { bio } } }',
+    variables: { id: '1' },
+  };
+  const alice = {
+    __typename: 'User',
+    id: '1',
+    name: 'Alice',
+    profile: { bio: 'Hi' },
+  };
+
+  let cache: NormalizedCache;
+
+  beforeEach(() => {
+    cache = new NormalizedCache();
+  });
+
+  describe('identify', () => {
+    it('should key objects by __typename and id', () => {
+      expect(cache.identify({ __typename: 'User', id: 1 })).toBe('User:1');
+      expect(cache.identify({ __typename: 'User' })).toBeUndefined();
+      expect(cache.identify({ id: '1' })).toBeUndefined();
+    });
+
+    it('should use a custom dataId', () => {
+      cache = new NormalizedCache({
+        dataId: object => (object.isbn ? `Book:${object.isbn}` : undefined),
+      });
+
+      expect(cache.identify({ isbn: '123' })).toBe('Book:123');
+    });
+  });
+
+  describe('transform', () => {
+    it('should add __typename unless disabled', () => {
+      const query = '{ user { id } }';
+
+      expect(cache.transform(query)).toBe('{ user { __typename id } }');
+      expect(new NormalizedCache({ addTypename: false }).transform(query)).toBe(
+        query
+      );
+    });
+  });
+
+  describe('read and write', () => {
+    it('should miss before anything is written', () => {
+      expect(cache.read(userQuery)).toBeUndefined();
+    });
+
+    it('should answer a query it stored', () => {
+      cache.write(userQuery, { data: { user: alice } });
+
+      expect(cache.read(userQuery)).toEqual({ data: { user: alice } });
+    });
+
+    it('should store fields per argument values', () => {
+      cache.write(userQuery, { data: { user: alice } });
+
+      expect(
+        cache.read({ ...userQuery, variables: { id: '2' } })
+      ).toBeUndefined();
+      expect(
+        cache.read({
+          query: '{ user(id: "1") { __typename id name } }',
+        })
+      ).toEqual({
+        data: { user: { __typename: 'User', id: '1', name: 'Alice' } },
+      });
+    });
+
+    it('should miss when a selected field was never fetched', () => {
+      cache.write(userQuery, { data: { user: alice } });
+
+      expect(
+        cache.read({
+          query: 'query ($id: ID!) { user(id: $id) { id email } }',
+          variables: { id: '1' },
+        })
+      ).toBeUndefined();
+    });
+
+    it('should answer queries from entities written by other queries', () => {
+      cache.write(
+        { query: '{ users { __typename id name } }' },
+        {
+          data: {
+            users: [
+              { __typename: 'User', id: '1', name: 'Alice' },
+              { __typename: 'User', id: '2', name: 'Bob' },
+            ],
+          },
+        }
+      );
+      cache.write(
+        { query: '{ me { __typename id } }' },
+        { data: { me: { __typename: 'User', id: '2' } } }
+      );
+
+      expect(cache.read({ query: '{ me { id name } }' })).toEqual({
+        data: { me: { id: '2', name: 'Bob' } },
+      });
+    });
+
+    it('should update entities with mutation results', () => {
+      cache.write(userQuery, { data: { user: alice } });
+      cache.write(
+        {
+          query:
+            'mutation { renameUser(id: "1", name: "Alicia") { __typename id name } }',
+        },
+        {
+          data: { renameUser: { __typename: 'User', id: '1', name: 'Alicia' } },
+        }
+      );
+
+      expect(cache.read(userQuery)).toEqual({
+        data: { user: { ...alice, name: 'Alicia' } },
+      });
+      expect(
+        cache.read({ query: '{ renameUser(id: "1", name: "Alicia") { id } }' })
+      ).toBeUndefined();
+    });
+
+    it('should return aliases and merge fields selected twice', () => {
+      cache.write(userQuery, { data: { user: alice } });
+
+      expect(
+        cache.read({
+          query:
+            '{ person: user(id: "1") { id ...Bio } ... on Query { person: user(id: "1") { name } } } fragment Bio on User { profile { bio } }',
+        })
+      ).toEqual({
+        data: { person: { id: '1', name: 'Alice', profile: { bio: 'Hi' } } },
+      });
+    });
+
+    it('should apply @skip and @include', () => {
+      const query = {
+        query:
+          'query ($full: Boolean!) { user(id: "1") { id name @include(if: $full) } }',
+      };
+      cache.write(
+        { ...query, variables: { full: false } },
+        { data: { user: { id: '1' } } }
+      );
+
+      expect(cache.read({ ...query, variables: { full: false } })).toEqual({
+        data: { user: { id: '1' } },
+      });
+      expect(
+        cache.read({ ...query, variables: { full: true } })
+      ).toBeUndefined();
+    });
+
+    it('should use variable default values', () => {
+      const query = {
+        query:
+          'query ($first: Int = 10) { posts(first: $first) { __typename id } }',
+      };
+      cache.write(query, {
+        data: { posts: [{ __typename: 'Post', id: 'a' }] },
+      });
+
+      expect(
+        cache.read({ query: '{ posts(first: 10) { __typename id } }' })
+      ).toEqual({ data: { posts: [{ __typename: 'Post', id: 'a' }] } });
+    });
+
+    it('should not store responses with errors', () => {
+      cache.write(userQuery, {
+        data: { user: alice },
+        errors: [{ message: 'Partial', extensions: {} }],
+      });
+
+      expect(cache.read(userQuery)).toBeUndefined();
+    });
+
+    it('should select the operation named in the request', () => {
+      const query =
+        'query A { a { id } } query B { b { id } } fragment Unused on Query { a { id } }';
+      cache.write({ query, operationName: 'B' }, { data: { b: { id: '1' } } });
+
+      expect(cache.read({ query, operationName: 'B' })).toEqual({
+        data: { b: { id: '1' } },
+      });
+      expect(cache.read({ query, operationName: 'A' })).toBeUndefined();
+      expect(cache.read({ query })).toBeUndefined();
+    });
+
+    it('should ignore documents it cannot parse', () => {
+      expect(() =>
+        cache.write({ query: '{ user(' }, { data: { user: null } })
+      ).not.toThrow();
+      expect(cache.read({ query: '{ user(' })).toBeUndefined();
+    });
+  });
+
+  describe('evict and clear', () => {
+    it('should make queries selecting an evicted entity miss', () => {
+      cache.write(userQuery, { data: { user: alice } });
+
+      expect(cache.evict('User:1')).toBe(true);
+      expect(cache.read(userQuery)).toBeUndefined();
+    });
+
+    it('should remove every entity', () => {
+      cache.write(userQuery, { data: { user: alice } });
+      cache.clear();
+
+      expect(cache.read(userQuery)).toBeUndefined();
+    });
+  });
+
+  describe('watch', () => {
+    it('should call the listener when the answer changes', () => {
+      const listener = jest.fn();
+      cache.watch(userQuery, listener);
+
+      cache.write(userQuery, { data: { user: alice } });
+      cache.write(
+        { query: '{ other { __typename id } }' },
+        { data: { other: { __typename: 'Other', id: '1' } } }
+      );
+      cache.write(
+        { query: '{ me { __typename id name } }' },
+        { data: { me: { __typename: 'User', id: '1', name: 'Alicia' } } }
+      );
+
+      expect(listener.mock.calls).toEqual([
+        [{ data: { user: alice } }],
+        [{ data: { user: { ...alice, name: 'Alicia' } } }],
+      ]);
+    });
+
+    it('should call the listener without a response after evictions', () => {
+      cache.write(userQuery, { data: { user: alice } });
+      const listener = jest.fn();
+      const stop = cache.watch(userQuery, listener);
+
+      cache.evict('User:1');
+      expect(listener).toHaveBeenCalledWith(undefined);
+
+      stop();
+      cache.write(userQuery, { data: { user: alice } });
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { Fetchero } from '../../../src/core/fetchero';
+import { PersistedQueries } from '../../../src/core/persisted-queries';
+import { GraphQLRequest, GraphQLResponse } from '../../../src/types';
+import { SHA256 } from '../../../src/utils/sha256';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+const mockAxios = (axios as unknown) as jest.Mock;
+
+const notFound: GraphQLResponse = {
+  data: null,
+  errors: [{ extensions: { code: PersistedQueries.NOT_FOUND } }],
+};
+
+describe('PersistedQueries', () => {
+  const query = 'query { me { id } }';
+  const hash = SHA256.hex(query);
+  const request = { query, variables: {} };
+
+  const persistedQuery = { persistedQuery: { version: 1, sha256Hash: hash } };
+
+  it('should send the hash alone first', async () => {
+    const send = jest.fn(async () => ({ data: { me: { id: 1 } } }));
+
+    const response = await new PersistedQueries().execute(request, true, send);
+
+    expect(response).toEqual({ data: { me: { id: 1 } } });
+    expect(send).toHaveBeenCalledWith(
+      { variables: {}, extensions: persistedQuery },
+      false
+    );
+  });
+
+  it('should send hashed queries with GET when enabled', async () => {
+    const send = jest
+      .fn<Promise<GraphQLResponse>, [GraphQLRequest, boolean]>()
+      .mockResolvedValue({ data: {} });
+    const persisted = new PersistedQueries({ useGet: true });
+
+    await persisted.execute(request, true, send);
+    await persisted.execute(request, false, send);
+
+    expect(send.mock.calls.map(([, useGet]) => useGet)).toEqual([true, false]);
+  });
+
+  it('should send the full document when the hash is unknown', async () => {
+    const send = jest
+      .fn<Promise<GraphQLResponse>, [GraphQLRequest, boolean]>()
+      .mockResolvedValueOnce(notFound)
+      .mockResolvedValueOnce({ data: { me: null } });
+
+    const response = await new PersistedQueries({ useGet: true }).execute(
+      request,
+      true,
+      send
+    );
+
+    expect(response).toEqual({ data: { me: null } });
+    expect(send).toHaveBeenLastCalledWith(
+      { query, variables: {}, extensions: persistedQuery },
+      false
+    );
+  });
+
+  it('should send documents of hashes reported missing right away', async () => {
+    const send = jest
+      .fn<Promise<GraphQLResponse>, [GraphQLRequest, boolean]>()
+      .mockResolvedValueOnce(notFound)
+      .mockResolvedValue({ data: null, errors: [{ extensions: {} }] });
+    const persisted = new PersistedQueries();
+
+    await persisted.execute(request, true, send);
+    await persisted.execute(request, true, send);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls[2][0].query).toBe(query);
+  });
+
+  it('should stop hashing when the server does not support it', async () => {
+    const send = jest
+      .fn<Promise<GraphQLResponse>, [GraphQLRequest, boolean]>()
+      .mockResolvedValueOnce({
+        data: null,
+        errors: [{ extensions: { code: PersistedQueries.NOT_SUPPORTED } }],
+      })
+      .mockResolvedValue({ data: {} });
+    const persisted = new PersistedQueries();
+
+    await persisted.execute(request, true, send);
+    await persisted.execute(request, true, send);
+
+    expect(send.mock.calls.slice(1).map(([body]) => body)).toEqual([
+      request,
+      request,
+    ]);
+  });
+
+  it('should use a custom hash function', async () => {
+    const send = jest.fn(async () => ({ data: {} }));
+    const hashFn = jest.fn(async () => 'custom');
+    const persisted = new PersistedQueries({ hash: hashFn });
+
+    await persisted.execute(request, true, send);
+    await persisted.execute(request, true, send);
+
+    expect(hashFn).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(
+      {
+        variables: {},
+        extensions: { persistedQuery: { version: 1, sha256Hash: 'custom' } },
+      },
+      false
+    );
+  });
+
+  describe('against a stub server', () => {
+    let received: Array<{ method: string; body: any }>;
+
+    // Minimal APQ server: stores documents sent with their hash
+    beforeEach(() => {
+      const store = new Map<string, string>();
+      received = [];
+
+      mockAxios.mockImplementation(async (config: AxiosRequestConfig) => {
+        const url = new URL(config.url as string);
+        const body =
+          config.method === 'GET'
+            ? {
+                query: url.searchParams.get('query') ?? undefined,
+                extensions: JSON.parse(
+                  url.searchParams.get('extensions') || '{}'
+                ),
+              }
+            : config.data;
+        received.push({ method: config.method as string, body });
+
+        const sha = body.extensions?.persistedQuery?.sha256Hash;
+        if (body.query && sha) store.set(sha, body.query);
+        const document = body.query ?? store.get(sha);
+
+        return {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          data: document
+            ? { data: { me: { id: '1' } } }
+            : {
+                errors: [
+                  {
+                    message: 'PersistedQueryNotFound',
+                    extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+                  },
+                ],
+              },
+        };
+      });
+    });
+
+    it('should register unknown queries and reuse their hash', async () => {
+      const { gql } = new Fetchero({
+        baseUrl: 'https://api.example.com/graphql',
+        persistedQueries: { useGet: true },
+      });
+
+      const first = await gql.query.me.select('id');
+      const second = await gql.query.me.select('id');
+
+      expect(first.data).toEqual({ me: { id: '1' } });
+      expect(second.data).toEqual({ me: { id: '1' } });
+      expect(
+        received.map(({ method, body }) => [method, !!body.query])
+      ).toEqual([
+        ['GET', false],
+        ['POST', true],
+        ['GET', false],
+      ]);
+    });
+
+    it('should send mutations with POST', async () => {
+      const { gql } = new Fetchero({
+        baseUrl: 'https://api.example.com/graphql',
+        persistedQueries: { useGet: true },
+      });
+
+      await gql.mutation.me.select('id');
+
+      expect(received.map(({ method }) => method)).toEqual(['POST', 'POST']);
+    });
+  });
+});
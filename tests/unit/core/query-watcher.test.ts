@@ -0,0 +1,182 @@
+import { QueryWatcher, WatchSource } from '../../../src/core/query-watcher';
+import { FetcherResponse } from '../../../src/types';
+
+describe('QueryWatcher', () => {
+  const wait = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const createLoader = () => {
+    let version = 0;
+    return jest.fn(
+      async (_refetch: boolean): Promise<FetcherResponse> => ({
+        data: { version: ++version },
+      })
+    );
+  };
+
+  it('should load when the first subscriber arrives', async () => {
+    const load = createLoader();
+    const watcher = new QueryWatcher(load);
+    const next = jest.fn();
+
+    expect(load).not.toHaveBeenCalled();
+    watcher.subscribe(next);
+    await wait();
+
+    expect(load).toHaveBeenCalledWith(false);
+    expect(next).toHaveBeenCalledWith({ data: { version: 1 } });
+    expect(watcher.current).toEqual({ data: { version: 1 } });
+  });
+
+  it('should share the result between subscribers', async () => {
+    const load = createLoader();
+    const watcher = new QueryWatcher(load);
+    watcher.subscribe(() => undefined);
+    await wait();
+
+    const late = jest.fn();
+    watcher.subscribe(late);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(late).toHaveBeenCalledWith({ data: { version: 1 } });
+  });
+
+  it('should emit refetched results', async () => {
+    const load = createLoader();
+    const watcher = new QueryWatcher(load);
+    const next = jest.fn();
+    watcher.subscribe(next);
+    await wait();
+
+    const response = await watcher.refetch();
+
+    expect(load).toHaveBeenLastCalledWith(true);
+    expect(response).toEqual({ data: { version: 2 } });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only emit results that changed', async () => {
+    const load = jest.fn(async () => ({
+      data: { id: 1 },
+      meta: { status: 200, headers: {}, duration: 1 },
+    }));
+    const watcher = new QueryWatcher(load);
+    const next = jest.fn();
+    watcher.subscribe(next);
+    await wait();
+
+    await watcher.refetch();
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let an older load replace a newer result', async () => {
+    const resolvers: Array<(response: FetcherResponse) => void> = [];
+    const watcher = new QueryWatcher(
+      () => new Promise<FetcherResponse>(resolve => resolvers.push(resolve))
+    );
+    const next = jest.fn();
+    watcher.subscribe(next);
+
+    const refetched = watcher.refetch();
+    resolvers[1]({ data: 'new' });
+    await refetched;
+    resolvers[0]({ data: 'old' });
+    await wait();
+
+    expect(next.mock.calls).toEqual([[{ data: 'new' }]]);
+    expect(watcher.current).toEqual({ data: 'new' });
+  });
+
+  it('should poll while subscribed', async () => {
+    const load = createLoader();
+    const watcher = new QueryWatcher(load, { pollInterval: 10 });
+
+    await wait(30);
+    expect(load).not.toHaveBeenCalled();
+
+    const subscription = watcher.subscribe(() => undefined);
+    await wait(60);
+    expect(load.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(load).toHaveBeenLastCalledWith(true);
+
+    subscription.unsubscribe();
+    const calls = load.mock.calls.length;
+    await wait(30);
+    expect(load).toHaveBeenCalledTimes(calls);
+  });
+
+  it('should change the polling interval', async () => {
+    const load = createLoader();
+    const watcher = new QueryWatcher(load);
+    const subscription = watcher.subscribe(() => undefined);
+    await wait();
+
+    watcher.setPollInterval(10);
+    await wait(60);
+    expect(load.mock.calls.length).toBeGreaterThanOrEqual(2);
+
+    watcher.setPollInterval(0);
+    const calls = load.mock.calls.length;
+    await wait(30);
+    expect(load).toHaveBeenCalledTimes(calls);
+    expect(() => watcher.setPollInterval(-1)).toThrow(
+      'Watch "pollInterval" must be a non-negative number'
+    );
+    subscription.unsubscribe();
+  });
+
+  it('should listen for cache changes while subscribed', async () => {
+    let update: ((response?: FetcherResponse) => void) | undefined;
+    const stopListening = jest.fn();
+    const source: WatchSource<unknown> = listener => {
+      update = listener;
+      return stopListening;
+    };
+    const load = createLoader();
+    const watcher = new QueryWatcher(load, {}, source);
+    const next = jest.fn();
+    const subscription = watcher.subscribe(next);
+    await wait();
+
+    update!({ data: { version: 'cached' } });
+    expect(next).toHaveBeenLastCalledWith({ data: { version: 'cached' } });
+
+    update!();
+    await wait();
+    expect(load).toHaveBeenLastCalledWith(true);
+    expect(next).toHaveBeenLastCalledWith({ data: { version: 2 } });
+
+    subscription.unsubscribe();
+    expect(stopListening).toHaveBeenCalled();
+  });
+
+  it('should error subscribers when loading fails', async () => {
+    const failure = new Error('Network down');
+    const watcher = new QueryWatcher(jest.fn().mockRejectedValueOnce(failure));
+    const error = jest.fn();
+    watcher.subscribe({ error });
+    await wait();
+
+    expect(error).toHaveBeenCalledWith(failure);
+  });
+
+  it('should be iterable', async () => {
+    const watcher = new QueryWatcher(createLoader());
+    const iterator = watcher[Symbol.asyncIterator]();
+
+    const first = await iterator.next();
+    watcher.refetch();
+    const second = await iterator.next();
+    await iterator.return!();
+
+    expect(first.value).toEqual({ data: { version: 1 } });
+    expect(second.value).toEqual({ data: { version: 2 } });
+  });
+
+  it('should validate its options', () => {
+    expect(
+      () => new QueryWatcher(createLoader(), { pollInterval: NaN })
+    ).toThrow('Watch "pollInterval" must be a non-negative number');
+  });
+});
@@ -0,0 +1,217 @@
+import { ResponseCache } from '../../../src/core/response-cache';
+import { CacheEntry, FetcherResponse } from '../../../src/types';
+
+describe('ResponseCache', () => {
+  const baseUrl = 'https://api.example.com';
+  const ok = (data: unknown): FetcherResponse => ({
+    data,
+    meta: { status: 200, headers: {}, duration: 1 },
+  });
+
+  let now: number;
+  let storage: Map<string, CacheEntry>;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    storage = new Map();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('key', () => {
+    it('should combine the method, URL and hashed vary headers', () => {
+      const cache = new ResponseCache(baseUrl);
+
+      const anonymous = cache.key('get', `${baseUrl}/users`, {
+        'Content-Type': 'application/json',
+      });
+      const alice = cache.key('GET', `${baseUrl}/users`, {
+        Authorization: 'Bearer alice',
+      });
+
+      expect(anonymous).toBe('GET https://api.example.com/users');
+      expect(alice).toMatch(
+        /^GET https:\/\/api\.example\.com\/users [0-9a-f]{64}$/
+      );
+      expect(alice).not.toContain('alice');
+      expect(
+        cache.key('GET', `${baseUrl}/users`, { authorization: 'Bearer bob' })
+      ).not.toBe(alice);
+    });
+
+    it('should use the configured vary headers', () => {
+      const cache = new ResponseCache(baseUrl, { vary: ['X-Tenant'] });
+
+      expect(
+        cache.key('GET', `${baseUrl}/users`, { Authorization: 'Bearer alice' })
+      ).toBe('GET https://api.example.com/users');
+      expect(
+        cache.key('GET', `${baseUrl}/users`, { 'x-tenant': 'acme' })
+      ).not.toBe('GET https://api.example.com/users');
+    });
+  });
+
+  describe('fetch', () => {
+    it('should serve fresh entries from the storage', async () => {
+      const cache = new ResponseCache(baseUrl, { ttl: 100, storage });
+      const send = jest.fn(async () => ok({ id: 1 }));
+
+      await cache.fetch('GET /users', send);
+      now += 99;
+      const cached = await cache.fetch('GET /users', send);
+
+      expect(cached.data).toEqual({ id: 1 });
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(storage.get('GET /users')).toEqual({
+        response: ok({ id: 1 }),
+        expiresAt: 1100,
+        staleUntil: 1100,
+      });
+    });
+
+    it('should refetch expired entries', async () => {
+      const cache = new ResponseCache(baseUrl, { ttl: 100, storage });
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(ok(1))
+        .mockResolvedValueOnce(ok(2));
+
+      await cache.fetch('GET /count', send);
+      now += 100;
+
+      expect((await cache.fetch('GET /count', send)).data).toBe(2);
+    });
+
+    it('should serve stale entries while revalidating once', async () => {
+      const cache = new ResponseCache(baseUrl, {
+        ttl: 100,
+        staleWhileRevalidate: 1000,
+        storage,
+      });
+      let resolve!: (response: FetcherResponse) => void;
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(ok(1))
+        .mockImplementationOnce(() => new Promise(r => (resolve = r)));
+
+      await cache.fetch('GET /count', send);
+      now += 500;
+      const [first, second] = await Promise.all([
+        cache.fetch('GET /count', send),
+        cache.fetch('GET /count', send),
+      ]);
+
+      expect([first.data, second.data]).toEqual([1, 1]);
+      expect(send).toHaveBeenCalledTimes(2);
+
+      resolve(ok(2));
+      await new Promise(r => setTimeout(r));
+      expect((await cache.fetch('GET /count', send)).data).toBe(2);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honour per-request options', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+      const send = jest.fn(async () => ok(1));
+
+      await cache.fetch('GET /a', send, { ttl: 0 });
+      await cache.fetch('GET /b', send, { ttl: 5, staleWhileRevalidate: 10 });
+
+      expect(storage.has('GET /a')).toBe(false);
+      expect(storage.get('GET /b')).toMatchObject({
+        expiresAt: 1005,
+        staleUntil: 1015,
+      });
+    });
+
+    it('should not store failed responses', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+
+      await cache.fetch('GET /a', async () => ({
+        data: null,
+        errors: [{ extensions: { code: 'NOT_FOUND' } }],
+      }));
+      await cache.fetch('GET /b', async () => ({
+        data: null,
+        meta: { status: 304, headers: {}, duration: 1 },
+      }));
+
+      expect(storage.size).toBe(0);
+    });
+  });
+
+  describe('invalidate', () => {
+    const cached = async (cache: ResponseCache, ...paths: string[]) => {
+      for (const path of paths) {
+        await cache.fetch(cache.key('GET', `${baseUrl}${path}`, {}), async () =>
+          ok(path)
+        );
+      }
+    };
+
+    it('should remove entries by URL prefix', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+      await cached(cache, '/users', '/users/1', '/users/1/posts', '/posts');
+
+      await cache.invalidate('/users/*');
+
+      expect(Array.from(storage.keys())).toEqual([
+        'GET https://api.example.com/users',
+        'GET https://api.example.com/posts',
+      ]);
+
+      await cache.invalidate(`${baseUrl}/users`);
+      expect(Array.from(storage.keys())).toEqual([
+        'GET https://api.example.com/posts',
+      ]);
+    });
+
+    it('should clear every entry', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+      await cached(cache, '/users', '/posts');
+
+      await cache.clear();
+
+      expect(storage.size).toBe(0);
+    });
+  });
+
+  describe('watch', () => {
+    const key = `GET ${baseUrl}/users`;
+
+    it('should pass stored responses to the listeners of their key', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+      const listener = jest.fn();
+      cache.watch(key, listener);
+
+      await cache.fetch(key, async () => ok([1]));
+      await cache.refresh(key, async () => ok([1, 2]));
+      await cache.fetch(`GET ${baseUrl}/posts`, async () => ok([]));
+
+      expect(listener.mock.calls).toEqual([[ok([1])], [ok([1, 2])]]);
+      expect(storage.get(key)?.response).toEqual(ok([1, 2]));
+    });
+
+    it('should call listeners without a response on removal', async () => {
+      const cache = new ResponseCache(baseUrl, { storage });
+      await cache.fetch(key, async () => ok([1]));
+      const listener = jest.fn();
+      const stop = cache.watch(key, listener);
+
+      await cache.invalidate('/users');
+      await cache.fetch(key, async () => ok([1]));
+      await cache.clear();
+      stop();
+      await cache.fetch(key, async () => ok([1]));
+
+      expect(listener.mock.calls).toEqual([
+        [undefined],
+        [ok([1])],
+        [undefined],
+      ]);
+    });
+  });
+});
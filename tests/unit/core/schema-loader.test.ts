@@ -0,0 +1,60 @@
+import { SchemaLoader } from '../../../src/core/schema-loader';
+import { GraphQLSchema } from '../../../src/core/graphql-schema';
+
+describe('SchemaLoader', () => {
+  const sdl = 'type Query { me: User } type User { id: ID! }';
+
+  it('should load the schema from SDL once', async () => {
+    const source = jest.fn(async () => sdl);
+    const introspect = jest.fn();
+    const loader = new SchemaLoader({ sdl: source }, introspect);
+
+    const [first, second] = await Promise.all([loader.load(), loader.load()]);
+
+    expect(first).toBeInstanceOf(GraphQLSchema);
+    expect(second).toBe(first);
+    expect(source).toHaveBeenCalledTimes(1);
+    expect(introspect).not.toHaveBeenCalled();
+  });
+
+  it('should load the schema by introspection', async () => {
+    const introspect = jest.fn(async () => ({
+      data: {
+        __schema: {
+          queryType: { name: 'Query' },
+          types: [
+            {
+              kind: 'OBJECT',
+              name: 'Query',
+              fields: [
+                { name: 'ok', args: [], type: { kind: 'SCALAR', name: 'ID' } },
+              ],
+            },
+          ],
+        },
+      },
+    }));
+    const loader = new SchemaLoader({ introspect: true }, introspect);
+
+    const schema = await loader.load();
+
+    expect(schema.validate('query { ok }')).toEqual([]);
+  });
+
+  it('should retry after a failed load', async () => {
+    const introspect = jest
+      .fn()
+      .mockResolvedValueOnce({
+        data: null,
+        errors: [{ extensions: { message: 'Introspection is disabled' } }],
+      })
+      .mockResolvedValueOnce({ data: { __schema: { types: [] } } });
+    const loader = new SchemaLoader({ introspect: true }, introspect);
+
+    await expect(loader.load()).rejects.toThrow(
+      'Introspection failed: Introspection is disabled'
+    );
+    await expect(loader.load()).resolves.toBeInstanceOf(GraphQLSchema);
+    expect(introspect).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,6 +1,8 @@
 import { createFetchero } from '../../../src/index';
 import { buildQuery } from '../../../src/utils/build-query';
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
 
 const createMockResponse = <T = any>(
   data: T,
@@ -77,6 +79,7 @@ describe('GraphQL API Integration', () => {
           data: {
             query: 'query { user { id name } }',
             variables: {},
+            operationName: 'User',
           },
         })
       );
@@ -97,7 +100,7 @@ describe('GraphQL API Integration', () => {
       await fetchero.gql.query.user({ id: '123' }).select('id name');
 
       expect(mockBuildQuery).toHaveBeenCalledWith(
-        expect.arrayContaining(['query { user (', ') { id name } }']),
+        expect.arrayContaining(['query User { user (', ') { id name } }']),
         { id: '123' }
       );
     });
@@ -115,6 +118,7 @@ describe('GraphQL API Integration', () => {
           data: {
             query: 'query { user { id name } }',
             variables: {},
+            operationName: 'User',
           },
         })
       );
@@ -150,12 +154,51 @@ describe('GraphQL API Integration', () => {
       await fetchero.gql.mutation.createUser({ name: 'John' }).select('id');
 
       expect(mockBuildQuery).toHaveBeenCalledWith(
-        expect.arrayContaining(['mutation { createUser (', ') { id } }']),
+        expect.arrayContaining([
+          'mutation CreateUser { createUser (',
+          ') { id } }',
+        ]),
         { name: 'John' }
       );
     });
   });
 
+  describe('Deduplication', () => {
+    beforeEach(() => {
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { user: { id: '1' } } })
+      );
+    });
+
+    it('should send identical queries in flight once', async () => {
+      const [first, second] = await Promise.all([
+        fetchero.gql.query.user.select('id'),
+        fetchero.gql.query.user.select('id'),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+
+    it('should send every mutation and queries that opt out', async () => {
+      await Promise.all([
+        fetchero.gql.query.user.select('id'),
+        fetchero.gql.query.user.dedupe(false).select('id'),
+        fetchero.gql.raw('{ user { id } }', {}, { dedupe: false }),
+      ]);
+      mockBuildQuery.mockReturnValue({
+        query: 'mutation { createUser { id } }',
+        variables: {},
+      });
+      await Promise.all([
+        fetchero.gql.mutation.createUser.select('id'),
+        fetchero.gql.mutation.createUser.select('id'),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(5);
+    });
+  });
+
   describe('Subscription operations', () => {
     it('should perform subscriptions', async () => {
       mockBuildQuery.mockReturnValue({
@@ -171,7 +214,10 @@ describe('GraphQL API Integration', () => {
       await fetchero.gql.subscription.userUpdated.execute();
 
       expect(mockBuildQuery).toHaveBeenCalledWith(
-        expect.arrayContaining(['subscription { userUpdated ', '  }']),
+        expect.arrayContaining([
+          'subscription UserUpdated { userUpdated ',
+          '  }',
+        ]),
         {}
       );
     });
@@ -211,6 +257,92 @@ describe('GraphQL API Integration', () => {
     });
   });
 
+  describe('Response metadata', () => {
+    it('should expose status, headers and duration', async () => {
+      mockAxiosFunction.mockResolvedValue({
+        ...createMockResponse({ data: { user: { id: '1' } } }),
+        headers: { 'X-Request-Id': 'abc' },
+      });
+
+      const result = await fetchero.gql.query.user.execute();
+
+      expect(result.meta).toEqual({
+        status: 200,
+        headers: { 'x-request-id': 'abc' },
+        duration: expect.any(Number),
+      });
+    });
+  });
+
+  describe('Raw documents', () => {
+    const document = `
+      query GetUser($id: ID!) { user(id: $id) { ...UserFields } }
+      query GetUsers { users { ...UserFields } }
+      fragment UserFields on User { id name }
+    `;
+
+    it('should send the document as written', async () => {
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { user: { id: '1', name: 'John' } } })
+      );
+      const interceptor = fetchero.interceptors.request.use(config => ({
+        ...config,
+        headers: { ...config.headers, Authorization: 'Bearer token' },
+      }));
+
+      const result = await fetchero.gql.raw(
+        document,
+        { id: '1' },
+        { operationName: 'GetUser' }
+      );
+      fetchero.interceptors.request.eject(interceptor);
+
+      expect(mockBuildQuery).not.toHaveBeenCalled();
+      expect(result.data).toEqual({ user: { id: '1', name: 'John' } });
+      expect(mockAxiosFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.example.com/graphql',
+          method: 'POST',
+          data: {
+            query: document,
+            variables: { id: '1' },
+            operationName: 'GetUser',
+          },
+          headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+        })
+      );
+    });
+
+    it('should normalise errors', async () => {
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({
+          data: null,
+          errors: [{ message: 'Forbidden', extensions: { code: 'FORBIDDEN' } }],
+        })
+      );
+
+      const result = await fetchero.gql.raw(
+        document,
+        {},
+        {
+          operationName: 'GetUsers',
+        }
+      );
+
+      expect(result.data).toBeNull();
+      expect(result.errors![0].extensions.code).toBe('FORBIDDEN');
+    });
+
+    it('should require a string document', () => {
+      expect(() => fetchero.gql.raw(null as any)).toThrow(
+        'GraphQL query must be a non-empty string'
+      );
+      expect(() => fetchero.gql.raw(document)).toThrow(
+        'GraphQL document contains several operations, pass "operationName" to select one'
+      );
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle GraphQL errors', async () => {
       const responseData = {
@@ -231,4 +363,80 @@ describe('GraphQL API Integration', () => {
       expect(result.errors![0].extensions.code).toBe('NOT_FOUND');
     });
   });
+
+  describe('Persisted queries', () => {
+    interface Reply {
+      status: number;
+      body: object;
+    }
+
+    let server: ReturnType<typeof createServer>;
+    let replies: Reply[];
+    let requests: any[];
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      // Real HTTP round trips, so 4xx answers fail the way axios fails them
+      const realAxios = jest.requireActual('axios/dist/node/axios.cjs');
+      mockAxiosFunction.mockImplementation((config: any) =>
+        realAxios({ ...config, adapter: 'http' })
+      );
+      replies = [];
+      requests = [];
+      server = createServer();
+      server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          requests.push(JSON.parse(body));
+          const { status, body: reply } = replies.shift() ?? {
+            status: 200,
+            body: { data: { user: { id: '1' } } },
+          };
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(reply));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const persistedQueryError = (code: string) => ({
+      errors: [{ message: code, extensions: { code } }],
+    });
+
+    it('should send the document when the hash is answered with a 404', async () => {
+      replies.push({
+        status: 404,
+        body: persistedQueryError('PERSISTED_QUERY_NOT_FOUND'),
+      });
+      const client = createFetchero({ baseUrl, persistedQueries: true });
+
+      const result = await client.gql.query.user.select('id');
+
+      expect(result.data).toEqual({ user: { id: '1' } });
+      expect(requests).toHaveLength(2);
+      expect(requests[0].query).toBeUndefined();
+      expect(requests[1].query).toBe('query { user { id name } }');
+    });
+
+    it('should stop hashing when persisted queries are answered with a 400', async () => {
+      replies.push({
+        status: 400,
+        body: persistedQueryError('PERSISTED_QUERY_NOT_SUPPORTED'),
+      });
+      const client = createFetchero({ baseUrl, persistedQueries: true });
+
+      await client.gql.query.user.select('id');
+      await client.gql.query.user.select('id');
+
+      expect(requests).toHaveLength(3);
+      expect(requests[1].extensions).toBeUndefined();
+      expect(requests[2].extensions).toBeUndefined();
+    });
+  });
 });
@@ -1,9 +1,6 @@
-import { createFetchero } from '../../../src/index';
-import axios, {
-  AxiosError,
-  AxiosResponse,
-  InternalAxiosRequestConfig,
-} from 'axios';
+import { createFetchero, ErrorHandler, Fetchero } from '../../../src/index';
+import { ResponseContext } from '../../../src/types';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 const createMockResponse = <T = any>(
   data: T,
@@ -123,17 +120,16 @@ describe('Interceptors Integration', () => {
   });
 
   describe('Response interceptors', () => {
-    it('should apply response interceptor', async () => {
+    it('should apply response interceptor to the normalised response', async () => {
       const responseInterceptor = jest.fn(response => ({
+        ...response,
         data: { intercepted: true, original: response.data },
       }));
 
       const fetchero = createFetchero({
         baseUrl: 'https://api.example.com',
         interceptors: {
-          response: responseInterceptor as <T = unknown>(
-            response: AxiosResponse<T>
-          ) => Promise<T> | T,
+          response: responseInterceptor,
         },
       });
 
@@ -143,9 +139,13 @@ describe('Interceptors Integration', () => {
 
       const result = await fetchero.rest.users.get();
 
-      expect(responseInterceptor).toHaveBeenCalled();
-      expect(result).toEqual({
-        data: { intercepted: true, original: { data: { success: true } } },
+      expect(responseInterceptor).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { success: true } }),
+        expect.objectContaining({ status: 200, headers: {} })
+      );
+      expect(result.data).toEqual({
+        intercepted: true,
+        original: { success: true },
       });
     });
 
@@ -154,6 +154,7 @@ describe('Interceptors Integration', () => {
         // Simulate async processing
         await new Promise(resolve => setTimeout(resolve, 10));
         return {
+          ...response,
           data: { processed: true, original: response.data },
         };
       });
@@ -161,9 +162,7 @@ describe('Interceptors Integration', () => {
       const fetchero = createFetchero({
         baseUrl: 'https://api.example.com',
         interceptors: {
-          response: responseInterceptor as <T = unknown>(
-            response: any
-          ) => Promise<T>,
+          response: responseInterceptor,
         },
       });
 
@@ -174,9 +173,83 @@ describe('Interceptors Integration', () => {
       const result = await fetchero.rest.users.get();
 
       expect(responseInterceptor).toHaveBeenCalled();
-      expect(result).toEqual({
-        data: { processed: true, original: { data: { success: true } } },
+      expect(result.data).toEqual({
+        processed: true,
+        original: { success: true },
+      });
+    });
+
+    it('should keep normalised GraphQL errors', async () => {
+      const responseInterceptor = jest.fn(response => response);
+
+      const fetchero = createFetchero({
+        baseUrl: 'https://api.example.com/graphql',
+        interceptors: {
+          response: responseInterceptor,
+        },
+      });
+
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({
+          data: null,
+          errors: [{ message: 'Nope', extensions: { code: '404' } }],
+        })
+      );
+
+      const result = await fetchero.gql.query.user.execute();
+
+      expect(result.data).toBeNull();
+      expect(result.errors).toEqual([
+        ErrorHandler.compose({ message: 'Nope', extensions: { code: '404' } }),
+      ]);
+    });
+
+    it('should expose transport metadata', async () => {
+      let context: ResponseContext | undefined;
+
+      const fetchero = createFetchero({
+        baseUrl: 'https://api.example.com',
+        interceptors: {
+          response: (response, ctx) => {
+            context = ctx;
+            return response;
+          },
+        },
+      });
+
+      mockAxiosFunction.mockResolvedValue({
+        ...createMockResponse({ data: { success: true } }, 201),
+        headers: { ETag: '"abc"' },
+      });
+
+      await fetchero.rest.users.post({ body: {} });
+
+      expect(context!.status).toBe(201);
+      expect(context!.headers).toEqual({ etag: '"abc"' });
+      expect(context!.duration).toBeGreaterThanOrEqual(0);
+      expect(context!.config).toEqual(
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should reject interceptors that break the response shape', async () => {
+      const fetchero = createFetchero({
+        baseUrl: 'https://api.example.com',
+        interceptors: {
+          response: (() => 'oops') as any,
+        },
       });
+
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { success: true } })
+      );
+
+      const result = await fetchero.rest.users.get();
+
+      expect(result.data).toBeNull();
+      expect(result.errors![0].extensions.message).toBe(
+        'Response interceptor must return a FetcherResponse ({ data, errors? })'
+      );
     });
   });
 
@@ -191,12 +264,10 @@ describe('Interceptors Integration', () => {
       }));
 
       const responseInterceptor = jest.fn(response => ({
+        ...response,
         data: {
           ...response.data,
-          data: {
-            ...response.data.data,
-            processed: true,
-          },
+          processed: true,
         },
       }));
 
@@ -204,9 +275,7 @@ describe('Interceptors Integration', () => {
         baseUrl: 'https://api.example.com',
         interceptors: {
           request: requestInterceptor,
-          response: responseInterceptor as <T = unknown>(
-            response: any
-          ) => Promise<T> | T,
+          response: responseInterceptor,
         },
       });
 
@@ -218,9 +287,71 @@ describe('Interceptors Integration', () => {
 
       expect(requestInterceptor).toHaveBeenCalled();
       expect(responseInterceptor).toHaveBeenCalled();
-      expect(result.data).toEqual({
-        data: { id: 1, name: 'John', processed: true },
+      expect(result.data).toEqual({ id: 1, name: 'John', processed: true });
+    });
+  });
+  describe('Interceptor registry', () => {
+    it('should apply interceptors registered after creation', async () => {
+      const fetchero = createFetchero({ baseUrl: 'https://api.example.com' });
+      fetchero.interceptors.request.use(config => ({
+        ...config,
+        headers: { ...config.headers, 'X-Tenant': 'acme' },
+      }));
+
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { success: true } })
+      );
+
+      await fetchero.gql.query.user.execute();
+
+      expect(mockAxiosFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Tenant': 'acme' }),
+        })
+      );
+    });
+
+    it('should recover failures with error interceptors', async () => {
+      const fetchero = createFetchero({
+        baseUrl: 'https://api.example.com',
+        interceptors: {
+          error: () => ({ data: { cached: true } }),
+        },
       });
+
+      mockAxiosFunction.mockRejectedValue(createMockError('Unavailable', 503));
+
+      const result = await fetchero.rest.users.get();
+
+      expect(result.data).toEqual({ cached: true });
+      expect(result.meta!.status).toBe(503);
+    });
+
+    it('should isolate interceptors of derived clients', async () => {
+      const parent = new Fetchero({ baseUrl: 'https://api.example.com' });
+      const child = parent.extend();
+      child.interceptors.request.use(config => ({
+        ...config,
+        headers: { ...config.headers, 'X-Child': 'yes' },
+      }));
+
+      mockAxiosFunction.mockResolvedValue(
+        createMockResponse({ data: { success: true } })
+      );
+
+      await child.rest.users.get();
+      expect(mockAxiosFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Child': 'yes' }),
+        })
+      );
+
+      await parent.rest.users.get();
+      expect(mockAxiosFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: expect.not.objectContaining({ 'X-Child': 'yes' }),
+        })
+      );
     });
   });
 });
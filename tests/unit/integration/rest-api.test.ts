@@ -1,5 +1,7 @@
 import { createFetchero } from '../../../src/index';
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
 
 const createMockResponse = <T = any>(
   data: T,
@@ -185,6 +187,71 @@ describe('REST API Integration', () => {
     });
   });
 
+  describe('Conditional requests', () => {
+    const api = createFetchero({
+      baseUrl: 'https://api.example.com',
+      conditionalRequests: true,
+    });
+
+    // Serves a body with an ETag, then 304 to requests sending that ETag
+    beforeEach(() => {
+      mockAxiosFunction.mockImplementation((async (config: any) => {
+        const notModified = config.headers['If-None-Match'] === '"v1"';
+        const status = notModified ? 304 : 200;
+        if (!config.validateStatus?.(status) && status !== 200) {
+          throw createMockError('Not Modified', status);
+        }
+        return {
+          ...createMockResponse(
+            config.transformResponse(notModified ? '' : '{"id":1}'),
+            status
+          ),
+          headers: { ETag: '"v1"' },
+        };
+      }) as any);
+    });
+
+    it('should revalidate with the stored ETag', async () => {
+      const first = await api.rest.users(1).get();
+      const second = await api.rest.users(1).get();
+
+      expect(mockAxiosFunction.mock.calls[1][0]).toMatchObject({
+        headers: { 'If-None-Match': '"v1"' },
+      });
+      expect(first.data).toEqual({ id: 1 });
+      expect(second.errors).toBeUndefined();
+      expect(second.data).toEqual({ id: 1 });
+      expect(second.meta?.status).toBe(200);
+    });
+  });
+
+  describe('Deduplication', () => {
+    beforeEach(() => {
+      mockAxiosFunction.mockResolvedValue(createMockResponse({ id: 42 }));
+    });
+
+    it('should send identical GET requests in flight once', async () => {
+      const [first, second] = await Promise.all([
+        fetchero.rest.users(42).get(),
+        fetchero.rest.users(42).get(),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+
+    it('should send each request that opts out or writes', async () => {
+      await Promise.all([
+        fetchero.rest.users(42).get(),
+        fetchero.rest.users(42).get({ dedupe: false }),
+        fetchero.rest.users.post({ body: { name: 'Ann' } }),
+        fetchero.rest.users.post({ body: { name: 'Ann' } }),
+      ]);
+
+      expect(mockAxiosFunction).toHaveBeenCalledTimes(4);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle network errors', async () => {
       const networkError = createMockError('Network Error');
@@ -210,4 +277,96 @@ describe('REST API Integration', () => {
       expect(result.errors![0].extensions.message).toBe('User not found');
     });
   });
+
+  describe('Non-JSON responses', () => {
+    interface Reply {
+      status: number;
+      body: string;
+      headers?: Record<string, string>;
+    }
+
+    let server: ReturnType<typeof createServer>;
+    let replies: Reply[];
+    let requests: number;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      // Real HTTP round trips, so axios applies the response transform;
+      // the node adapter avoids the CORS checks of the jsdom one
+      const realAxios = jest.requireActual('axios/dist/node/axios.cjs');
+      mockAxiosFunction.mockImplementation((config: any) =>
+        realAxios({ ...config, adapter: 'http' })
+      );
+      replies = [];
+      requests = 0;
+      server = createServer();
+      server.on('request', (_: IncomingMessage, res: ServerResponse) => {
+        requests++;
+        const { status, body, headers } = replies.shift() ?? {
+          status: 200,
+          body: '{}',
+        };
+        res.writeHead(status, headers);
+        res.end(body);
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should retry a 503 with an HTML body', async () => {
+      replies.push(
+        {
+          status: 503,
+          body: '<html><body>Service Unavailable</body></html>',
+          headers: { 'Content-Type': 'text/html', 'Retry-After': '0' },
+        },
+        { status: 200, body: '{"id":1}' }
+      );
+      const client = createFetchero({
+        baseUrl,
+        retry: { attempts: 2, delay: 0 },
+      });
+
+      const result = await client.rest.users(1).get();
+
+      expect(requests).toBe(2);
+      expect(result.data).toEqual({ id: 1 });
+      expect(result.errors).toBeUndefined();
+    });
+
+    it('should report the status and headers of non-JSON errors', async () => {
+      replies.push({
+        status: 429,
+        body: 'Too Many Requests',
+        headers: {
+          'Content-Type': 'text/plain',
+          'X-RateLimit-Remaining': '0',
+        },
+      });
+      const client = createFetchero({ baseUrl, retry: { attempts: 1 } });
+
+      const result = await client.rest.users.get();
+
+      expect(requests).toBe(1);
+      expect(result.data).toBeNull();
+      expect(result.meta?.status).toBe(429);
+      expect(result.meta?.headers).toMatchObject({
+        'content-type': 'text/plain',
+        'x-ratelimit-remaining': '0',
+      });
+      expect(result.errors![0].extensions.code).toBe('429');
+    });
+
+    it('should return text bodies of successful responses as is', async () => {
+      replies.push({ status: 200, body: 'pong' });
+
+      const result = await createFetchero({ baseUrl }).rest.ping.get();
+
+      expect(result.data).toBe('pong');
+    });
+  });
 });
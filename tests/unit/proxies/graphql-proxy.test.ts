@@ -1,5 +1,11 @@
-import { HttpClient } from '../../../src/core';
+import {
+  FragmentRegistry,
+  HttpClient,
+  NormalizedCache,
+  SchemaLoader,
+} from '../../../src/core';
 import { GraphQLProxyFactory } from '../../../src/proxies';
+import { TypedDocumentNode } from '../../../src/types';
 import { buildQuery } from '../../../src/utils/build-query';
 
 jest.mock('../../../src/utils/build-query');
@@ -70,18 +76,22 @@ describe('GraphQLProxyFactory', () => {
         await proxy.query.user.select('id name email');
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['query { user ', ' { id name email } }'],
+          ['query User { user ', ' { id name email } }'],
           {}
         );
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: baseUrl,
-          method: 'POST',
-          data: {
-            query: 'query { user { id name email } }',
-            variables: {},
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: baseUrl,
+            method: 'POST',
+            data: {
+              query: 'query { user { id name email } }',
+              variables: {},
+              operationName: 'User',
+            },
+            headers,
           },
-          headers,
-        });
+          { idempotent: true, dedupe: true }
+        );
       });
 
       it('should validate field selection', () => {
@@ -94,12 +104,96 @@ describe('GraphQLProxyFactory', () => {
         );
       });
 
+      it('should handle structured selections', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query
+          .user({ id: 1 })
+          .select(['id', { posts: { __args: { first: 10 }, title: true } }]);
+
+        expect(mockBuildQuery).toHaveBeenLastCalledWith(
+          ['query User { user (', ') { id posts(', ') { title } } }'],
+          { id: 1 },
+          { first: 10 }
+        );
+      });
+
+      it('should report invalid structured selections', () => {
+        const proxy = factory.createProxy({});
+        expect(() => proxy.query.user.select({ 'not valid': true })).toThrow(
+          'Failed to build GraphQL query for field "user": Invalid field name "not valid" in "not valid"'
+        );
+      });
+
+      it('should append client fragments spread in the selection', async () => {
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          fragments: FragmentRegistry.from([
+            'fragment UserFields on User { id name }',
+          ]),
+        });
+        mockBuildQuery.mockReturnValue({
+          query: 'query { user { ...UserFields } }',
+          variables: {},
+        });
+
+        await factory.createProxy({}).query.user.select('...UserFields');
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: {
+              query:
+                'query { user { ...UserFields } }\nfragment UserFields on User { id name }',
+              variables: {},
+              operationName: 'User',
+            },
+          }),
+          expect.anything()
+        );
+      });
+
+      it('should append builder fragments', async () => {
+        const builder = factory
+          .createProxy({})
+          .query.user.fragments('fragment UserFields on User { id }');
+        mockBuildQuery.mockReturnValue({
+          query: 'query { user { ...UserFields } }',
+          variables: {},
+        });
+
+        await builder.select('...UserFields');
+
+        expect(mockHttpClient.makeRequest.mock.calls[0][0].data.query).toBe(
+          'query { user { ...UserFields } }\nfragment UserFields on User { id }'
+        );
+      });
+
+      it('should reject duplicate builder fragments', () => {
+        const builder = factory
+          .createProxy({})
+          .query.user.fragments('fragment UserFields on User { id }');
+
+        expect(() =>
+          builder.fragments('fragment UserFields on User { name }')
+        ).toThrow('Fragment "UserFields" is already registered');
+      });
+
+      it('should report unknown fragments', () => {
+        const builder = factory.createProxy({}).query.user;
+        mockBuildQuery.mockReturnValue({
+          query: 'query { user { ...Missing } }',
+          variables: {},
+        });
+
+        expect(() => builder.select('...Missing')).toThrow(
+          'Failed to build GraphQL query for field "user": Unknown fragment "Missing"'
+        );
+      });
+
       it('should handle execute method', async () => {
         const proxy = factory.createProxy({});
         await proxy.query.user.execute();
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['query { user ', '  }'],
+          ['query User { user ', '  }'],
           {}
         );
         expect(mockHttpClient.makeRequest).toHaveBeenCalled();
@@ -129,7 +223,8 @@ describe('GraphQLProxyFactory', () => {
         expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
           expect.objectContaining({
             url: 'https://api2.example.com/graphql',
-          })
+          }),
+          expect.objectContaining({ idempotent: true })
         );
       });
 
@@ -154,7 +249,8 @@ describe('GraphQLProxyFactory', () => {
               'Content-Type': 'application/json',
               Authorization: 'Bearer token',
             },
-          })
+          }),
+          expect.objectContaining({ idempotent: true })
         );
       });
 
@@ -171,7 +267,7 @@ describe('GraphQLProxyFactory', () => {
         await queryBuilder.select('id');
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['query { user (', ') { id } }'],
+          ['query User { user (', ') { id } }'],
           { id: 123 }
         );
       });
@@ -187,7 +283,7 @@ describe('GraphQLProxyFactory', () => {
         await queryBuilder.select('id');
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['query { user (', ') { id } }'],
+          ['query User { user (', ') { id } }'],
           args
         );
       });
@@ -204,11 +300,23 @@ describe('GraphQLProxyFactory', () => {
         await proxy.query.user.execute();
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['query { user ', '  }'],
+          ['query User { user ', '  }'],
           {}
         );
       });
 
+      it('should skip parentheses when every argument is omitted', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user({ id: undefined }).execute();
+
+        expect(mockBuildQuery).toHaveBeenCalledWith(
+          ['query User { user ', '  }'],
+          {
+            id: undefined,
+          }
+        );
+      });
+
       it('should handle context headers', async () => {
         const proxy = factory.createProxy({
           headers: { 'X-Custom': 'value' },
@@ -221,7 +329,8 @@ describe('GraphQLProxyFactory', () => {
               'Content-Type': 'application/json',
               'X-Custom': 'value',
             },
-          })
+          }),
+          expect.objectContaining({ idempotent: true })
         );
       });
 
@@ -234,7 +343,64 @@ describe('GraphQLProxyFactory', () => {
         expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
           expect.objectContaining({
             url: 'https://api2.example.com/graphql',
-          })
+          }),
+          expect.objectContaining({ idempotent: true })
+        );
+      });
+
+      it('should handle retry configuration', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user.retry({ attempts: 4 }).execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.anything(),
+          {
+            retry: { attempts: 4 },
+            idempotent: true,
+            dedupe: true,
+          }
+        );
+      });
+
+      it('should validate retry configuration', () => {
+        const proxy = factory.createProxy({});
+        expect(() => proxy.query.user.retry({ attempts: 0 })).toThrow(
+          'Retry "attempts" must be a positive integer'
+        );
+      });
+
+      it('should let queries opt out of deduplication', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user.dedupe(false).execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.anything(),
+          {
+            retry: undefined,
+            idempotent: true,
+            dedupe: false,
+          }
+        );
+        expect(() => proxy.query.user.dedupe('no' as any)).toThrow(
+          'Dedupe option must be a boolean'
+        );
+      });
+
+      it('should handle abort signal configuration', async () => {
+        const controller = new AbortController();
+        const proxy = factory.createProxy({});
+        await proxy.query.user.signal(controller.signal).select('id');
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({ signal: controller.signal }),
+          expect.objectContaining({ idempotent: true })
+        );
+      });
+
+      it('should validate abort signal', () => {
+        const proxy = factory.createProxy({});
+        expect(() => proxy.query.user.signal({} as any)).toThrow(
+          'Signal must be a valid AbortSignal'
         );
       });
 
@@ -262,10 +428,24 @@ describe('GraphQLProxyFactory', () => {
         await proxy.mutation.createUser({ name: 'John' }).select('id');
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['mutation { createUser (', ') { id } }'],
+          ['mutation CreateUser { createUser (', ') { id } }'],
           { name: 'John' }
         );
       });
+
+      it('should mark mutations as non-idempotent', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { createUser: { id: '1' } },
+        });
+
+        const proxy = factory.createProxy({});
+        await proxy.mutation.createUser({ name: 'John' }).select('id');
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ idempotent: false })
+        );
+      });
     });
 
     describe('Subscription operations', () => {
@@ -278,10 +458,982 @@ describe('GraphQLProxyFactory', () => {
         await proxy.subscription.userUpdated.execute();
 
         expect(mockBuildQuery).toHaveBeenCalledWith(
-          ['subscription { userUpdated ', '  }'],
+          ['subscription UserUpdated { userUpdated ', '  }'],
           {}
         );
       });
+
+      it('should return a stream instead of a promise', () => {
+        const proxy = factory.createProxy({});
+        const stream = proxy.subscription.userUpdated.select('id');
+
+        expect(typeof stream.subscribe).toBe('function');
+        expect(typeof stream[Symbol.asyncIterator]).toBe('function');
+        expect((proxy.subscription.userUpdated as any).then).toBeUndefined();
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to a single HTTP result without a transport', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { userUpdated: { id: '1' } },
+        });
+
+        const proxy = factory.createProxy({});
+        const results = [];
+        for await (const result of proxy.subscription.userUpdated.execute()) {
+          results.push(result);
+        }
+
+        expect(results).toEqual([{ data: { userUpdated: { id: '1' } } }]);
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({ method: 'POST' }),
+          {
+            retry: undefined,
+            idempotent: true,
+          }
+        );
+      });
+
+      it('should stream through the configured transport', () => {
+        const subscribe = jest.fn(() => jest.fn());
+        const transports = require('../../../src/transports');
+        const spy = jest
+          .spyOn(transports, 'createSubscriptionTransport')
+          .mockReturnValue({ subscribe });
+
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          subscriptions: { transport: 'ws', url: 'ws://api.example.com' },
+        });
+        const proxy = factory.createProxy({});
+        const first = proxy.subscription.userUpdated
+          .execute()
+          .subscribe(jest.fn());
+        const second = proxy.subscription.userUpdated
+          .execute()
+          .subscribe(jest.fn());
+
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(subscribe).toHaveBeenCalledWith(
+          {
+            query: 'query { user { id } }',
+            variables: {},
+            operationName: 'UserUpdated',
+          },
+          expect.objectContaining({ next: expect.any(Function) })
+        );
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+
+        first.unsubscribe();
+        second.unsubscribe();
+        spy.mockRestore();
+      });
+
+      it('should complete the stream when the signal aborts', async () => {
+        const controller = new AbortController();
+        mockHttpClient.makeRequest.mockReturnValue(new Promise(() => {}));
+
+        const proxy = factory.createProxy({});
+        const complete = jest.fn();
+        proxy.subscription.userUpdated
+          .signal(controller.signal)
+          .execute()
+          .subscribe({ next: jest.fn(), complete });
+
+        controller.abort();
+
+        expect(complete).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('Operation names', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: null });
+      });
+
+      it('should name operations after their root field by default', async () => {
+        await factory.createProxy({}).query.getUser.execute();
+
+        expect(mockBuildQuery).toHaveBeenCalledWith(
+          ['query GetUser { getUser ', '  }'],
+          {}
+        );
+        expect(
+          mockHttpClient.makeRequest.mock.calls[0][0].data.operationName
+        ).toBe('GetUser');
+      });
+
+      it('should send the name given to the builder', async () => {
+        await factory
+          .createProxy({})
+          .query.user({ id: 1 })
+          .name('CurrentUser')
+          .select('id');
+
+        expect(mockBuildQuery).toHaveBeenLastCalledWith(
+          ['query CurrentUser { user (', ') { id } }'],
+          { id: 1 }
+        );
+        expect(
+          mockHttpClient.makeRequest.mock.calls[0][0].data.operationName
+        ).toBe('CurrentUser');
+      });
+
+      it('should name composed operations', async () => {
+        const proxy = factory.createProxy({});
+
+        await proxy.compose('query', { me: { field: 'user' }, posts: {} });
+        await proxy.compose('query', { me: { field: 'user' } }).name('Home');
+
+        const [first, second] = mockHttpClient.makeRequest.mock.calls;
+        expect(first[0].data.operationName).toBe('UserPosts');
+        expect(second[0].data.operationName).toBe('Home');
+      });
+
+      it('should reject invalid names', () => {
+        const proxy = factory.createProxy({});
+
+        expect(() => proxy.query.user.name('Get User')).toThrow(
+          'Invalid operation name "Get User"'
+        );
+        expect(() => proxy.query.user.name('1st')).toThrow(
+          'Invalid operation name "1st"'
+        );
+      });
+    });
+
+    describe('Directives', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: null });
+      });
+
+      it('should add directives to the root field and operation', () => {
+        factory
+          .createProxy({})
+          .query.user({ id: 1 })
+          .directives({ cached: { ttl: 60 } })
+          .operationDirectives({ live: true })
+          .select({ posts: { __directives: { include: { if: true } } } });
+
+        expect(mockBuildQuery).toHaveBeenLastCalledWith(
+          [
+            'query User @live { user (',
+            ') @cached(',
+            ') { posts @include(',
+            ') } }',
+          ],
+          { id: 1 },
+          { ttl: 60 },
+          { if: true }
+        );
+      });
+
+      it('should add directives to composed root fields', () => {
+        factory
+          .createProxy({})
+          .compose('query', {
+            me: { field: 'user', directives: { skip: { if: false } } },
+          })
+          .operationDirectives({ cached: { ttl: 5 } });
+
+        expect(mockBuildQuery).toHaveBeenLastCalledWith(
+          ['query User @cached(', ') { me: user ', ' @skip(', ')  }'],
+          { ttl: 5 },
+          {},
+          { if: false }
+        );
+      });
+
+      it('should report invalid directives', () => {
+        expect(() =>
+          factory.createProxy({}).query.user.directives({ 'no-cache': true })
+        ).toThrow(
+          'Failed to build GraphQL query for field "user": Invalid directive name "no-cache" in "user"'
+        );
+      });
+    });
+
+    describe('Composed operations', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { me: { id: '1' }, notifications: [{ id: 'n1' }] },
+        });
+      });
+
+      it('should build one document for several root fields', async () => {
+        await factory.createProxy({}).compose('query', {
+          me: { field: 'user', args: { id: 1 }, select: ['id'] },
+          notifications: {
+            select: { items: { __args: { first: 5 }, id: true } },
+          },
+        });
+
+        expect(mockBuildQuery).toHaveBeenCalledWith(
+          [
+            'query UserNotifications { me: user (',
+            ') { id } notifications ',
+            ' { items(',
+            ') { id } } }',
+          ],
+          { id: 1 },
+          {},
+          { first: 5 }
+        );
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ idempotent: true })
+        );
+      });
+
+      it('should split the response per alias', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { me: { id: '1' }, notifications: null },
+          errors: [
+            { extensions: { code: '500' }, path: ['notifications'] },
+            { extensions: { code: '401' } },
+          ],
+        });
+
+        const result = await factory.createProxy({}).compose('query', {
+          me: { field: 'user', select: 'id' },
+          notifications: { select: 'id' },
+        });
+
+        expect(result).toEqual({
+          me: { data: { id: '1' }, errors: [{ extensions: { code: '401' } }] },
+          notifications: {
+            data: null,
+            errors: [
+              { extensions: { code: '500' }, path: ['notifications'] },
+              { extensions: { code: '401' } },
+            ],
+          },
+        });
+      });
+
+      it('should support execute and modifiers', async () => {
+        const result = await factory
+          .createProxy({})
+          .compose('mutation', { me: { select: 'id' } })
+          .headers({ 'X-Trace': '1' })
+          .execute();
+
+        expect(result.me.data).toEqual({ id: '1' });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({
+            headers: expect.objectContaining({ 'X-Trace': '1' }),
+          }),
+          expect.objectContaining({ idempotent: false })
+        );
+      });
+
+      it('should reject subscriptions', () => {
+        expect(() =>
+          factory
+            .createProxy({})
+            .compose('subscription' as any, { me: { select: 'id' } })
+        ).toThrow(
+          'Invalid composed operation "subscription". Valid operations: query, mutation'
+        );
+      });
+
+      it('should validate root fields', () => {
+        const proxy = factory.createProxy({});
+        expect(() => proxy.compose('query', {})).toThrow(
+          'Root fields must be a non-empty object'
+        );
+        expect(() =>
+          proxy.compose('query', { 'not valid': { select: 'id' } })
+        ).toThrow('Invalid alias "not valid"');
+      });
+    });
+
+    describe('Batching', () => {
+      beforeEach(() => {
+        mockHttpClient.makeBatchRequest = jest.fn(async config =>
+          (config.data as unknown[]).map(() => ({ data: { ok: true } }))
+        ) as any;
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          batch: true,
+        });
+      });
+
+      it('should send concurrent operations as one batch', async () => {
+        const proxy = factory.createProxy({});
+
+        const responses = await Promise.all([
+          proxy.query.user.execute(),
+          proxy.query.posts.execute(),
+        ]);
+
+        expect(mockHttpClient.makeBatchRequest).toHaveBeenCalledTimes(1);
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+        expect(responses).toEqual([
+          { data: { ok: true } },
+          { data: { ok: true } },
+        ]);
+      });
+
+      it('should send operations with their own retry policy alone', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: null });
+        const proxy = factory.createProxy({});
+
+        await Promise.all([
+          proxy.query.user.retry(false).execute(),
+          proxy.query.posts.execute(),
+        ]);
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(mockHttpClient.makeBatchRequest).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('GET requests', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: null });
+        mockBuildQuery.mockReturnValue({
+          query: 'query ($id_0: ID!) { user (id: $id_0) { id } }',
+          variables: { id_0: '1' },
+        });
+      });
+
+      it('should send queries with GET when enabled for the client', async () => {
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          useGet: true,
+        });
+
+        await factory.createProxy({}).query.user.execute();
+
+        const [config, options] = mockHttpClient.makeRequest.mock.calls[0];
+        const url = new URL(config.url as string);
+        expect(config.method).toBe('GET');
+        expect(config.data).toBeUndefined();
+        expect(url.origin + url.pathname).toBe(baseUrl);
+        expect(url.searchParams.get('query')).toBe(
+          'query ($id_0: ID!) { user (id: $id_0) { id } }'
+        );
+        expect(JSON.parse(url.searchParams.get('variables')!)).toEqual({
+          id_0: '1',
+        });
+        expect(options).toEqual({ retry: undefined });
+      });
+
+      it('should enable and disable GET per builder', async () => {
+        const proxy = factory.createProxy({});
+
+        await proxy.query.user.useGet().execute();
+        expect(mockHttpClient.makeRequest.mock.calls[0][0].method).toBe('GET');
+
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          useGet: true,
+        });
+        await factory
+          .createProxy({})
+          .query.user.useGet(false)
+          .execute();
+        expect(mockHttpClient.makeRequest.mock.calls[1][0].method).toBe('POST');
+      });
+
+      it('should always send mutations with POST', async () => {
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          useGet: true,
+        });
+
+        await factory
+          .createProxy({})
+          .mutation.user.useGet()
+          .execute();
+
+        expect(mockHttpClient.makeRequest.mock.calls[0][0].method).toBe('POST');
+      });
+
+      it('should fall back to POST when the URL is too long', async () => {
+        const proxy = factory.createProxy({});
+
+        await proxy.query.user.useGet({ maxUrlLength: 64 }).execute();
+
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.method).toBe('POST');
+        expect(config.url).toBe(baseUrl);
+        expect(config.data).toEqual({
+          query: 'query ($id_0: ID!) { user (id: $id_0) { id } }',
+          variables: { id_0: '1' },
+          operationName: 'User',
+        });
+      });
+
+      it('should validate GET options', () => {
+        const proxy = factory.createProxy({});
+
+        expect(() => proxy.query.user.useGet({ maxUrlLength: 0 })).toThrow(
+          'GET "maxUrlLength" must be a positive integer'
+        );
+      });
+    });
+
+    describe('Schema validation', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: null });
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          schema: new SchemaLoader(
+            {
+              sdl: `
+                type Query { user(id: ID!): User }
+                type Subscription { userUpdated: User }
+                type User { id: ID! name: String }
+              `,
+            },
+            jest.fn()
+          ),
+        });
+      });
+
+      it('should send valid documents', async () => {
+        mockBuildQuery.mockReturnValue({
+          query: 'query ($id_0: ID!) { user (id: $id_0) { id } }',
+          variables: { id_0: '1' },
+        });
+
+        await factory.createProxy({}).query.user.execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(1);
+      });
+
+      it('should resolve with the errors of invalid documents', async () => {
+        mockBuildQuery.mockReturnValue({
+          query: 'query ($id_0: Int!) { user (id: $id_0) { email } }',
+          variables: { id_0: 1 },
+        });
+
+        const response = await factory.createProxy({}).query.user.execute();
+
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+        expect(response.data).toBeNull();
+        expect(
+          response.errors!.map(({ message, path }) => [message, path])
+        ).toEqual([
+          [
+            'Variable "$id_0" of type "Int!" used in position expecting type "ID!".',
+            ['user'],
+          ],
+          ['Cannot query field "email" on type "User".', ['user', 'email']],
+        ]);
+      });
+
+      it('should report a schema that cannot be loaded', async () => {
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          schema: new SchemaLoader({ sdl: () => 'nope' }, jest.fn()),
+        });
+
+        const response = await factory.createProxy({}).query.user.execute();
+
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+        expect(response.errors![0].extensions).toEqual({
+          code: 'SCHEMA_UNAVAILABLE',
+          message:
+            'Schema could not be loaded: Unsupported schema definition "nope"',
+        });
+      });
+
+      it('should validate subscriptions before opening them', async () => {
+        const subscribe = jest.fn(() => jest.fn());
+        const transports = require('../../../src/transports');
+        const spy = jest
+          .spyOn(transports, 'createSubscriptionTransport')
+          .mockReturnValue({ subscribe });
+        const schema = new SchemaLoader(
+          { sdl: 'type Subscription { userUpdated: ID }' },
+          jest.fn()
+        );
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          subscriptions: { transport: 'ws', url: 'ws://api.example.com' },
+          schema,
+        });
+        mockBuildQuery.mockReturnValue({
+          query: 'subscription { userDeleted }',
+          variables: {},
+        });
+
+        const results = [];
+        for await (const result of factory
+          .createProxy({})
+          .subscription.userDeleted.execute()) {
+          results.push(result);
+        }
+
+        expect(subscribe).not.toHaveBeenCalled();
+        expect(results).toEqual([
+          {
+            data: null,
+            errors: [
+              expect.objectContaining({
+                message:
+                  'Cannot query field "userDeleted" on type "Subscription".',
+              }),
+            ],
+          },
+        ]);
+
+        mockBuildQuery.mockReturnValue({
+          query: 'subscription { userUpdated }',
+          variables: {},
+        });
+        const subscription = factory
+          .createProxy({})
+          .subscription.userUpdated.execute()
+          .subscribe(jest.fn());
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(subscribe).toHaveBeenCalledTimes(1);
+        subscription.unsubscribe();
+        spy.mockRestore();
+      });
+    });
+
+    describe('Prebuilt documents', () => {
+      const document: TypedDocumentNode<
+        { user: { id: string; name: string } | null },
+        { id: string }
+      > = {
+        kind: 'Document',
+        definitions: [],
+        loc: {
+          source: {
+            body: 'query GetUser($id: ID!) { user(id: $id) { ...UserFields } }',
+          },
+        },
+      };
+
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { user: { id: '1', name: 'John' } },
+        });
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          fragments: new FragmentRegistry().register(
+            'fragment UserFields on User { id name }'
+          ),
+        });
+      });
+
+      it('should send typed documents with their variables', async () => {
+        const { data } = await factory
+          .createProxy({})
+          .request(document, { id: '1' });
+
+        // Inferred from the document
+        const name: string | undefined = data?.user?.name;
+        expect(name).toBe('John');
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: baseUrl,
+            method: 'POST',
+            data: {
+              query:
+                'query GetUser($id: ID!) { user(id: $id) { ...UserFields } }\nfragment UserFields on User { id name }',
+              variables: { id: '1' },
+              operationName: 'GetUser',
+            },
+            headers,
+            signal: undefined,
+          },
+          { retry: undefined, idempotent: true, dedupe: true }
+        );
+      });
+
+      it('should type variables of typed documents', () => {
+        const proxy = factory.createProxy({});
+        const call = () =>
+          // @ts-expect-error variables must match the document
+          proxy.request(document, { id: 1 });
+        expect(typeof call).toBe('function');
+      });
+
+      it('should send string documents with explicit types', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { createUser: { id: '2' } },
+        });
+        const { data } = await factory
+          .createProxy({})
+          .request<{ createUser: { id: string } }, { name: string }>(
+            'query Unused { a } mutation CreateUser($name: String!) { createUser(name: $name) { id } }',
+            { name: 'Ann' },
+            {
+              operationName: 'CreateUser',
+              headers: { 'X-Trace': '1' },
+              retry: false,
+            }
+          );
+
+        expect(data?.createUser.id).toBe('2');
+        const [config, options] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.data).toMatchObject({ operationName: 'CreateUser' });
+        expect(config.headers).toMatchObject({ 'X-Trace': '1' });
+        expect(options).toEqual({ retry: false, idempotent: false });
+      });
+
+      it('should honour the client request options', async () => {
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          useGet: true,
+        });
+
+        await factory.createProxy({}).request('{ me { id } }');
+
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        const url = new URL(config.url as string);
+        expect(config.method).toBe('GET');
+        expect(url.searchParams.get('query')).toBe('{ me { id } }');
+        expect(url.searchParams.get('operationName')).toBeNull();
+      });
+
+      it('should send raw documents with the proxy overrides', async () => {
+        await factory
+          .createProxy({
+            base: 'https://other.example.com/graphql',
+            headers: { 'X-Tenant': 'acme' },
+          })
+          .raw('query Me { me { id } }');
+
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.url).toBe('https://other.example.com/graphql');
+        expect(config.headers).toEqual({ ...headers, 'X-Tenant': 'acme' });
+        expect(config.data).toEqual({
+          query: 'query Me { me { id } }',
+          variables: {},
+          operationName: 'Me',
+        });
+      });
+
+      it('should send documents to the endpoint of the base option', async () => {
+        const proxy = factory.createProxy({});
+
+        await proxy.raw(
+          'query Me { me { id } }',
+          {},
+          { base: 'https://other.example.com/graphql' }
+        );
+
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.url).toBe('https://other.example.com/graphql');
+        expect(() =>
+          proxy.raw('query Me { me { id } }', {}, { base: 'not a url' })
+        ).toThrow('Invalid URL format: not a url');
+      });
+
+      it('should not append registered fragments to raw documents', async () => {
+        const query = 'query GetUser { user(id: "1") { ...UserFields } }';
+
+        await factory.createProxy({}).raw(query);
+
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.data.query).toBe(query);
+      });
+
+      it('should not take spreads in comments and strings for fragments', async () => {
+        mockHttpClient.makeRequest.mockResolvedValue({ data: { user: null } });
+        const proxy = factory.createProxy({});
+
+        await proxy.request('# ...Nope\n{ user { id } }');
+        await proxy.request('{ user(q: "...Nope") { id } }');
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reject invalid documents and variables', () => {
+        const proxy = factory.createProxy({});
+
+        expect(() => proxy.request('fragment F on User { id }')).toThrow(
+          'GraphQL document must contain an operation'
+        );
+        expect(() => proxy.request('{ me }', [] as any)).toThrow(
+          'GraphQL variables must be an object'
+        );
+        expect(() => proxy.request('{ me { ...Missing } }')).toThrow(
+          'Unknown fragment "Missing"'
+        );
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Normalized cache', () => {
+      const user = { __typename: 'User', id: '1', name: 'John' };
+      let cache: NormalizedCache;
+
+      beforeEach(() => {
+        mockBuildQuery.mockReturnValue({
+          query: 'query User($id_0: ID!) { user (id: $id_0) { id name } }',
+          variables: { id_0: '1' },
+        });
+        mockHttpClient.makeRequest.mockResolvedValue({ data: { user } });
+        cache = new NormalizedCache();
+        factory = new GraphQLProxyFactory(mockHttpClient, baseUrl, headers, {
+          normalizedCache: cache,
+        });
+      });
+
+      it('should answer repeated queries from the cache', async () => {
+        const proxy = factory.createProxy({});
+
+        const first = await proxy.query.user({ id: '1' }).execute();
+        const second = await proxy.query.user({ id: '1' }).execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(1);
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.data.query).toBe(
+          'query User($id_0: ID!) { user (id: $id_0) { __typename id name } }'
+        );
+        expect(first.data).toEqual({ user });
+        expect(second).toEqual({ data: { user } });
+      });
+
+      it('should update cached entities with mutation results', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user({ id: '1' }).execute();
+
+        const rename = proxy.mutation.renameUser;
+        mockBuildQuery.mockReturnValueOnce({
+          query:
+            'mutation RenameUser($id_0: ID!) { renameUser (id: $id_0) { id name } }',
+          variables: { id_0: '1' },
+        });
+        mockHttpClient.makeRequest.mockResolvedValueOnce({
+          data: { renameUser: { ...user, name: 'Jane' } },
+        });
+        await rename({ id: '1' }).execute();
+
+        const { data } = await proxy.query.user({ id: '1' }).execute();
+        expect(data).toEqual({ user: { ...user, name: 'Jane' } });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should always send network-only queries', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user.execute();
+        await proxy.query.user.fetchPolicy('network-only').execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should refresh cache-and-network results in the background', async () => {
+        const proxy = factory.createProxy({});
+        await proxy.query.user.execute();
+        mockHttpClient.makeRequest.mockResolvedValueOnce({
+          data: { user: { ...user, name: 'Jane' } },
+        });
+
+        const cached = await proxy.query.user
+          .fetchPolicy('cache-and-network')
+          .execute();
+        await new Promise(resolve => setTimeout(resolve));
+        const refreshed = await proxy.query.user.execute();
+
+        expect(cached.data).toEqual({ user });
+        expect(refreshed.data).toEqual({ user: { ...user, name: 'Jane' } });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should resolve cache-only misses with an error', async () => {
+        const response = await factory
+          .createProxy({})
+          .query.user.fetchPolicy('cache-only')
+          .execute();
+
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
+        expect(response).toEqual({
+          data: null,
+          errors: [
+            {
+              message: 'Query result is not in the cache',
+              extensions: {
+                code: 'CACHE_MISS',
+                message: 'Query result is not in the cache',
+              },
+            },
+          ],
+        });
+      });
+
+      it('should not share results with other endpoints and headers', async () => {
+        const proxy = factory.createProxy({});
+        const bob = { ...user, name: 'Bob' };
+        await proxy.query.user({ id: '1' }).execute();
+
+        mockHttpClient.makeRequest.mockResolvedValueOnce({
+          data: { user: bob },
+        });
+        const other = await proxy.query
+          .user({ id: '1' })
+          .headers({ Authorization: 'Bearer bob' })
+          .execute();
+        await proxy.query
+          .user({ id: '1' })
+          .base('https://other.example.com/graphql')
+          .execute();
+        const missed = await proxy.query
+          .user({ id: '1' })
+          .headers({ Authorization: 'Bearer bob' })
+          .fetchPolicy('cache-only')
+          .execute();
+        const cached = await proxy.query.user({ id: '1' }).execute();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(3);
+        expect(other.data).toEqual({ user: bob });
+        expect(missed.errors![0].extensions.code).toBe(
+          NormalizedCache.CACHE_MISS
+        );
+        expect(cached.data).toEqual({ user });
+      });
+
+      it('should take the fetch policy of prebuilt documents', async () => {
+        const proxy = factory.createProxy({});
+        const document = 'query Me { me { id } }';
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: { me: { __typename: 'User', id: '1' } },
+        });
+
+        await proxy.request(document);
+        await proxy.raw(document);
+        await proxy.raw(document, {}, { fetchPolicy: 'network-only' });
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should send raw documents without __typename', async () => {
+        const proxy = factory.createProxy({});
+        const document = 'query User { user(id: "1") { id name } }';
+
+        await proxy.raw(document);
+        const { data } = await proxy.raw(document);
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(1);
+        const [config] = mockHttpClient.makeRequest.mock.calls[0];
+        expect(config.data.query).toBe(document);
+        expect(data).toEqual({ user: { id: '1', name: 'John' } });
+      });
+
+      it('should reject fetch policies without the cache', () => {
+        const proxy = new GraphQLProxyFactory(
+          mockHttpClient,
+          baseUrl,
+          headers
+        ).createProxy({});
+
+        expect(() => proxy.query.user.fetchPolicy('cache-first')).toThrow(
+          'Fetch policies require the "normalizedCache" client option'
+        );
+        expect(() =>
+          factory.createProxy({}).query.user.fetchPolicy('never' as any)
+        ).toThrow('Invalid fetch policy "never"');
+      });
+    });
+
+    describe('Watched queries', () => {
+      const user = { __typename: 'User', id: '1', name: 'John' };
+      const wait = () => new Promise(resolve => setTimeout(resolve));
+
+      beforeEach(() => {
+        mockBuildQuery.mockReturnValue({
+          query: 'query User($id_0: ID!) { user (id: $id_0) { id name } }',
+          variables: { id_0: '1' },
+        });
+        mockHttpClient.makeRequest.mockResolvedValue({ data: { user } });
+      });
+
+      it('should emit the result and its refetches', async () => {
+        const watched = factory
+          .createProxy({})
+          .query.user({ id: '1' })
+          .watch()
+          .execute();
+        const next = jest.fn();
+
+        watched.subscribe(next);
+        await wait();
+        mockHttpClient.makeRequest.mockResolvedValueOnce({
+          data: { user: { ...user, name: 'Jane' } },
+        });
+        await watched.refetch();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(next.mock.calls).toEqual([
+          [{ data: { user } }],
+          [{ data: { user: { ...user, name: 'Jane' } } }],
+        ]);
+      });
+
+      it('should not make watched builders thenable', () => {
+        const builder = factory.createProxy({}).query.user.watch();
+
+        expect((builder as any).then).toBeUndefined();
+      });
+
+      it('should follow changes of the normalised cache', async () => {
+        const cache = new NormalizedCache();
+        const proxy = new GraphQLProxyFactory(
+          mockHttpClient,
+          baseUrl,
+          headers,
+          { normalizedCache: cache }
+        ).createProxy({});
+        const watched = proxy.query
+          .user({ id: '1' })
+          .watch()
+          .execute();
+        const next = jest.fn();
+        watched.subscribe(next);
+        await wait();
+
+        const rename = proxy.mutation.renameUser;
+        mockBuildQuery.mockReturnValueOnce({
+          query:
+            'mutation RenameUser($id_0: ID!) { renameUser (id: $id_0) { id name } }',
+          variables: { id_0: '1' },
+        });
+        mockHttpClient.makeRequest.mockResolvedValueOnce({
+          data: { renameUser: { ...user, name: 'Jane' } },
+        });
+        await rename({ id: '1' }).execute();
+
+        expect(next).toHaveBeenLastCalledWith({
+          data: { user: { ...user, name: 'Jane' } },
+        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+
+        cache.evict('User:1');
+        await wait();
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(3);
+        expect(next).toHaveBeenLastCalledWith({ data: { user } });
+      });
+
+      it('should refetch from the network with the normalised cache', async () => {
+        const proxy = new GraphQLProxyFactory(
+          mockHttpClient,
+          baseUrl,
+          headers,
+          { normalizedCache: new NormalizedCache() }
+        ).createProxy({});
+        await proxy.query.user({ id: '1' }).execute();
+
+        const watched = proxy.query
+          .user({ id: '1' })
+          .watch()
+          .execute();
+        watched.subscribe(() => undefined);
+        await wait();
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(1);
+
+        await watched.refetch();
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should only watch queries', () => {
+        const proxy = factory.createProxy({});
+
+        expect(() => proxy.mutation.createUser.watch()).toThrow(
+          'Only queries can be watched, not mutations'
+        );
+        expect(() => proxy.query.user.watch({ pollInterval: -1 })).toThrow(
+          'Watch "pollInterval" must be a non-negative number'
+        );
+      });
     });
 
     describe('Query building', () => {
@@ -349,8 +1501,10 @@ describe('GraphQLProxyFactory', () => {
             data: {
               query: 'query { user { id } }',
               variables: {},
+              operationName: 'User',
             },
-          })
+          }),
+          expect.objectContaining({ idempotent: true })
         );
       });
     });
@@ -1,8 +1,45 @@
 // import { RestProxyFactory } from '@/proxies/rest-proxy';
 // import { HttpClient } from '@/core/http-client';
 
-import { HttpClient } from '../../../src/core';
+import { HttpClient, ResponseCache } from '../../../src/core';
 import { RestProxyFactory } from '../../../src/proxies';
+import { FetchLike, ServerSentEvent } from '../../../src/types';
+
+const { TextDecoder, TextEncoder } = require('util');
+
+// Streams each chunk list as one text/event-stream response, then hangs
+const createFetch = (...responses: Array<string[] | number>) =>
+  jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(
+    async (_, { signal }) => {
+      const next = responses.shift();
+      const status = typeof next === 'number' ? next : 200;
+      const queue = (Array.isArray(next) ? next : []).map(chunk =>
+        new TextEncoder().encode(chunk)
+      );
+
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: status === 404 ? 'Not Found' : '',
+        headers: { get: () => 'text/event-stream; charset=utf-8' },
+        body: {
+          getReader: () => ({
+            read: () =>
+              queue.length > 0
+                ? Promise.resolve({ done: false, value: queue.shift() })
+                : next === undefined
+                ? new Promise((_, reject) =>
+                    signal.addEventListener('abort', () =>
+                      reject(new Error('aborted'))
+                    )
+                  )
+                : Promise.resolve({ done: true }),
+            cancel: () => Promise.resolve(),
+          }),
+        },
+      };
+    }
+  );
 
 describe('RestProxyFactory', () => {
   let factory: RestProxyFactory;
@@ -13,7 +50,10 @@ describe('RestProxyFactory', () => {
   beforeEach(() => {
     mockHttpClient = {
       makeRequest: jest.fn(),
+      prepareRequest: jest.fn(async config => config),
     } as any;
+    // Cached requests are sent with the config the interceptors returned
+    mockHttpClient.makePreparedRequest = mockHttpClient.makeRequest;
     factory = new RestProxyFactory(mockHttpClient, baseUrl, headers);
   });
 
@@ -89,13 +129,16 @@ describe('RestProxyFactory', () => {
         const proxy = factory.createProxy();
         await proxy.users.get();
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle POST requests with body', async () => {
@@ -104,52 +147,64 @@ describe('RestProxyFactory', () => {
           body: { name: 'John', email: 'john@example.com' },
         });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users',
-          method: 'POST',
-          data: { name: 'John', email: 'john@example.com' },
-          headers: { 'Content-Type': 'application/json' },
-          transformResponse: expect.anything(),
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users',
+            method: 'POST',
+            data: { name: 'John', email: 'john@example.com' },
+            headers: { 'Content-Type': 'application/json' },
+            transformResponse: expect.anything(),
+          },
+          {}
+        );
       });
 
       it('should handle PUT requests', async () => {
         const proxy = factory.createProxy();
         await proxy.users(123).put({ body: { name: 'Jane' } });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users/123',
-          method: 'PUT',
-          data: { name: 'Jane' },
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users/123',
+            method: 'PUT',
+            data: { name: 'Jane' },
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle PATCH requests', async () => {
         const proxy = factory.createProxy();
         await proxy.users(123).patch({ body: { email: 'new@example.com' } });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users/123',
-          method: 'PATCH',
-          data: { email: 'new@example.com' },
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users/123',
+            method: 'PATCH',
+            data: { email: 'new@example.com' },
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle DELETE requests', async () => {
         const proxy = factory.createProxy();
         await proxy.users(123).delete();
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users/123',
-          method: 'DELETE',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users/123',
+            method: 'DELETE',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle query parameters', async () => {
@@ -158,13 +213,16 @@ describe('RestProxyFactory', () => {
           query: { page: 1, limit: 10, active: true },
         });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users?page=1&limit=10&active=true',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users?page=1&limit=10&active=true',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle request headers', async () => {
@@ -173,16 +231,19 @@ describe('RestProxyFactory', () => {
           headers: { Authorization: 'Bearer token' },
         });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: 'Bearer token',
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: 'Bearer token',
+            },
           },
-        });
+          {}
+        );
       });
 
       it('should merge context headers', async () => {
@@ -193,17 +254,20 @@ describe('RestProxyFactory', () => {
           headers: { Authorization: 'Bearer token' },
         });
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Custom': 'value',
-            Authorization: 'Bearer token',
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Custom': 'value',
+              Authorization: 'Bearer token',
+            },
           },
-        });
+          {}
+        );
       });
 
       it('should use context base URL', async () => {
@@ -212,26 +276,64 @@ describe('RestProxyFactory', () => {
         });
         await proxy.users.get();
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api2.example.com/users',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api2.example.com/users',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
       });
 
       it('should handle empty options', async () => {
         const proxy = factory.createProxy();
         await proxy.users.get({});
 
-        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith({
-          url: 'https://api.example.com/users',
-          method: 'GET',
-          data: undefined,
-          transformResponse: expect.anything(),
-          headers: { 'Content-Type': 'application/json' },
-        });
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          {
+            url: 'https://api.example.com/users',
+            method: 'GET',
+            data: undefined,
+            transformResponse: expect.anything(),
+            headers: { 'Content-Type': 'application/json' },
+          },
+          {}
+        );
+      });
+
+      it('should pass retry options to the HTTP client', async () => {
+        const proxy = factory.createProxy();
+        await proxy.users.post({ body: {}, retry: { attempts: 2 } });
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({ method: 'POST' }),
+          {
+            retry: { attempts: 2 },
+          }
+        );
+      });
+
+      it('should pass the abort signal to the HTTP client', async () => {
+        const controller = new AbortController();
+        const proxy = factory.createProxy();
+        await proxy.users.get({ signal: controller.signal });
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({ signal: controller.signal }),
+          {}
+        );
+      });
+
+      it('should reject invalid abort signals', async () => {
+        const proxy = factory.createProxy();
+
+        await expect(
+          proxy.users.get({ signal: 'abort' as any })
+        ).rejects.toThrow('Signal must be a valid AbortSignal');
+        expect(mockHttpClient.makeRequest).not.toHaveBeenCalled();
       });
 
       it('should handle case-insensitive HTTP methods', async () => {
@@ -249,6 +351,352 @@ describe('RestProxyFactory', () => {
     //   expect(proxy[symbolProp]).toBeUndefined();
     // });
 
+    describe('Caching', () => {
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue({
+          data: [{ id: 1 }],
+          meta: { status: 200, headers: {}, duration: 1 },
+        });
+        factory = new RestProxyFactory(mockHttpClient, baseUrl, headers, {
+          cache: new ResponseCache(baseUrl),
+        });
+      });
+
+      it('should serve repeated GET requests from the cache', async () => {
+        const proxy = factory.createProxy();
+
+        const first = await proxy.users.get({ query: { page: 1 } });
+        const second = await proxy.users.get({ query: { page: 1 } });
+        await proxy.users.get({ query: { page: 2 } });
+
+        expect(second).toBe(first);
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should key entries on the vary headers', async () => {
+        const proxy = factory.createProxy();
+
+        await proxy.users.headers({ Authorization: 'Bearer alice' }).get();
+        await proxy.users.get({ headers: { Authorization: 'Bearer bob' } });
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+      });
+
+      it('should key entries on headers set by request interceptors', async () => {
+        let user = 'alice';
+        mockHttpClient.prepareRequest.mockImplementation(async config => ({
+          ...config,
+          headers: { ...config.headers, Authorization: `Bearer ${user}` },
+        }));
+        const proxy = factory.createProxy();
+
+        await proxy.users.get();
+        await proxy.users.get();
+        user = 'bob';
+        await proxy.users.get();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(mockHttpClient.makeRequest.mock.calls[1][0].headers).toEqual({
+          ...headers,
+          Authorization: 'Bearer bob',
+        });
+      });
+
+      it('should report failing request interceptors', async () => {
+        mockHttpClient.prepareRequest.mockRejectedValue(new Error('No token'));
+        const proxy = factory.createProxy();
+
+        await proxy.users.get();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledWith(
+          expect.objectContaining({ url: 'https://api.example.com/users' }),
+          expect.anything()
+        );
+      });
+
+      it('should bypass the cache on demand and for other methods', async () => {
+        const proxy = factory.createProxy();
+
+        await proxy.users.get();
+        await proxy.users.get({ cache: false });
+        await proxy.users.post({ body: {} });
+        await proxy.users.post({ body: {} });
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(4);
+      });
+
+      it('should refetch after invalidation', async () => {
+        const cache = new ResponseCache(baseUrl);
+        factory = new RestProxyFactory(mockHttpClient, baseUrl, headers, {
+          cache,
+        });
+        const proxy = factory.createProxy();
+
+        await proxy.users(1).get();
+        await proxy.users.post({ body: { name: 'Ann' } });
+        await cache.invalidate('/users/*');
+        await proxy.users(1).get();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(3);
+      });
+
+      it('should reject cache options the request cannot use', async () => {
+        const proxy = factory.createProxy();
+
+        await expect(proxy.users.post({ cache: { ttl: 10 } })).rejects.toThrow(
+          'Only GET requests of clients with the "cache" option can be cached'
+        );
+        await expect(proxy.users.get({ cache: { ttl: -1 } })).rejects.toThrow(
+          'Cache "ttl" must be a non-negative number'
+        );
+        await expect(
+          new RestProxyFactory(mockHttpClient, baseUrl, headers)
+            .createProxy()
+            .users.get({ cache: true })
+        ).rejects.toThrow(
+          'Only GET requests of clients with the "cache" option can be cached'
+        );
+      });
+    });
+
+    describe('Watched endpoints', () => {
+      const wait = () => new Promise(resolve => setTimeout(resolve));
+      const ok = (data: unknown) => ({
+        data,
+        meta: { status: 200, headers: {}, duration: 1 },
+      });
+
+      beforeEach(() => {
+        mockHttpClient.makeRequest.mockResolvedValue(ok([{ id: 1 }]));
+      });
+
+      it('should emit GET results and refetches', async () => {
+        const watched = factory
+          .createProxy()
+          .users.watch({ query: { page: 1 } });
+        const next = jest.fn();
+
+        watched.subscribe(next);
+        await wait();
+        mockHttpClient.makeRequest.mockResolvedValueOnce(ok([{ id: 2 }]));
+        await watched.refetch();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(mockHttpClient.makeRequest.mock.calls[0][0]).toMatchObject({
+          url: 'https://api.example.com/users?page=1',
+          method: 'GET',
+        });
+        expect(next.mock.calls).toEqual([[ok([{ id: 1 }])], [ok([{ id: 2 }])]]);
+      });
+
+      it('should refetch when the cached entry is invalidated', async () => {
+        const cache = new ResponseCache(baseUrl);
+        const proxy = new RestProxyFactory(mockHttpClient, baseUrl, headers, {
+          cache,
+        }).createProxy();
+        await proxy.users(1).get();
+
+        const watched = proxy.users(1).watch();
+        const next = jest.fn();
+        watched.subscribe(next);
+        await wait();
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(1);
+
+        mockHttpClient.makeRequest.mockResolvedValueOnce(ok({ id: 1 }));
+        await cache.invalidate('/users/*');
+        await wait();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(next).toHaveBeenLastCalledWith(ok({ id: 1 }));
+      });
+
+      it('should bypass the cache when refetching', async () => {
+        const proxy = new RestProxyFactory(mockHttpClient, baseUrl, headers, {
+          cache: new ResponseCache(baseUrl),
+        }).createProxy();
+        const watched = proxy.users.watch();
+        watched.subscribe(() => undefined);
+        await wait();
+
+        mockHttpClient.makeRequest.mockResolvedValueOnce(ok([{ id: 2 }]));
+        await watched.refetch();
+        const cached = await proxy.users.get();
+
+        expect(mockHttpClient.makeRequest).toHaveBeenCalledTimes(2);
+        expect(cached).toEqual(ok([{ id: 2 }]));
+      });
+
+      it('should reject invalid watch options', () => {
+        const proxy = factory.createProxy();
+
+        expect(() => proxy.users.watch({ pollInterval: -1 })).toThrow(
+          'Watch "pollInterval" must be a non-negative number'
+        );
+        expect(() => proxy.users.watch({ cache: true })).toThrow(
+          'Only GET requests of clients with the "cache" option can be cached'
+        );
+      });
+    });
+
+    describe('Event streams', () => {
+      let fetchImpl: ReturnType<typeof createFetch>;
+
+      const take = async (
+        stream: AsyncIterable<ServerSentEvent>,
+        count: number
+      ) => {
+        const events: ServerSentEvent[] = [];
+        for await (const event of stream) {
+          events.push(event);
+          if (events.length === count) break;
+        }
+        return events;
+      };
+
+      beforeAll(() => {
+        (global as any).TextDecoder = TextDecoder;
+      });
+
+      afterAll(() => {
+        delete (global as any).TextDecoder;
+      });
+
+      beforeEach(() => {
+        mockHttpClient.prepareRequest = jest.fn(async config => config);
+      });
+
+      const createStreamProxy = () =>
+        new RestProxyFactory(mockHttpClient, baseUrl, headers, {
+          fetchImpl,
+        }).createProxy();
+
+      it('should yield parsed events', async () => {
+        fetchImpl = createFetch([
+          'id: 1\nevent: price\ndata: {"value":10}\n\n',
+          'retry: 1000\ndata: tick\n\n',
+        ]);
+
+        const events = await take(
+          createStreamProxy()
+            .prices('btc')
+            .stream({ query: { currency: 'usd' }, headers: { 'X-Id': '1' } }),
+          2
+        );
+
+        expect(events).toEqual([
+          { id: '1', event: 'price', data: '{"value":10}' },
+          { id: '1', event: 'message', data: 'tick', retry: 1000 },
+        ]);
+        expect(fetchImpl).toHaveBeenCalledWith(
+          `${baseUrl}/prices/btc?currency=usd`,
+          {
+            method: 'GET',
+            headers: {
+              Accept: 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              'Content-Type': 'application/json',
+              'X-Id': '1',
+            },
+            body: undefined,
+            signal: expect.anything(),
+          }
+        );
+      });
+
+      it('should run request interceptors before connecting', async () => {
+        fetchImpl = createFetch(['data: x\n\n']);
+        mockHttpClient.prepareRequest.mockImplementation(async config => ({
+          ...config,
+          headers: { ...config.headers, Authorization: 'Bearer token' },
+        }));
+
+        await take(createStreamProxy().events.stream(), 1);
+
+        expect(fetchImpl.mock.calls[0][1].headers.Authorization).toBe(
+          'Bearer token'
+        );
+      });
+
+      it('should send JSON bodies', async () => {
+        fetchImpl = createFetch(['data: x\n\n']);
+
+        await take(
+          createStreamProxy().events.stream({
+            method: 'POST',
+            body: { topic: 'news' },
+          }),
+          1
+        );
+
+        expect(fetchImpl.mock.calls[0][1]).toEqual(
+          expect.objectContaining({
+            method: 'POST',
+            body: '{"topic":"news"}',
+          })
+        );
+      });
+
+      it('should resume from the last event id after reconnecting', async () => {
+        fetchImpl = createFetch(['id: 5\ndata: a\n\n'], [], ['data: b\n\n']);
+
+        const events = await take(
+          createStreamProxy().events.stream({
+            lastEventId: '4',
+            reconnect: { attempts: 3, delay: 0 },
+          }),
+          2
+        );
+
+        expect(events.map(event => event.data)).toEqual(['a', 'b']);
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+        expect(fetchImpl.mock.calls[0][1].headers['Last-Event-ID']).toBe('4');
+        expect(fetchImpl.mock.calls[1][1].headers['Last-Event-ID']).toBe('5');
+        expect(fetchImpl.mock.calls[2][1].headers['Last-Event-ID']).toBe('5');
+      });
+
+      it('should throw when the stream fails', async () => {
+        fetchImpl = createFetch(404);
+
+        await expect(
+          take(createStreamProxy().events.stream(), 1)
+        ).rejects.toEqual(
+          expect.objectContaining({
+            extensions: expect.objectContaining({
+              code: '404',
+              message: 'Not Found',
+            }),
+          })
+        );
+      });
+
+      it('should complete when the server responds with 204', async () => {
+        fetchImpl = createFetch(204);
+
+        expect(await take(createStreamProxy().events.stream(), 1)).toEqual([]);
+      });
+
+      it('should complete and abort when the signal aborts', async () => {
+        fetchImpl = createFetch();
+        const controller = new AbortController();
+        const complete = jest.fn();
+
+        createStreamProxy()
+          .events.stream({ signal: controller.signal })
+          .subscribe({ complete });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        controller.abort();
+
+        expect(complete).toHaveBeenCalledTimes(1);
+        expect(fetchImpl.mock.calls[0][1].signal.aborted).toBe(true);
+      });
+
+      it('should validate reconnect options', () => {
+        expect(() =>
+          factory.createProxy().events.stream({ reconnect: 'yes' as any })
+        ).toThrow();
+      });
+    });
+
     it('should handle unknown properties as path segments', () => {
       const proxy = factory.createProxy();
       const unknownProxy = proxy.someUnknownProperty;
@@ -0,0 +1,200 @@
+import { SSETransport } from '../../../src/transports';
+import { EventStream } from '../../../src/core/event-stream';
+import {
+  FetchLike,
+  GraphQLResponse,
+  SSETransportOptions,
+} from '../../../src/types';
+const { TextDecoder, TextEncoder } = require('util');
+
+interface MockResponse {
+  status?: number;
+  contentType?: string;
+  chunks?: string[];
+  // Keep the stream open after the chunks until the request is aborted
+  hang?: boolean;
+}
+
+const createFetch = (...responses: MockResponse[]) =>
+  jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(
+    async (_, { signal }) => {
+      const {
+        status = 200,
+        contentType = 'text/event-stream',
+        chunks = [],
+        hang = false,
+      } = responses.shift() ?? { hang: true };
+      const queue = chunks.map(chunk => new TextEncoder().encode(chunk));
+
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: '',
+        headers: {
+          get: (name: string) => (name === 'content-type' ? contentType : null),
+        },
+        body: {
+          getReader: () => ({
+            read: () => {
+              if (queue.length > 0) {
+                return Promise.resolve({ done: false, value: queue.shift() });
+              }
+              if (!hang) return Promise.resolve({ done: true });
+              return new Promise((_, reject) =>
+                signal.addEventListener('abort', () =>
+                  reject(new Error('aborted'))
+                )
+              );
+            },
+            cancel: () => Promise.resolve(),
+          }),
+        },
+      };
+    }
+  );
+
+describe('SSETransport', () => {
+  const url = 'https://api.example.com/graphql/stream';
+  const query = 'subscription { onMessage { id } }';
+
+  beforeAll(() => {
+    (global as any).TextDecoder = TextDecoder;
+  });
+
+  afterAll(() => {
+    delete (global as any).TextDecoder;
+  });
+
+  const subscribe = (options: Partial<SSETransportOptions>) => {
+    const transport = new SSETransport({ transport: 'sse', url, ...options });
+    return new EventStream<GraphQLResponse>(sink =>
+      transport.subscribe({ query, variables: { room: 1 } }, sink)
+    );
+  };
+
+  const collect = async (stream: EventStream<GraphQLResponse>) => {
+    const results: GraphQLResponse[] = [];
+    for await (const result of stream) results.push(result);
+    return results;
+  };
+
+  it('should POST the operation and stream results', async () => {
+    const fetchImpl = createFetch({
+      chunks: [
+        'event: next\ndata: {"data":{"onMessage":{"id":1}}}\n\n',
+        'event: next\ndata: {"data":{"onMessage":{"id":2}}}\n\n',
+        'event: complete\ndata:\n\n',
+      ],
+      hang: true,
+    });
+
+    const results = await collect(subscribe({ fetchImpl }));
+
+    expect(results).toEqual([
+      { data: { onMessage: { id: 1 } } },
+      { data: { onMessage: { id: 2 } } },
+    ]);
+    expect(fetchImpl).toHaveBeenCalledWith(url, {
+      method: 'POST',
+      headers: {
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables: { room: 1 } }),
+      signal: expect.anything(),
+    });
+    expect(fetchImpl.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it('should resolve async headers', async () => {
+    const fetchImpl = createFetch({ chunks: ['event: complete\ndata:\n\n'] });
+
+    await collect(
+      subscribe({
+        fetchImpl,
+        headers: async () => ({ Authorization: 'Bearer token' }),
+      })
+    );
+
+    expect(fetchImpl.mock.calls[0][1].headers).toEqual(
+      expect.objectContaining({ Authorization: 'Bearer token' })
+    );
+  });
+
+  it('should normalise errors in results', async () => {
+    const fetchImpl = createFetch({
+      chunks: [
+        'event: next\ndata: {"errors":[{"message":"Boom","extensions":{"code":"500"}}]}\n\n',
+        'event: complete\ndata:\n\n',
+      ],
+    });
+
+    const [result] = await collect(subscribe({ fetchImpl }));
+
+    expect(result.data).toBeNull();
+    expect(result.errors![0].extensions.code).toBe('500');
+  });
+
+  it('should reconnect with Last-Event-ID when the stream drops', async () => {
+    const fetchImpl = createFetch(
+      { chunks: ['id: 1\nevent: next\ndata: {"data":1}\n\n'] },
+      {
+        chunks: [
+          'id: 2\nevent: next\ndata: {"data":2}\n\nevent: complete\ndata:\n\n',
+        ],
+      }
+    );
+
+    const results = await collect(
+      subscribe({ fetchImpl, reconnect: { attempts: 3, delay: 0 } })
+    );
+
+    expect(results).toEqual([{ data: 1 }, { data: 2 }]);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(fetchImpl.mock.calls[1][1].headers['Last-Event-ID']).toBe('1');
+  });
+
+  it('should report failures once reconnects are exhausted', async () => {
+    const fetchImpl = createFetch({ status: 503 }, { status: 503 });
+
+    const results = await collect(
+      subscribe({ fetchImpl, reconnect: { attempts: 2, delay: 0 } })
+    );
+
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(results).toHaveLength(1);
+    expect(results[0].errors![0].extensions.code).toBe('503');
+  });
+
+  it('should not retry client errors', async () => {
+    const fetchImpl = createFetch({ status: 401 });
+
+    const results = await collect(
+      subscribe({ fetchImpl, reconnect: { attempts: 5, delay: 0 } })
+    );
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(results[0].errors![0].extensions.code).toBe('401');
+  });
+
+  it('should reject responses that are not event streams', async () => {
+    const fetchImpl = createFetch({ contentType: 'application/json' });
+
+    const results = await collect(subscribe({ fetchImpl }));
+
+    expect(results[0].errors![0].extensions.message).toBe(
+      'Expected a text/event-stream response, received "application/json"'
+    );
+  });
+
+  it('should abort the request on unsubscribe', async () => {
+    const fetchImpl = createFetch({ hang: true });
+
+    const subscription = subscribe({ fetchImpl }).subscribe(jest.fn());
+    await new Promise(resolve => setTimeout(resolve, 0));
+    subscription.unsubscribe();
+
+    expect(fetchImpl.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+});
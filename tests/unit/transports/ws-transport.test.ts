@@ -0,0 +1,385 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { WebSocketTransport } from '../../../src/transports';
+import { EventStream } from '../../../src/core/event-stream';
+import { ErrorHandler } from '../../../src/utils';
+import {
+  GraphQLResponse,
+  WebSocketConstructor,
+  WebSocketTransportOptions,
+} from '../../../src/types';
+
+interface ServerSocket {
+  socket: WebSocket;
+  protocol: string;
+  initPayload?: unknown;
+  messages: any[];
+}
+
+interface TestServer {
+  url: string;
+  sockets: ServerSocket[];
+  onSubscribe: (socket: WebSocket, id: string, payload: any) => void;
+  acceptInit: (payload: any) => boolean;
+  autoPong: boolean;
+  close: () => Promise<void>;
+}
+
+const startServer = async (): Promise<TestServer> => {
+  const wss = new WebSocketServer({ port: 0 });
+  await new Promise(resolve => wss.once('listening', resolve));
+
+  const server: TestServer = {
+    url: `ws://localhost:${(wss.address() as AddressInfo).port}/graphql`,
+    sockets: [],
+    onSubscribe: () => undefined,
+    acceptInit: () => true,
+    autoPong: true,
+    close: () =>
+      new Promise<void>(resolve => {
+        wss.clients.forEach(client => client.terminate());
+        wss.close(() => resolve());
+      }),
+  };
+
+  wss.on('connection', socket => {
+    const entry: ServerSocket = {
+      socket,
+      protocol: socket.protocol,
+      messages: [],
+    };
+    server.sockets.push(entry);
+
+    socket.on('message', raw => {
+      const message = JSON.parse(String(raw));
+      entry.messages.push(message);
+
+      switch (message.type) {
+        case 'connection_init':
+          entry.initPayload = message.payload;
+          if (server.acceptInit(message.payload)) {
+            socket.send(JSON.stringify({ type: 'connection_ack' }));
+          } else {
+            socket.close(4403, 'Forbidden');
+          }
+          break;
+        case 'ping':
+          if (server.autoPong) socket.send(JSON.stringify({ type: 'pong' }));
+          break;
+        case 'subscribe':
+          server.onSubscribe(socket, message.id, message.payload);
+          break;
+      }
+    });
+  });
+
+  return server;
+};
+
+const send = (socket: WebSocket, message: object) =>
+  socket.send(JSON.stringify(message));
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('WebSocketTransport', () => {
+  let server: TestServer;
+  let transport: WebSocketTransport;
+
+  const createTransport = (options: Partial<WebSocketTransportOptions> = {}) =>
+    new WebSocketTransport({
+      transport: 'ws',
+      url: server.url,
+      webSocketImpl: (WebSocket as unknown) as WebSocketConstructor,
+      keepAlive: 0,
+      ...options,
+    });
+
+  const subscribe = (query = 'subscription { onMessage { id } }') =>
+    new EventStream<GraphQLResponse>(sink =>
+      transport.subscribe({ query, variables: {} }, sink)
+    );
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should negotiate the graphql-transport-ws protocol', async () => {
+    transport = createTransport({
+      connectionParams: { authToken: 'secret' },
+    });
+    server.onSubscribe = (socket, id) => send(socket, { id, type: 'complete' });
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(server.sockets[0].protocol).toBe('graphql-transport-ws');
+    expect(server.sockets[0].initPayload).toEqual({ authToken: 'secret' });
+    expect(results).toEqual([]);
+  });
+
+  it('should resolve async connection params', async () => {
+    transport = createTransport({
+      connectionParams: async () => ({ authToken: 'async' }),
+    });
+    server.onSubscribe = (socket, id) => send(socket, { id, type: 'complete' });
+
+    await new Promise(resolve => subscribe().subscribe({ complete: resolve }));
+
+    expect(server.sockets[0].initPayload).toEqual({ authToken: 'async' });
+  });
+
+  it('should stream results until the server completes', async () => {
+    transport = createTransport();
+    server.onSubscribe = (socket, id, payload) => {
+      expect(payload).toEqual({
+        query: 'subscription { onMessage { id } }',
+        variables: {},
+      });
+      send(socket, { id, type: 'next', payload: { data: { onMessage: 1 } } });
+      send(socket, { id, type: 'next', payload: { data: { onMessage: 2 } } });
+      send(socket, { id, type: 'complete' });
+    };
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(results).toEqual([
+      { data: { onMessage: 1 } },
+      { data: { onMessage: 2 } },
+    ]);
+  });
+
+  it('should close the connection when the server completes the last subscription', async () => {
+    transport = createTransport();
+    let closed: Promise<number> | undefined;
+    server.onSubscribe = (socket, id) => {
+      closed = new Promise(resolve => socket.once('close', resolve));
+      send(socket, { id, type: 'next', payload: { data: { onMessage: 1 } } });
+      send(socket, { id, type: 'complete' });
+    };
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(results).toHaveLength(1);
+    expect(await closed).toBe(1000);
+  });
+
+  it('should normalise errors in results', async () => {
+    transport = createTransport();
+    server.onSubscribe = (socket, id) => {
+      send(socket, {
+        id,
+        type: 'next',
+        payload: {
+          data: null,
+          errors: [{ message: 'Boom', extensions: { code: '500' } }],
+        },
+      });
+      send(socket, { id, type: 'complete' });
+    };
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(results[0].data).toBeNull();
+    expect(results[0].errors![0].extensions.code).toBe('500');
+  });
+
+  it('should report operation errors and complete', async () => {
+    transport = createTransport();
+    server.onSubscribe = (socket, id) =>
+      send(socket, {
+        id,
+        type: 'error',
+        payload: [{ message: 'Invalid', extensions: { code: '422' } }],
+      });
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].errors![0].extensions.code).toBe('422');
+  });
+
+  it('should multiplex subscriptions over one connection', async () => {
+    transport = createTransport();
+    const ids: string[] = [];
+    server.onSubscribe = (_, id) => ids.push(id);
+
+    const first = subscribe().subscribe(jest.fn());
+    const second = subscribe().subscribe(jest.fn());
+    await waitFor(() => ids.length === 2);
+
+    expect(server.sockets).toHaveLength(1);
+    expect(new Set(ids).size).toBe(2);
+
+    first.unsubscribe();
+    second.unsubscribe();
+  });
+
+  it('should unsubscribe cleanly and close the idle connection', async () => {
+    transport = createTransport();
+    let subscribedId = '';
+    server.onSubscribe = (_, id) => {
+      subscribedId = id;
+    };
+
+    const subscription = subscribe().subscribe(jest.fn());
+    await waitFor(() => subscribedId !== '');
+
+    const closed = new Promise<number>(resolve =>
+      server.sockets[0].socket.once('close', resolve)
+    );
+    subscription.unsubscribe();
+
+    expect(await closed).toBe(1000);
+    expect(server.sockets[0].messages).toContainEqual({
+      id: subscribedId,
+      type: 'complete',
+    });
+  });
+
+  it('should close quietly when unsubscribed before the socket opens', async () => {
+    const sockets: WebSocket[] = [];
+    // Returning the socket from a constructor function keeps it a real
+    // `ws` socket
+    function TrackedWebSocket(url: string, protocols?: string | string[]) {
+      const socket = new WebSocket(url, protocols);
+      sockets.push(socket);
+      return socket;
+    }
+    transport = createTransport({
+      webSocketImpl: (TrackedWebSocket as unknown) as WebSocketConstructor,
+    });
+
+    const subscription = subscribe().subscribe(jest.fn());
+    expect(sockets[0].readyState).toBe(WebSocket.CONNECTING);
+    subscription.unsubscribe();
+
+    await waitFor(() => sockets[0].readyState === WebSocket.CLOSED);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  });
+
+  it('should answer server pings', async () => {
+    transport = createTransport();
+    server.onSubscribe = socket => send(socket, { type: 'ping' });
+
+    const subscription = subscribe().subscribe(jest.fn());
+    await waitFor(() =>
+      (server.sockets[0]?.messages ?? []).some(m => m.type === 'pong')
+    );
+
+    subscription.unsubscribe();
+  });
+
+  it('should send keep-alive pings', async () => {
+    transport = createTransport({ keepAlive: 20 });
+    const subscription = subscribe().subscribe(jest.fn());
+
+    await waitFor(() =>
+      (server.sockets[0]?.messages ?? []).some(m => m.type === 'ping')
+    );
+
+    subscription.unsubscribe();
+  });
+
+  it('should reconnect when pings go unanswered', async () => {
+    server.autoPong = false;
+    transport = createTransport({
+      keepAlive: 20,
+      reconnect: { attempts: 3, delay: 0 },
+    });
+    const subscription = subscribe().subscribe(jest.fn());
+
+    await waitFor(() => server.sockets.length >= 2);
+
+    subscription.unsubscribe();
+  });
+
+  it('should report unanswered pings as a timeout', async () => {
+    server.autoPong = false;
+    transport = createTransport({ keepAlive: 20, reconnect: false });
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(results[0].errors![0].extensions.code).toBe('408');
+    expect(ErrorHandler.isCancelled(results[0].errors)).toBe(false);
+  });
+
+  it('should reconnect and resubscribe after a dropped connection', async () => {
+    transport = createTransport({ reconnect: { attempts: 3, delay: 0 } });
+    server.onSubscribe = (socket, id) => {
+      if (server.sockets.length === 1) {
+        socket.terminate();
+      } else {
+        send(socket, { id, type: 'next', payload: { data: { ok: true } } });
+        send(socket, { id, type: 'complete' });
+      }
+    };
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(server.sockets).toHaveLength(2);
+    expect(results).toEqual([{ data: { ok: true } }]);
+  });
+
+  it('should give up after the reconnect attempts are exhausted', async () => {
+    transport = createTransport({ reconnect: { attempts: 2, delay: 0 } });
+    server.onSubscribe = () => void server.close();
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(server.sockets).toHaveLength(1);
+    expect(results).toHaveLength(1);
+    expect(results[0].data).toBeNull();
+    expect(results[0].errors![0].extensions.code).toBe('503');
+  });
+
+  it('should not reconnect after fatal close codes', async () => {
+    server.acceptInit = payload => payload?.authToken === 'valid';
+    transport = createTransport({
+      connectionParams: { authToken: 'invalid' },
+      reconnect: { attempts: 5, delay: 0 },
+    });
+
+    const results: GraphQLResponse[] = [];
+    for await (const result of subscribe()) results.push(result);
+
+    expect(server.sockets).toHaveLength(1);
+    expect(results[0].errors![0].extensions).toEqual(
+      expect.objectContaining({ code: '403', message: 'Forbidden' })
+    );
+  });
+
+  it('should fail when no WebSocket implementation exists', () => {
+    const { WebSocket: globalWebSocket } = global as any;
+    delete (global as any).WebSocket;
+    transport = new WebSocketTransport({ transport: 'ws', url: server.url });
+    const next = jest.fn();
+    const complete = jest.fn();
+
+    subscribe().subscribe({ next, complete });
+
+    expect(next.mock.calls[0][0].errors[0].extensions.message).toMatch(
+      'WebSocket is not available'
+    );
+    expect(complete).toHaveBeenCalled();
+    (global as any).WebSocket = globalWebSocket;
+  });
+});
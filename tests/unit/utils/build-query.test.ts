@@ -0,0 +1,215 @@
+import { buildQuery } from '../../../src/utils/build-query';
+
+describe('buildQuery', () => {
+  const build = (args: Record<string, unknown>) =>
+    buildQuery(['query { getUser (', ') { id } }'], args);
+
+  it('should build queries without arguments', () => {
+    expect(buildQuery(['query { me ', ' { id } }'], {})).toEqual({
+      query: 'query { me { id } }',
+    });
+  });
+
+  it('should keep variable names unique across root fields', () => {
+    expect(
+      buildQuery(
+        ['query { me: user (', ') { id } them: user (', ') { id } }'],
+        { id: 1 },
+        { id: 2 }
+      )
+    ).toEqual({
+      query:
+        'query my_query($id_0: Int!, $id_1: Int!) { me: user (id: $id_0) { id } them: user (id: $id_1) { id } }',
+      variables: { id_0: 1, id_1: 2 },
+    });
+  });
+
+  it('should declare inferred variable types', () => {
+    expect(build({ id: 1, price: 9.99, name: 'John', active: true })).toEqual({
+      query:
+        'query my_query($id_0: Int!, $price_0: Float!, $name_0: String!, $active_0: Boolean!) { getUser (id: $id_0, price: $price_0, name: $name_0, active: $active_0) { id } }',
+      variables: { id_0: 1, price_0: 9.99, name_0: 'John', active_0: true },
+    });
+  });
+
+  it('should infer list types', () => {
+    expect(build({ tags: ['a', 'b'], scores: [1, 2.5] }).query).toContain(
+      '($tags_0: [String!]!, $scores_0: [Float!]!)'
+    );
+  });
+
+  it('should use explicit types for IDs, enums and input objects', () => {
+    const result = build({
+      id: { type: 'ID!', value: '42' },
+      role: { type: 'Role', value: 'ADMIN' },
+      ids: { type: '[ID!]!', value: ['1', 2] },
+      profile: {
+        type: 'ProfileInput!',
+        value: { age: 30, tags: ['x'], address: { city: 'Dhaka' } },
+      },
+    });
+
+    expect(result.query).toContain(
+      'my_query($id_0: ID!, $role_0: Role, $ids_0: [ID!]!, $profile_0: ProfileInput!)'
+    );
+    expect(result.variables).toEqual({
+      id_0: '42',
+      role_0: 'ADMIN',
+      ids_0: ['1', 2],
+      profile_0: { age: 30, tags: ['x'], address: { city: 'Dhaka' } },
+    });
+  });
+
+  it('should send falsy values as variables', () => {
+    expect(
+      build({
+        count: 0,
+        active: false,
+        name: '',
+        limit: { type: 'Int', value: 0 },
+        admin: { type: 'Boolean', value: false },
+        search: { type: 'String', value: '' },
+      })
+    ).toEqual({
+      query:
+        'query my_query($count_0: Int!, $active_0: Boolean!, $name_0: String!, $limit_0: Int, $admin_0: Boolean, $search_0: String) { getUser (count: $count_0, active: $active_0, name: $name_0, limit: $limit_0, admin: $admin_0, search: $search_0) { id } }',
+      variables: {
+        count_0: 0,
+        active_0: false,
+        name_0: '',
+        limit_0: 0,
+        admin_0: false,
+        search_0: '',
+      },
+    });
+  });
+
+  it('should send typed null values as nullable variables', () => {
+    expect(build({ id: 1, bio: { type: 'String', value: null } })).toEqual({
+      query:
+        'query my_query($id_0: Int!, $bio_0: String) { getUser (id: $id_0, bio: $bio_0) { id } }',
+      variables: { id_0: 1, bio_0: null },
+    });
+  });
+
+  it('should send plain null values as null literals', () => {
+    expect(build({ id: 1, bio: null })).toEqual({
+      query:
+        'query my_query($id_0: Int!) { getUser (id: $id_0, bio: null) { id } }',
+      variables: { id_0: 1 },
+    });
+  });
+
+  it('should leave out undefined arguments', () => {
+    expect(
+      build({
+        id: 1,
+        bio: undefined,
+        tag: { type: 'String', value: undefined },
+      })
+    ).toEqual({
+      query: 'query my_query($id_0: Int!) { getUser (id: $id_0) { id } }',
+      variables: { id_0: 1 },
+    });
+  });
+
+  it('should number variables per argument list', () => {
+    expect(
+      buildQuery(
+        ['query { user (', ') { id posts(', ') { id } avatar(', ') } }'],
+        { id: 1 },
+        { first: 10 },
+        { first: 1 }
+      )
+    ).toEqual({
+      query:
+        'query my_query($id_0: Int!, $first_1: Int!, $first_2: Int!) { user (id: $id_0) { id posts(first: $first_1) { id } avatar(first: $first_2) } }',
+      variables: { id_0: 1, first_1: 10, first_2: 1 },
+    });
+  });
+
+  it('should build mutations', () => {
+    expect(
+      buildQuery(['mutation { createUser (', ') }'], { name: 'John' })
+    ).toEqual({
+      query:
+        'mutation my_mutation($name_0: String!) { createUser (name: $name_0) }',
+      variables: { name_0: 'John' },
+    });
+  });
+
+  it('should keep the operation name', () => {
+    expect(
+      buildQuery(['query GetUser { getUser (', ') { id } }'], { id: 1 })
+    ).toEqual({
+      query: 'query GetUser($id_0: Int!) { getUser (id: $id_0) { id } }',
+      variables: { id_0: 1 },
+    });
+    expect(buildQuery(['query Me { me ', ' { id } }'], {})).toEqual({
+      query: 'query Me { me { id } }',
+    });
+  });
+
+  it('should build subscriptions', () => {
+    expect(
+      buildQuery(['subscription OnMessage { onMessage (', ') { id } }'], {
+        room: 'general',
+      })
+    ).toEqual({
+      query:
+        'subscription OnMessage($room_0: String!) { onMessage (room: $room_0) { id } }',
+      variables: { room_0: 'general' },
+    });
+  });
+
+  it('should declare variables of directives', () => {
+    expect(
+      buildQuery(
+        ['query Feed @cached(', ') { feed (', ') @include(', ') { id } }'],
+        { ttl: 60 },
+        { first: 10 },
+        { if: true }
+      )
+    ).toEqual({
+      query:
+        'query Feed($ttl_0: Int!, $first_1: Int!, $if_2: Boolean!) @cached(ttl: $ttl_0) { feed (first: $first_1) @include(if: $if_2) { id } }',
+      variables: { ttl_0: 60, first_1: 10, if_2: true },
+    });
+    expect(buildQuery(['query Feed @live { feed ', ' { id } }'], {})).toEqual({
+      query: 'query Feed @live { feed { id } }',
+    });
+  });
+
+  it('should throw when a type cannot be inferred', () => {
+    expect(() => build({ profile: { age: 30 } })).toThrow(
+      `Cannot infer the input type of "profile", declare it as { type: 'MyInput', value }`
+    );
+    expect(() => build({ tags: [] })).toThrow(
+      'Cannot infer the item type of empty list "tags"'
+    );
+    expect(() => build({ mixed: [1, 'a'] })).toThrow(
+      'Cannot infer the item type of "mixed" from mixed Int!, String! items'
+    );
+    expect(() => build({ cb: () => undefined })).toThrow(
+      'Cannot infer a GraphQL type for "cb" from a function'
+    );
+  });
+
+  it('should reject values that do not match the declared type', () => {
+    expect(() => build({ id: { type: 'Int', value: '1' } })).toThrow(
+      'The value of "id" is not a valid Int: "1"'
+    );
+    expect(() => build({ ids: { type: '[ID]', value: '1' } })).toThrow(
+      'The value of "ids" must be a list'
+    );
+    expect(() => build({ id: { type: 'ID]', value: '1' } })).toThrow(
+      'Invalid GraphQL type "ID]" for "id"'
+    );
+  });
+
+  it('should reject invalid initial strings', () => {
+    expect(() => buildQuery(['{ user }'])).toThrow(
+      'The query string is not valid'
+    );
+  });
+});
@@ -2,6 +2,23 @@ import { ErrorHandler } from '../../../src/utils/error-handler';
 import { IErrors } from '../../../src/types/common';
 
 describe('ErrorHandler', () => {
+  describe('isCancelled', () => {
+    it('should return true for cancelled requests', () => {
+      const errors: IErrors[] = [
+        { extensions: { code: '499' }, message: 'Request cancelled' },
+      ];
+      expect(ErrorHandler.isCancelled(errors)).toBe(true);
+    });
+
+    it('should return false for other errors', () => {
+      const errors: IErrors[] = [
+        { extensions: { code: '500' }, message: 'Server error' },
+      ];
+      expect(ErrorHandler.isCancelled(errors)).toBe(false);
+      expect(ErrorHandler.isCancelled(undefined)).toBe(false);
+    });
+  });
+
   describe('isNotFound', () => {
     it('should return true for 404 errors', () => {
       const errors: IErrors[] = [
@@ -56,6 +73,15 @@ describe('ErrorHandler', () => {
       });
     });
 
+    it('should keep the path of GraphQL errors', () => {
+      const result = ErrorHandler.compose({
+        extensions: { code: '500' },
+        path: ['user', 0, 'name'],
+      });
+
+      expect(result.path).toEqual(['user', 0, 'name']);
+    });
+
     it('should handle 422 errors with object messages', () => {
       const input: IErrors = {
         extensions: {
@@ -0,0 +1,249 @@
+import { GraphQLDocuments } from '../../../src/utils/graphql-documents';
+import { TypedDocumentNode } from '../../../src/types';
+
+describe('GraphQLDocuments', () => {
+  const name = (value: string) => ({ kind: 'Name', value });
+  const field = (fieldName: string, extra: object = {}) => ({
+    kind: 'Field',
+    name: name(fieldName),
+    ...extra,
+  });
+  const selectionSet = (...selections: object[]) => ({
+    kind: 'SelectionSet',
+    selections,
+  });
+
+  // AST of:
+  // query GetUser($id: ID!, $size: Int = 64) @live {
+  //   me: user(id: $id, filter: { roles: [ADMIN], active: true }) {
+  //     id avatar(size: $size) ...UserFields ... on Admin @include(if: true) { level }
+  //   }
+  // }
+  // fragment UserFields on User { name bio(format: "md") score(min: 1.5) deletedAt(or: null) }
+  const document: TypedDocumentNode<{ me: { id: string } }, { id: string }> = {
+    kind: 'Document',
+    definitions: [
+      {
+        kind: 'OperationDefinition',
+        operation: 'query',
+        name: name('GetUser'),
+        variableDefinitions: [
+          {
+            kind: 'VariableDefinition',
+            variable: { kind: 'Variable', name: name('id') },
+            type: {
+              kind: 'NonNullType',
+              type: { kind: 'NamedType', name: name('ID') },
+            },
+          },
+          {
+            kind: 'VariableDefinition',
+            variable: { kind: 'Variable', name: name('size') },
+            type: { kind: 'NamedType', name: name('Int') },
+            defaultValue: { kind: 'IntValue', value: '64' },
+          },
+        ],
+        directives: [{ kind: 'Directive', name: name('live'), arguments: [] }],
+        selectionSet: selectionSet(
+          field('user', {
+            alias: name('me'),
+            arguments: [
+              {
+                kind: 'Argument',
+                name: name('id'),
+                value: { kind: 'Variable', name: name('id') },
+              },
+              {
+                kind: 'Argument',
+                name: name('filter'),
+                value: {
+                  kind: 'ObjectValue',
+                  fields: [
+                    {
+                      kind: 'ObjectField',
+                      name: name('roles'),
+                      value: {
+                        kind: 'ListValue',
+                        values: [{ kind: 'EnumValue', value: 'ADMIN' }],
+                      },
+                    },
+                    {
+                      kind: 'ObjectField',
+                      name: name('active'),
+                      value: { kind: 'BooleanValue', value: true },
+                    },
+                  ],
+                },
+              },
+            ],
+            selectionSet: selectionSet(
+              field('id'),
+              field('avatar', {
+                arguments: [
+                  {
+                    kind: 'Argument',
+                    name: name('size'),
+                    value: { kind: 'Variable', name: name('size') },
+                  },
+                ],
+              }),
+              { kind: 'FragmentSpread', name: name('UserFields') },
+              {
+                kind: 'InlineFragment',
+                typeCondition: { kind: 'NamedType', name: name('Admin') },
+                directives: [
+                  {
+                    kind: 'Directive',
+                    name: name('include'),
+                    arguments: [
+                      {
+                        kind: 'Argument',
+                        name: name('if'),
+                        value: { kind: 'BooleanValue', value: true },
+                      },
+                    ],
+                  },
+                ],
+                selectionSet: selectionSet(field('level')),
+              }
+            ),
+          })
+        ),
+      },
+      {
+        kind: 'FragmentDefinition',
+        name: name('UserFields'),
+        typeCondition: { kind: 'NamedType', name: name('User') },
+        selectionSet: selectionSet(
+          field('name'),
+          field('bio', {
+            arguments: [
+              {
+                kind: 'Argument',
+                name: name('format'),
+                value: { kind: 'StringValue', value: 'md' },
+              },
+            ],
+          }),
+          field('score', {
+            arguments: [
+              {
+                kind: 'Argument',
+                name: name('min'),
+                value: { kind: 'FloatValue', value: '1.5' },
+              },
+            ],
+          }),
+          field('deletedAt', {
+            arguments: [
+              {
+                kind: 'Argument',
+                name: name('or'),
+                value: { kind: 'NullValue' },
+              },
+            ],
+          })
+        ),
+      },
+    ],
+  };
+
+  describe('toSource', () => {
+    it('should print document nodes', () => {
+      expect(GraphQLDocuments.toSource(document)).toBe(
+        'query GetUser($id: ID!, $size: Int = 64) @live { ' +
+          'me: user(id: $id, filter: {roles: [ADMIN], active: true}) { ' +
+          'id avatar(size: $size) ...UserFields ... on Admin @include(if: true) { level } } } ' +
+          'fragment UserFields on User { name bio(format: "md") score(min: 1.5) deletedAt(or: null) }'
+      );
+    });
+
+    it('should use the source location of parsed documents', () => {
+      const source = 'query { me { id } }';
+      expect(
+        GraphQLDocuments.toSource({
+          kind: 'Document',
+          definitions: [],
+          loc: { source: { body: source } },
+        })
+      ).toBe(source);
+    });
+
+    it('should accept strings and String objects', () => {
+      expect(GraphQLDocuments.toSource('{ me }')).toBe('{ me }');
+      // Codegen's TypedDocumentString extends String
+      // eslint-disable-next-line no-new-wrappers
+      expect(GraphQLDocuments.toSource(new String('{ me }'))).toBe('{ me }');
+    });
+
+    it('should reject anything else', () => {
+      expect(() => GraphQLDocuments.toSource(' ')).toThrow(
+        'GraphQL document must be a non-empty string'
+      );
+      expect(() => GraphQLDocuments.toSource({ kind: 'Field' } as any)).toThrow(
+        'GraphQL document must be a string or a DocumentNode'
+      );
+      expect(() =>
+        GraphQLDocuments.print({ kind: 'SchemaDefinition' })
+      ).toThrow('Cannot print GraphQL node of kind "SchemaDefinition"');
+    });
+  });
+
+  describe('getOperation', () => {
+    it('should find the only operation', () => {
+      expect(
+        GraphQLDocuments.getOperation(
+          'fragment F on User { id } mutation CreateUser($input: In = { query: 1 }) { createUser { ...F } }'
+        )
+      ).toEqual({ type: 'mutation', name: 'CreateUser' });
+      expect(GraphQLDocuments.getOperation('{ me { id } }')).toEqual({
+        type: 'query',
+      });
+    });
+
+    it('should select an operation by name', () => {
+      const source = 'query A { a } subscription B { b }';
+      expect(GraphQLDocuments.getOperation(source, 'B')).toEqual({
+        type: 'subscription',
+        name: 'B',
+      });
+      expect(() => GraphQLDocuments.getOperation(source)).toThrow(
+        'GraphQL document contains several operations, pass "operationName" to select one'
+      );
+      expect(() => GraphQLDocuments.getOperation(source, 'C')).toThrow(
+        'Unknown operation "C" in document'
+      );
+    });
+
+    it('should require an operation', () => {
+      expect(() =>
+        GraphQLDocuments.getOperation('fragment F on User { id }')
+      ).toThrow('GraphQL document must contain an operation');
+    });
+  });
+
+  describe('addTypename', () => {
+    it('should select __typename in nested and fragment selection sets', () => {
+      expect(
+        GraphQLDocuments.addTypename(
+          'query { user { id posts { title } } } fragment F on User { name }'
+        )
+      ).toBe(
+        'query { user { __typename id posts { __typename title } } } fragment F on User { __typename name }'
+      );
+      expect(GraphQLDocuments.addTypename('{ me { id } }')).toBe(
+        '{ me { __typename id } }'
+      );
+    });
+
+    it('should leave object values untouched', () => {
+      expect(
+        GraphQLDocuments.addTypename(
+          'query ($f: In = { a: 1 }) { search(filter: { name: "{" }) @cached(opts: { ttl: 1 }) { id } }'
+        )
+      ).toBe(
+        'query ($f: In = { a: 1 }) { search(filter: { name: "{" }) @cached(opts: { ttl: 1 }) { __typename id } }'
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { GraphQLLexer } from '../../../src/utils/graphql-lexer';
+
+describe('GraphQLLexer', () => {
+  const tokens = (source: string) => {
+    const lexer = new GraphQLLexer(source);
+    const result: Array<[string, string]> = [];
+    while (!lexer.atEnd()) {
+      const { kind, value } = lexer.next();
+      result.push([kind, value]);
+    }
+    return result;
+  };
+
+  it('should skip whitespace, commas and comments', () => {
+    expect(tokens('query {\n  # comment\n  a, b\n}')).toEqual([
+      ['name', 'query'],
+      ['punctuator', '{'],
+      ['name', 'a'],
+      ['name', 'b'],
+      ['punctuator', '}'],
+    ]);
+  });
+
+  it('should read numbers, strings and spreads', () => {
+    expect(tokens('-1 2.5 1e3 "a\\"b" """x "y" z""" ...F')).toEqual([
+      ['int', '-1'],
+      ['float', '2.5'],
+      ['float', '1e3'],
+      ['string', 'a"b'],
+      ['string', 'x "y" z'],
+      ['punctuator', '...'],
+      ['name', 'F'],
+    ]);
+  });
+
+  it('should read type references', () => {
+    const lexer = new GraphQLLexer('[ID!]! String');
+    expect(lexer.expectType()).toBe('[ID!]!');
+    expect(lexer.expectType()).toBe('String');
+    expect(lexer.atEnd()).toBe(true);
+  });
+
+  it('should report the position of unexpected input', () => {
+    expect(() => new GraphQLLexer('{ a ? }')).toThrow(
+      'Syntax error at position 4: Unexpected character "?"'
+    );
+    expect(() => new GraphQLLexer('{ a').expect('}')).toThrow(
+      'Syntax error at position 0: Expected "}", found "{"'
+    );
+  });
+});
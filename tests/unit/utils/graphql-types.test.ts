@@ -0,0 +1,190 @@
+import { GraphQLTypes } from '../../../src/utils';
+
+describe('GraphQLTypes', () => {
+  describe('isOmitted', () => {
+    it('should only treat undefined as omitted', () => {
+      expect(GraphQLTypes.isOmitted(undefined)).toBe(true);
+      expect(GraphQLTypes.isOmitted({ type: 'ID', value: undefined })).toBe(
+        true
+      );
+      expect(GraphQLTypes.isOmitted(null)).toBe(false);
+      expect(GraphQLTypes.isOmitted({ type: 'ID', value: null })).toBe(false);
+      expect(GraphQLTypes.isOmitted(0)).toBe(false);
+    });
+  });
+
+  describe('isTypedArg', () => {
+    it('should detect { type, value } wrappers', () => {
+      expect(GraphQLTypes.isTypedArg({ type: 'ID', value: '1' })).toBe(true);
+      expect(GraphQLTypes.isTypedArg({ value: '1' })).toBe(false);
+      expect(GraphQLTypes.isTypedArg('ID')).toBe(false);
+      expect(GraphQLTypes.isTypedArg(null)).toBe(false);
+    });
+  });
+
+  describe('infer', () => {
+    it('should infer scalar types', () => {
+      expect(GraphQLTypes.infer(1, 'a')).toBe('Int!');
+      expect(GraphQLTypes.infer(-3, 'a')).toBe('Int!');
+      expect(GraphQLTypes.infer(9.99, 'a')).toBe('Float!');
+      expect(GraphQLTypes.infer(2 ** 31, 'a')).toBe('Float!');
+      expect(GraphQLTypes.infer('x', 'a')).toBe('String!');
+      expect(GraphQLTypes.infer(false, 'a')).toBe('Boolean!');
+    });
+
+    it('should infer nullable item types from null items', () => {
+      expect(GraphQLTypes.infer([1, null], 'a')).toBe('[Int]!');
+      expect(GraphQLTypes.infer([[null, 'x']], 'a')).toBe('[[String]!]!');
+      expect(() => GraphQLTypes.infer([null], 'a')).toThrow(
+        'Cannot infer the item type of empty list "a"'
+      );
+    });
+
+    it('should infer nested list types', () => {
+      expect(GraphQLTypes.infer([true], 'a')).toBe('[Boolean!]!');
+      expect(GraphQLTypes.infer([[1], [2.5]], 'a')).toBe('[[Float!]!]!');
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => GraphQLTypes.infer(NaN, 'a')).toThrow(
+        'Cannot send non-finite number NaN for "a"'
+      );
+    });
+
+    it('should name the failing list item', () => {
+      expect(() => GraphQLTypes.infer([[{}]], 'a')).toThrow(
+        'Cannot infer the input type of "a[0][0]"'
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse nested type references', () => {
+      expect(GraphQLTypes.parse('[ID!]!', 'a')).toEqual({
+        nonNull: true,
+        ofType: { nonNull: true, name: 'ID' },
+      });
+      expect(GraphQLTypes.parse('User_Input', 'a')).toEqual({
+        nonNull: false,
+        name: 'User_Input',
+      });
+    });
+
+    it('should reject malformed types', () => {
+      ['', '[ID', 'ID]', '!ID', 'ID!!', '1ID', '[]'].forEach(type =>
+        expect(() => GraphQLTypes.parse(type, 'a')).toThrow(
+          `Invalid GraphQL type "${type}" for "a"`
+        )
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return inferred types with plain values', () => {
+      expect(GraphQLTypes.resolve('a', 1)).toEqual({
+        kind: 'variable',
+        type: 'Int!',
+        value: 1,
+      });
+    });
+
+    it('should normalise whitespace in declared types', () => {
+      expect(
+        GraphQLTypes.resolve('a', { type: '[ ID! ] !', value: ['1'] })
+      ).toEqual({ kind: 'variable', type: '[ID!]!', value: ['1'] });
+    });
+
+    it('should keep falsy values', () => {
+      [
+        [0, 'Int!'],
+        [-0, 'Int!'],
+        [0.0, 'Int!'],
+        [false, 'Boolean!'],
+        ['', 'String!'],
+      ].forEach(([value, type]) =>
+        expect(GraphQLTypes.resolve('a', value)).toEqual({
+          kind: 'variable',
+          type,
+          value,
+        })
+      );
+    });
+
+    it('should keep falsy values with declared types', () => {
+      [
+        { type: 'Int', value: 0 },
+        { type: 'Float!', value: 0 },
+        { type: 'Boolean', value: false },
+        { type: 'String!', value: '' },
+        { type: 'ID', value: '' },
+        { type: 'ID', value: 0 },
+        { type: 'Role', value: '' },
+        { type: '[Int]', value: [] },
+      ].forEach(arg =>
+        expect(GraphQLTypes.resolve('a', arg)).toEqual({
+          kind: 'variable',
+          ...arg,
+        })
+      );
+    });
+
+    it('should distinguish omitted from explicit null', () => {
+      expect(GraphQLTypes.resolve('a', undefined)).toEqual({ kind: 'omitted' });
+      expect(
+        GraphQLTypes.resolve('a', { type: 'String', value: undefined })
+      ).toEqual({ kind: 'omitted' });
+      expect(GraphQLTypes.resolve('a', null)).toEqual({ kind: 'null' });
+      expect(
+        GraphQLTypes.resolve('a', { type: 'String', value: null })
+      ).toEqual({ kind: 'variable', type: 'String', value: null });
+    });
+
+    it('should reject null for non-null types', () => {
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'String!', value: null })
+      ).toThrow('The value of "a" must not be null for a non-null type');
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: '[String!]', value: ['x', null] })
+      ).toThrow('The value of "a[1]" must not be null for a non-null type');
+    });
+
+    it('should allow null in nullable positions', () => {
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: '[String]!', value: ['x', null] })
+      ).not.toThrow();
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'Input', value: { bio: null } })
+      ).not.toThrow();
+    });
+
+    it('should reject undefined list items', () => {
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: '[String]', value: [undefined] })
+      ).toThrow('The value of "a[0]" must not be undefined');
+    });
+
+    it('should check built-in scalars strictly', () => {
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'Int', value: 1.5 })
+      ).toThrow('The value of "a" is not a valid Int: 1.5');
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'Boolean', value: 'true' })
+      ).toThrow('The value of "a" is not a valid Boolean: "true"');
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'ID', value: 1.5 })
+      ).toThrow('The value of "a" is not a valid ID: 1.5');
+    });
+
+    it('should only require JSON values for custom types', () => {
+      expect(() =>
+        GraphQLTypes.resolve('a', {
+          type: 'Input',
+          value: { nested: [{ ok: true }], skipped: undefined },
+        })
+      ).not.toThrow();
+      expect(() =>
+        GraphQLTypes.resolve('a', { type: 'Input', value: { at: new Date() } })
+      ).toThrow('The value of "a" is not a valid Input: an object');
+    });
+  });
+});
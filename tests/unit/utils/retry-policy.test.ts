@@ -0,0 +1,194 @@
+import { RetryPolicy } from '../../../src/utils/retry-policy';
+
+describe('RetryPolicy', () => {
+  const context = (overrides = {}) => ({
+    attempt: 1,
+    method: 'GET',
+    error: new Error('failed'),
+    ...overrides,
+  });
+
+  describe('resolve', () => {
+    it('should return null when retries are not configured', () => {
+      expect(RetryPolicy.resolve()).toBeNull();
+      expect(RetryPolicy.resolve(undefined, undefined)).toBeNull();
+    });
+
+    it('should return null when disabled per request', () => {
+      expect(RetryPolicy.resolve({ attempts: 5 }, false)).toBeNull();
+    });
+
+    it('should return null for a single attempt', () => {
+      expect(RetryPolicy.resolve({ attempts: 1 })).toBeNull();
+    });
+
+    it('should apply defaults', () => {
+      expect(RetryPolicy.resolve({})).toEqual({
+        attempts: 3,
+        delay: 300,
+        maxDelay: 10000,
+        factor: 2,
+        jitter: true,
+        respectRetryAfter: true,
+        retryNonIdempotent: false,
+      });
+    });
+
+    it('should let per-request options override client options', () => {
+      const resolved = RetryPolicy.resolve(
+        { attempts: 5, delay: 100 },
+        { delay: 50 }
+      );
+      expect(resolved).toEqual(
+        expect.objectContaining({ attempts: 5, delay: 50 })
+      );
+    });
+  });
+
+  describe('isIdempotent', () => {
+    it('should treat safe methods as idempotent', () => {
+      ['GET', 'get', 'PUT', 'DELETE', 'HEAD', 'OPTIONS'].forEach(method => {
+        expect(RetryPolicy.isIdempotent(method)).toBe(true);
+      });
+    });
+
+    it('should treat POST and PATCH as non-idempotent', () => {
+      expect(RetryPolicy.isIdempotent('POST')).toBe(false);
+      expect(RetryPolicy.isIdempotent('patch')).toBe(false);
+    });
+
+    it('should default to GET', () => {
+      expect(RetryPolicy.isIdempotent()).toBe(true);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should retry transient statuses', () => {
+      [408, 429, 500, 502, 503, 504].forEach(status => {
+        expect(RetryPolicy.isRetryable(context({ status }))).toBe(true);
+      });
+    });
+
+    it('should not retry client errors', () => {
+      [400, 401, 404, 422].forEach(status => {
+        expect(RetryPolicy.isRetryable(context({ status }))).toBe(false);
+      });
+    });
+
+    it('should retry transient network errors', () => {
+      expect(RetryPolicy.isRetryable(context({ code: 'ECONNRESET' }))).toBe(
+        true
+      );
+      expect(RetryPolicy.isRetryable(context({ code: 'ETIMEDOUT' }))).toBe(
+        true
+      );
+    });
+
+    it('should not retry unknown errors', () => {
+      expect(RetryPolicy.isRetryable(context())).toBe(false);
+      expect(RetryPolicy.isRetryable(context({ code: 'ENOTFOUND' }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('shouldRetry', () => {
+    const options = RetryPolicy.resolve({ attempts: 3 })!;
+
+    it('should stop after the last attempt', () => {
+      expect(
+        RetryPolicy.shouldRetry(options, context({ status: 503 }), true)
+      ).toBe(true);
+      expect(
+        RetryPolicy.shouldRetry(
+          options,
+          context({ status: 503, attempt: 3 }),
+          true
+        )
+      ).toBe(false);
+    });
+
+    it('should not retry non-idempotent requests by default', () => {
+      expect(
+        RetryPolicy.shouldRetry(options, context({ status: 503 }), false)
+      ).toBe(false);
+    });
+
+    it('should retry non-idempotent requests when opted in', () => {
+      const optedIn = RetryPolicy.resolve({ retryNonIdempotent: true })!;
+      expect(
+        RetryPolicy.shouldRetry(optedIn, context({ status: 503 }), false)
+      ).toBe(true);
+    });
+
+    it('should use a custom predicate', () => {
+      const retryOn = jest.fn(() => true);
+      const custom = RetryPolicy.resolve({ retryOn })!;
+
+      expect(
+        RetryPolicy.shouldRetry(custom, context({ status: 400 }), true)
+      ).toBe(true);
+      expect(retryOn).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 400, attempt: 1 })
+      );
+    });
+  });
+
+  describe('getDelay', () => {
+    const options = RetryPolicy.resolve({
+      delay: 100,
+      factor: 2,
+      maxDelay: 1000,
+      jitter: false,
+    })!;
+
+    it('should grow exponentially', () => {
+      expect(RetryPolicy.getDelay(options, 1)).toBe(100);
+      expect(RetryPolicy.getDelay(options, 2)).toBe(200);
+      expect(RetryPolicy.getDelay(options, 3)).toBe(400);
+    });
+
+    it('should cap delays at maxDelay', () => {
+      expect(RetryPolicy.getDelay(options, 10)).toBe(1000);
+    });
+
+    it('should apply jitter within the backoff window', () => {
+      const jittered = { ...options, jitter: true };
+      for (let i = 0; i < 20; i++) {
+        const delay = RetryPolicy.getDelay(jittered, 3);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(400);
+      }
+    });
+
+    it('should honour Retry-After', () => {
+      expect(RetryPolicy.getDelay(options, 1, '0.5')).toBe(500);
+      expect(RetryPolicy.getDelay(options, 1, '120')).toBe(1000);
+    });
+
+    it('should ignore Retry-After when disabled', () => {
+      const ignoring = { ...options, respectRetryAfter: false };
+      expect(RetryPolicy.getDelay(ignoring, 1, '0.5')).toBe(100);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds', () => {
+      expect(RetryPolicy.parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const delay = RetryPolicy.parseRetryAfter(date)!;
+      expect(delay).toBeGreaterThan(3000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(RetryPolicy.parseRetryAfter(undefined)).toBeNull();
+      expect(RetryPolicy.parseRetryAfter('')).toBeNull();
+      expect(RetryPolicy.parseRetryAfter('soon')).toBeNull();
+      expect(RetryPolicy.parseRetryAfter('-1')).toBeNull();
+    });
+  });
+});
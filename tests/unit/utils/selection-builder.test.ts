@@ -0,0 +1,153 @@
+import { SelectionBuilder } from '../../../src/utils';
+
+describe('SelectionBuilder', () => {
+  it('should keep raw strings', () => {
+    expect(SelectionBuilder.build('  id name  ')).toEqual({
+      parts: ['id name'],
+      args: [],
+    });
+  });
+
+  it('should serialise arrays and nested objects', () => {
+    expect(
+      SelectionBuilder.build([
+        'id',
+        '__typename',
+        { profile: ['avatar', { address: { city: true, zip: false } }] },
+      ]).parts
+    ).toEqual(['id __typename profile { avatar address { city } }']);
+  });
+
+  it('should accept nested raw strings', () => {
+    expect(
+      SelectionBuilder.build({ id: true, posts: 'id title' }).parts
+    ).toEqual(['id posts { id title }']);
+  });
+
+  it('should split the selection around nested arguments', () => {
+    const first = { first: 10 };
+    const size = { size: { type: 'Int!', value: 32 } };
+
+    expect(
+      SelectionBuilder.build({
+        id: true,
+        posts: { __args: first, id: true, title: true },
+        avatar: { __args: size },
+      })
+    ).toEqual({
+      parts: ['id posts(', ') { id title } avatar(', ')'],
+      args: [first, size],
+    });
+  });
+
+  it('should skip parentheses when nested arguments are omitted', () => {
+    expect(
+      SelectionBuilder.build({
+        posts: { __args: { first: undefined }, id: true },
+      })
+    ).toEqual({ parts: ['posts { id }'], args: [] });
+  });
+
+  it('should serialise aliases', () => {
+    expect(
+      SelectionBuilder.build({
+        small: { __aliasFor: 'avatar', __args: { size: 32 } },
+        large: { __aliasFor: 'avatar', __args: { size: 512 } },
+      }).parts
+    ).toEqual(['small: avatar(', ') large: avatar(', ')']);
+  });
+
+  it('should serialise inline fragments', () => {
+    expect(
+      SelectionBuilder.build({
+        __typename: true,
+        '... on User': ['name'],
+        '...on Bot': { version: true },
+      }).parts
+    ).toEqual(['__typename ... on User { name } ... on Bot { version }']);
+  });
+
+  it('should serialise directives with their arguments as holes', () => {
+    const include = { if: true };
+    const cached = { ttl: 60 };
+
+    expect(
+      SelectionBuilder.build({
+        id: true,
+        posts: {
+          __args: { first: 10 },
+          __directives: { include, cached },
+          id: true,
+        },
+        avatar: { __directives: { client: true, skip: false } },
+        '... on Admin': { __directives: { include }, permissions: true },
+      })
+    ).toEqual({
+      parts: [
+        'id posts(',
+        ') @include(',
+        ') @cached(',
+        ') { id } avatar @client ... on Admin @include(',
+        ') { permissions }',
+      ],
+      args: [{ first: 10 }, include, cached, include],
+    });
+  });
+
+  it('should serialise root field and operation directives', () => {
+    const include = { if: false };
+
+    expect(
+      SelectionBuilder.buildDirectives({ live: true, include }, 'user')
+    ).toEqual({ parts: [' @live @include(', ')'], args: [include] });
+    expect(SelectionBuilder.buildDirectives(undefined, 'user')).toEqual({
+      parts: [''],
+      args: [],
+    });
+  });
+
+  it('should reject invalid directives', () => {
+    expect(() =>
+      SelectionBuilder.build({ posts: { __directives: { 'no-cache': true } } })
+    ).toThrow('Invalid directive name "no-cache" in "posts"');
+    expect(() =>
+      SelectionBuilder.build({ posts: { __directives: { cached: 60 } } })
+    ).toThrow(
+      'Arguments of directive "@cached" in "posts" must be an object or true'
+    );
+    expect(() =>
+      SelectionBuilder.buildDirectives(['include'] as any, 'user')
+    ).toThrow('Directives of "user" must be an object');
+    expect(() =>
+      SelectionBuilder.build({ __directives: { live: true }, id: true })
+    ).toThrow('"__directives" is only allowed on nested fields');
+  });
+
+  it('should reject invalid selections', () => {
+    expect(() => SelectionBuilder.build({ 'bad-name': true })).toThrow(
+      'Invalid field name "bad-name" in "bad-name"'
+    );
+    expect(() =>
+      SelectionBuilder.build({ user: { x: { __aliasFor: '1x' } } })
+    ).toThrow('Invalid field name "1x" in "user.x.__aliasFor"');
+    expect(() => SelectionBuilder.build({ user: [] })).toThrow(
+      'Selection of "user" must not be empty'
+    );
+    expect(() => SelectionBuilder.build({ user: { id: false } })).not.toThrow();
+    expect(() => SelectionBuilder.build({ id: false })).toThrow(
+      'Selection of "selection" must select at least one field'
+    );
+    expect(() =>
+      SelectionBuilder.build({ posts: { __args: 'first: 1', id: true } } as any)
+    ).toThrow('Arguments of "posts" must be an object');
+    expect(() => SelectionBuilder.build({ '... on User': true })).toThrow(
+      'Inline fragment "... on User" needs a selection'
+    );
+    expect(() =>
+      SelectionBuilder.build({ __args: { id: 1 }, id: true })
+    ).toThrow('"__args" and "__aliasFor" are only allowed on nested fields');
+    expect(() => SelectionBuilder.build([42] as any)).toThrow(
+      'Selection of "selection" must be a string, an array or an object'
+    );
+  });
+});
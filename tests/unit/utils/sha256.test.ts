@@ -0,0 +1,22 @@
+import { SHA256 } from '../../../src/utils/sha256';
+
+describe('SHA256', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    [
+      'query { user { id } }',
+      '5d2759f90dec0b13af0e2d432a8a451e54a6f78980c6410a29381ddf8d007ed4',
+    ],
+    [
+      'héllo 😀',
+      'a53c56966616f0ec3ed9db7ea07a6034430149528bbaba8966c284f9373669c2',
+    ],
+    [
+      'a'.repeat(1000),
+      '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3',
+    ],
+  ])('should hash %p', (message, digest) => {
+    expect(SHA256.hex(message)).toBe(digest);
+  });
+});
@@ -0,0 +1,80 @@
+import { SSEParser } from '../../../src/utils';
+
+describe('SSEParser', () => {
+  let parser: SSEParser;
+
+  beforeEach(() => {
+    parser = new SSEParser();
+  });
+
+  it('should parse complete events', () => {
+    expect(
+      parser.push('id: 1\nevent: update\ndata: {"a":1}\n\ndata: plain\n\n')
+    ).toEqual([
+      { id: '1', event: 'update', data: '{"a":1}' },
+      { id: '1', event: 'message', data: 'plain' },
+    ]);
+  });
+
+  it('should join multi-line data', () => {
+    expect(parser.push('data: first\ndata: second\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+    ]);
+  });
+
+  it('should buffer events split across chunks', () => {
+    expect(parser.push('data: hel')).toEqual([]);
+    expect(parser.push('lo\n')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: 'hello' }]);
+  });
+
+  it('should handle CRLF and CR line endings', () => {
+    expect(parser.push('data: a\r\n\r\ndata: b\r\r')).toEqual([
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+    ]);
+  });
+
+  it('should handle CRLF split across chunks', () => {
+    expect(parser.push('data: a\r')).toEqual([]);
+    expect(parser.push('\n\r')).toEqual([{ event: 'message', data: 'a' }]);
+    expect(parser.push('\ndata: b\n\n')).toEqual([
+      { event: 'message', data: 'b' },
+    ]);
+  });
+
+  it('should ignore comments and unknown fields', () => {
+    expect(parser.push(': keep-alive\nfoo: bar\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x' },
+    ]);
+  });
+
+  it('should only strip a single leading space', () => {
+    expect(parser.push('data:  padded\ndata:tight\n\n')).toEqual([
+      { event: 'message', data: ' padded\ntight' },
+    ]);
+  });
+
+  it('should expose retry values', () => {
+    expect(parser.push('retry: 5000\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x', retry: 5000 },
+    ]);
+    parser.push('retry: soon\n\n');
+    expect(parser.reconnectionTime).toBe(5000);
+  });
+
+  it('should track ids of events without data', () => {
+    expect(parser.push('id: 7\n\n')).toEqual([]);
+    expect(parser.lastEventId).toBe('7');
+    expect(parser.push('data: x\n\n')).toEqual([
+      { id: '7', event: 'message', data: 'x' },
+    ]);
+  });
+
+  it('should start from a known event id', () => {
+    parser = new SSEParser('42');
+    expect(parser.push('data: x\n\n')).toEqual([
+      { id: '42', event: 'message', data: 'x' },
+    ]);
+  });
+});
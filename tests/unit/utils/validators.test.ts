@@ -67,6 +67,10 @@ describe('Validators', () => {
       expect(() => Validators.validateFields('id')).not.toThrow();
       expect(() => Validators.validateFields('id name email')).not.toThrow();
       expect(() => Validators.validateFields('user { id name }')).not.toThrow();
+      expect(() =>
+        Validators.validateFields(['id', { posts: ['id'] }])
+      ).not.toThrow();
+      expect(() => Validators.validateFields({ id: true })).not.toThrow();
     });
 
     it('should throw for invalid field strings', () => {
@@ -85,6 +89,298 @@ describe('Validators', () => {
       expect(() => Validators.validateFields(123 as any)).toThrow(
         'Field selection must be a non-empty string'
       );
+      expect(() => Validators.validateFields([])).toThrow(
+        'Field selection must be a non-empty string, array or object'
+      );
+      expect(() => Validators.validateFields({})).toThrow(
+        'Field selection must be a non-empty string, array or object'
+      );
+    });
+  });
+
+  describe('validateRootFields', () => {
+    it('should not throw for valid root fields', () => {
+      expect(() =>
+        Validators.validateRootFields({
+          me: { field: 'user', args: { id: 1 }, select: ['id'] },
+          notifications: {},
+        })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid root fields', () => {
+      expect(() => Validators.validateRootFields([])).toThrow(
+        'Root fields must be a non-empty object'
+      );
+      expect(() => Validators.validateRootFields({ me: 'user' })).toThrow(
+        'Root field "me" must be an object'
+      );
+      expect(() =>
+        Validators.validateRootFields({ me: { field: 'a-b' } })
+      ).toThrow('Invalid field name "a-b" for "me"');
+      expect(() =>
+        Validators.validateRootFields({ me: { args: 'id' } })
+      ).toThrow('GraphQL arguments must be an object');
+      expect(() =>
+        Validators.validateRootFields({ me: { select: '' } })
+      ).toThrow('Field selection must be a non-empty string, array or object');
+    });
+  });
+
+  describe('validateBatchOptions', () => {
+    it('should not throw for valid batch options', () => {
+      expect(() => Validators.validateBatchOptions(true)).not.toThrow();
+      expect(() => Validators.validateBatchOptions(false)).not.toThrow();
+      expect(() =>
+        Validators.validateBatchOptions({ window: 10, maxSize: 5 })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid batch options', () => {
+      expect(() => Validators.validateBatchOptions('yes')).toThrow(
+        'Batch options must be a boolean or an object'
+      );
+      expect(() => Validators.validateBatchOptions({ window: -1 })).toThrow(
+        'Batch "window" must be a non-negative number'
+      );
+      expect(() => Validators.validateBatchOptions({ maxSize: 0 })).toThrow(
+        'Batch "maxSize" must be a positive integer'
+      );
+    });
+  });
+
+  describe('validatePersistedQueryOptions', () => {
+    it('should not throw for valid persisted query options', () => {
+      expect(() =>
+        Validators.validatePersistedQueryOptions(true)
+      ).not.toThrow();
+      expect(() =>
+        Validators.validatePersistedQueryOptions({
+          useGet: true,
+          hash: (query: string) => query,
+        })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid persisted query options', () => {
+      expect(() => Validators.validatePersistedQueryOptions([])).toThrow(
+        'Persisted query options must be a boolean or an object'
+      );
+      expect(() =>
+        Validators.validatePersistedQueryOptions({ useGet: 'yes' })
+      ).toThrow('Persisted query "useGet" must be a boolean');
+      expect(() =>
+        Validators.validatePersistedQueryOptions({ hash: 'sha256' })
+      ).toThrow('Persisted query "hash" must be a function');
+    });
+  });
+
+  describe('validateGetOptions', () => {
+    it('should not throw for valid GET options', () => {
+      expect(() => Validators.validateGetOptions(true)).not.toThrow();
+      expect(() =>
+        Validators.validateGetOptions({ maxUrlLength: 4096 })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid GET options', () => {
+      expect(() => Validators.validateGetOptions('always')).toThrow(
+        'GET options must be a boolean or an object'
+      );
+      expect(() =>
+        Validators.validateGetOptions({ maxUrlLength: 1.5 })
+      ).toThrow('GET "maxUrlLength" must be a positive integer');
+    });
+  });
+
+  describe('validateSchemaOptions', () => {
+    it('should not throw for valid schema options', () => {
+      expect(() =>
+        Validators.validateSchemaOptions({ sdl: 'type Query { a: Int }' })
+      ).not.toThrow();
+      expect(() =>
+        Validators.validateSchemaOptions({ sdl: async () => '' })
+      ).not.toThrow();
+      expect(() =>
+        Validators.validateSchemaOptions({ introspect: true })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid schema options', () => {
+      expect(() => Validators.validateSchemaOptions(true)).toThrow(
+        'Schema options must be an object'
+      );
+      expect(() => Validators.validateSchemaOptions({ sdl: 1 })).toThrow(
+        'Schema "sdl" must be a string or a function'
+      );
+      expect(() =>
+        Validators.validateSchemaOptions({ introspect: 'yes' })
+      ).toThrow('Schema "introspect" must be a boolean');
+      expect(() =>
+        Validators.validateSchemaOptions({ sdl: '', introspect: true })
+      ).toThrow('Schema options accept "sdl" or "introspect", not both');
+      expect(() =>
+        Validators.validateSchemaOptions({ introspect: false })
+      ).toThrow('Schema options need either "sdl" or "introspect"');
+    });
+  });
+
+  describe('validateVariables', () => {
+    it('should accept objects and undefined', () => {
+      expect(() => Validators.validateVariables({ id: 1 })).not.toThrow();
+      expect(() => Validators.validateVariables(undefined)).not.toThrow();
+    });
+
+    it('should throw for other values', () => {
+      expect(() => Validators.validateVariables([1])).toThrow(
+        'GraphQL variables must be an object'
+      );
+    });
+  });
+
+  describe('validateCacheOptions', () => {
+    it('should not throw for valid cache options', () => {
+      expect(() => Validators.validateCacheOptions(true)).not.toThrow();
+      expect(() =>
+        Validators.validateCacheOptions({
+          ttl: 0,
+          staleWhileRevalidate: 5000,
+          vary: ['Authorization'],
+          storage: new Map(),
+        })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid cache options', () => {
+      expect(() => Validators.validateCacheOptions('yes')).toThrow(
+        'Cache options must be a boolean or an object'
+      );
+      expect(() =>
+        Validators.validateCacheOptions({ staleWhileRevalidate: NaN })
+      ).toThrow('Cache "staleWhileRevalidate" must be a non-negative number');
+      expect(() => Validators.validateCacheOptions({ vary: 'accept' })).toThrow(
+        'Cache "vary" must be an array of header names'
+      );
+      expect(() => Validators.validateCacheOptions({ storage: {} })).toThrow(
+        'Cache "storage" must implement get, set, delete and keys'
+      );
+    });
+  });
+
+  describe('validateConditionalRequestOptions', () => {
+    it('should not throw for valid options', () => {
+      expect(() =>
+        Validators.validateConditionalRequestOptions(true)
+      ).not.toThrow();
+      expect(() =>
+        Validators.validateConditionalRequestOptions({ storage: new Map() })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid options', () => {
+      expect(() => Validators.validateConditionalRequestOptions(1)).toThrow(
+        'Conditional request options must be a boolean or an object'
+      );
+      expect(() =>
+        Validators.validateConditionalRequestOptions({ storage: [] })
+      ).toThrow(
+        'Conditional requests "storage" must implement get, set, delete and keys'
+      );
+    });
+  });
+
+  describe('validateDedupe', () => {
+    it('should accept booleans only', () => {
+      expect(() => Validators.validateDedupe(false)).not.toThrow();
+      expect(() => Validators.validateDedupe(1)).toThrow(
+        'Dedupe option must be a boolean'
+      );
+    });
+  });
+
+  describe('validateFetchPolicy', () => {
+    it('should not throw for valid policies', () => {
+      expect(() => Validators.validateFetchPolicy('cache-first')).not.toThrow();
+      expect(() => Validators.validateFetchPolicy('cache-only')).not.toThrow();
+    });
+
+    it('should throw for unknown policies', () => {
+      expect(() => Validators.validateFetchPolicy('no-cache')).toThrow(
+        'Invalid fetch policy "no-cache". Valid policies: cache-first, network-only, cache-and-network, cache-only'
+      );
+    });
+  });
+
+  describe('validateNormalizedCacheOptions', () => {
+    it('should not throw for valid options', () => {
+      expect(() =>
+        Validators.validateNormalizedCacheOptions(true)
+      ).not.toThrow();
+      expect(() =>
+        Validators.validateNormalizedCacheOptions({
+          fetchPolicy: 'network-only',
+          addTypename: false,
+          dataId: () => undefined,
+        })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid options', () => {
+      expect(() => Validators.validateNormalizedCacheOptions([])).toThrow(
+        'Normalized cache options must be a boolean or an object'
+      );
+      expect(() =>
+        Validators.validateNormalizedCacheOptions({ fetchPolicy: 'fast' })
+      ).toThrow('Invalid fetch policy "fast"');
+      expect(() =>
+        Validators.validateNormalizedCacheOptions({ addTypename: 'yes' })
+      ).toThrow('Normalized cache "addTypename" must be a boolean');
+      expect(() =>
+        Validators.validateNormalizedCacheOptions({ dataId: 'id' })
+      ).toThrow('Normalized cache "dataId" must be a function');
+    });
+  });
+
+  describe('validateWatchOptions', () => {
+    it('should not throw for valid options', () => {
+      expect(() => Validators.validateWatchOptions({})).not.toThrow();
+      expect(() =>
+        Validators.validateWatchOptions({ pollInterval: 0 })
+      ).not.toThrow();
+      expect(() =>
+        Validators.validateWatchOptions({ pollInterval: 5000 })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid options', () => {
+      expect(() => Validators.validateWatchOptions(null)).toThrow(
+        'Watch options must be an object'
+      );
+      expect(() =>
+        Validators.validateWatchOptions({ pollInterval: '1000' })
+      ).toThrow('Watch "pollInterval" must be a non-negative number');
+      expect(() =>
+        Validators.validateWatchOptions({ pollInterval: Infinity })
+      ).toThrow('Watch "pollInterval" must be a non-negative number');
+    });
+  });
+
+  describe('validateOperationName', () => {
+    it('should not throw for valid operation names', () => {
+      expect(() => Validators.validateOperationName('GetUser')).not.toThrow();
+      expect(() => Validators.validateOperationName('_user_2')).not.toThrow();
+    });
+
+    it('should throw for invalid operation names', () => {
+      expect(() => Validators.validateOperationName('')).toThrow(
+        'Invalid operation name ""'
+      );
+      expect(() => Validators.validateOperationName('get-user')).toThrow(
+        'Invalid operation name "get-user"'
+      );
+      expect(() => Validators.validateOperationName(42)).toThrow(
+        'Invalid operation name "42"'
+      );
     });
   });
 
@@ -112,6 +408,89 @@ describe('Validators', () => {
     });
   });
 
+  describe('validateRetryOptions', () => {
+    it('should not throw for valid retry options', () => {
+      expect(() => Validators.validateRetryOptions({})).not.toThrow();
+      expect(() =>
+        Validators.validateRetryOptions({ attempts: 5, delay: 100 })
+      ).not.toThrow();
+      expect(() => Validators.validateRetryOptions(false)).not.toThrow();
+    });
+
+    it('should throw for invalid retry options', () => {
+      expect(() => Validators.validateRetryOptions(null)).toThrow(
+        'Retry options must be an object or false'
+      );
+      expect(() => Validators.validateRetryOptions(true)).toThrow(
+        'Retry options must be an object or false'
+      );
+      expect(() => Validators.validateRetryOptions({ attempts: 0 })).toThrow(
+        'Retry "attempts" must be a positive integer'
+      );
+      expect(() => Validators.validateRetryOptions({ attempts: 1.5 })).toThrow(
+        'Retry "attempts" must be a positive integer'
+      );
+    });
+  });
+
+  describe('validateAbortSignal', () => {
+    it('should not throw for abort signals', () => {
+      expect(() =>
+        Validators.validateAbortSignal(new AbortController().signal)
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid signals', () => {
+      expect(() => Validators.validateAbortSignal(null)).toThrow(
+        'Signal must be a valid AbortSignal'
+      );
+      expect(() => Validators.validateAbortSignal({})).toThrow(
+        'Signal must be a valid AbortSignal'
+      );
+    });
+  });
+
+  describe('validateSubscriptionOptions', () => {
+    it('should not throw for WebSocket options', () => {
+      expect(() =>
+        Validators.validateSubscriptionOptions({
+          transport: 'ws',
+          url: 'wss://api.example.com/graphql',
+        })
+      ).not.toThrow();
+    });
+
+    it('should not throw for SSE options', () => {
+      expect(() =>
+        Validators.validateSubscriptionOptions({
+          transport: 'sse',
+          url: 'https://api.example.com/graphql/stream',
+        })
+      ).not.toThrow();
+    });
+
+    it('should throw for invalid options', () => {
+      expect(() => Validators.validateSubscriptionOptions('ws')).toThrow(
+        'Subscription options must be an object'
+      );
+      expect(() =>
+        Validators.validateSubscriptionOptions({ transport: 'smoke' })
+      ).toThrow('Unknown subscription transport "smoke"');
+      expect(() =>
+        Validators.validateSubscriptionOptions({
+          transport: 'ws',
+          url: 'https://api.example.com/graphql',
+        })
+      ).toThrow('Subscription "url" must be a ws:// or wss:// URL');
+      expect(() =>
+        Validators.validateSubscriptionOptions({
+          transport: 'sse',
+          url: 'wss://api.example.com/graphql',
+        })
+      ).toThrow('Subscription "url" must be an http:// or https:// URL');
+    });
+  });
+
   describe('validateConstructorArgs', () => {
     it('should not throw for valid base URLs', () => {
       expect(() =>